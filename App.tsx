@@ -1,11 +1,35 @@
-import React, { useState, useEffect } from 'react';
-import { AppView } from './types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { AppView, AppMode, ChatSession, Message, StillUnit } from './types';
 import Navigation from './components/Navigation';
 import CalculatorPanel from './components/Calculator';
 import Maintenance from './components/Maintenance';
 import Procedures from './components/Procedures';
+import Chat from './components/Chat';
+import ToolsPanel from './components/ToolsPanel';
+import FleetOverview from './components/FleetOverview';
+import { generateSessionTitle } from './utils/helpers';
+import { UnitPreferences, loadUnitPreferences, saveUnitPreferences } from './utils/units';
+import { canRemoveUnit, clearUnitData, loadActiveUnitId, loadFleet, saveActiveUnitId, saveFleet, unitStorageKey } from './utils/fleet';
 
 const THEME_KEY = 'distillai_theme';
+const SESSIONS_KEY = 'distillai_chat_sessions';
+const MODE_KEY = 'distillai_chat_mode';
+
+const createSession = (): ChatSession => ({
+  id: crypto.randomUUID(),
+  title: 'New Chat',
+  messages: [],
+  lastModified: Date.now(),
+});
+
+// Chat sessions are kept per still
+const loadSessions = (unitId: string): ChatSession[] => {
+  try {
+    const saved = localStorage.getItem(unitStorageKey(SESSIONS_KEY, unitId));
+    const parsed: ChatSession[] = saved ? JSON.parse(saved) : [];
+    return parsed.length > 0 ? parsed : [createSession()];
+  } catch { return [createSession()]; }
+};
 
 const App: React.FC = () => {
   // Theme State
@@ -16,8 +40,30 @@ const App: React.FC = () => {
     } catch { return false; }
   });
 
+  // Unit preference shared by the calculator and the AI tools
+  const [units, setUnits] = useState<UnitPreferences>(loadUnitPreferences);
+
+  // Fleet State (maintenance, scenarios and chats belong to the active unit)
+  const [fleet, setFleet] = useState<StillUnit[]>(loadFleet);
+  const [activeUnitId, setActiveUnitId] = useState<string>(() => loadActiveUnitId(fleet));
+  const activeUnit = fleet.find(u => u.id === activeUnitId) || fleet[0];
+
   // View State
   const [currentView, setCurrentView] = useState<AppView>(AppView.CALCULATOR);
+  // SOP opened from a maintenance task; remounts Procedures on that procedure
+  const [procedureRequest, setProcedureRequest] = useState<string | null>(null);
+
+  // Chat State
+  const [sessions, setSessions] = useState<ChatSession[]>(() => loadSessions(activeUnit.id));
+  const [currentSessionId, setCurrentSessionId] = useState<string>(() => sessions[sessions.length - 1].id);
+  const [mode, setMode] = useState<AppMode>(() => {
+    const saved = localStorage.getItem(MODE_KEY);
+    return saved === AppMode.SEARCH ? AppMode.SEARCH : AppMode.EXPERT;
+  });
+  const [isToolsOpen, setIsToolsOpen] = useState(false);
+  const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+
+  const currentSession = sessions.find(s => s.id === currentSessionId) || sessions[sessions.length - 1];
 
   // --- Effects ---
   useEffect(() => {
@@ -29,16 +75,132 @@ const App: React.FC = () => {
     localStorage.setItem(THEME_KEY, JSON.stringify(isDarkMode));
   }, [isDarkMode]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(unitStorageKey(SESSIONS_KEY, activeUnit.id), JSON.stringify(sessions));
+    } catch (e) {
+      // Attached images can exceed the storage quota; keep working in memory
+      console.error("Failed to persist chat sessions", e);
+    }
+  }, [sessions, activeUnit.id]);
+
+  useEffect(() => {
+    localStorage.setItem(MODE_KEY, mode);
+  }, [mode]);
+
+  useEffect(() => {
+    saveUnitPreferences(units);
+  }, [units]);
+
+  useEffect(() => {
+    saveFleet(fleet);
+  }, [fleet]);
+
+  useEffect(() => {
+    saveActiveUnitId(activeUnit.id);
+  }, [activeUnit.id]);
+
+  // --- Fleet Handlers ---
+  const handleSelectUnit = (unitId: string) => {
+    if (unitId === activeUnit.id) return;
+    const unitSessions = loadSessions(unitId);
+    setActiveUnitId(unitId);
+    setSessions(unitSessions);
+    setCurrentSessionId(unitSessions[unitSessions.length - 1].id);
+  };
+
+  const handleSaveUnit = (unit: StillUnit) => {
+    setFleet(prev => prev.some(u => u.id === unit.id) ? prev.map(u => u.id === unit.id ? unit : u) : [...prev, unit]);
+  };
+
+  const handleRemoveUnit = (unitId: string) => {
+    const remaining = fleet.filter(u => u.id !== unitId);
+    if (!canRemoveUnit(unitId) || remaining.length === 0) return;
+    if (unitId === activeUnit.id) handleSelectUnit(remaining[0].id);
+    setFleet(remaining);
+    clearUnitData(unitId);
+  };
+
+  // --- Session Handlers ---
+  const handleNewChat = () => {
+    // Reuse an empty session instead of stacking blank ones
+    if (currentSession.messages.length === 0) {
+      setIsToolsOpen(false);
+      return;
+    }
+    const session = createSession();
+    setSessions(prev => [...prev, session]);
+    setCurrentSessionId(session.id);
+    setIsToolsOpen(false);
+  };
+
+  const handleDeleteSession = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    const remaining = sessions.filter(s => s.id !== id);
+    if (remaining.length === 0) {
+      const session = createSession();
+      setSessions([session]);
+      setCurrentSessionId(session.id);
+      return;
+    }
+    setSessions(remaining);
+    if (id === currentSessionId) {
+      setCurrentSessionId(remaining[remaining.length - 1].id);
+    }
+  };
+
+  const handleUpdateMessages = useCallback((sessionId: string, updater: (messages: Message[]) => Message[]) => {
+    setSessions(prev => prev.map(s => {
+      if (s.id !== sessionId) return s;
+      const messages = updater(s.messages);
+      const firstUserMessage = messages.find(m => m.role === 'user');
+      const title = s.title === 'New Chat' && firstUserMessage ? generateSessionTitle(firstUserMessage.text) : s.title;
+      return { ...s, messages, title, lastModified: Date.now() };
+    }));
+  }, []);
+
+  const handlePromptConsumed = useCallback(() => setPendingPrompt(null), []);
+
+  const handleOpenProcedure = (sopId: string) => {
+    setProcedureRequest(sopId);
+    setCurrentView(AppView.PROCEDURES);
+  };
+
   const renderContent = () => {
     switch (currentView) {
       case AppView.CALCULATOR:
-        return <CalculatorPanel isDarkMode={isDarkMode} />;
+        return <CalculatorPanel key={activeUnit.id} isDarkMode={isDarkMode} units={units} onUnitsChange={setUnits} still={activeUnit} />;
       case AppView.MAINTENANCE:
-        return <Maintenance />;
+        return <Maintenance key={activeUnit.id} still={activeUnit} onOpenProcedure={handleOpenProcedure} />;
       case AppView.PROCEDURES:
-        return <Procedures />;
+        return <Procedures key={procedureRequest ?? 'none'} initialProcedure={procedureRequest} />;
+      case AppView.CHAT:
+        return (
+          <Chat
+            key={currentSession.id}
+            session={currentSession}
+            mode={mode}
+            setMode={setMode}
+            onUpdateMessages={handleUpdateMessages}
+            onOpenHistory={() => setIsToolsOpen(true)}
+            pendingPrompt={pendingPrompt}
+            onPromptConsumed={handlePromptConsumed}
+            units={units}
+          />
+        );
+      case AppView.FLEET:
+        return (
+          <FleetOverview
+            fleet={fleet}
+            activeUnitId={activeUnit.id}
+            units={units}
+            onSave={handleSaveUnit}
+            onRemove={handleRemoveUnit}
+            onOpenMaintenance={(unitId) => { handleSelectUnit(unitId); setCurrentView(AppView.MAINTENANCE); }}
+          />
+        );
       default:
-        return <CalculatorPanel isDarkMode={isDarkMode} />;
+        return <CalculatorPanel key={activeUnit.id} isDarkMode={isDarkMode} units={units} onUnitsChange={setUnits} still={activeUnit} />;
     }
   };
 
@@ -48,9 +210,12 @@ const App: React.FC = () => {
       {/* Sidebar Navigation */}
       <Navigation 
         currentView={currentView} 
-        setView={setCurrentView} 
+        setView={(view) => { setCurrentView(view); setProcedureRequest(null); }} 
         isDarkMode={isDarkMode} 
         toggleTheme={() => setIsDarkMode(!isDarkMode)} 
+        fleet={fleet}
+        activeUnitId={activeUnit.id}
+        onSelectUnit={handleSelectUnit}
       />
 
       {/* Main Content Area */}
@@ -58,6 +223,24 @@ const App: React.FC = () => {
         {renderContent()}
       </main>
 
+      {/* Chat History Drawer */}
+      <ToolsPanel
+        currentMode={mode}
+        setMode={setMode}
+        currentView={currentView}
+        setView={(view) => { setCurrentView(view); setIsToolsOpen(false); }}
+        sessions={[...sessions].sort((a, b) => a.lastModified - b.lastModified)}
+        currentSessionId={currentSession.id}
+        onSwitchSession={setCurrentSessionId}
+        onNewChat={handleNewChat}
+        onDeleteSession={handleDeleteSession}
+        onQuickPrompt={(text) => { setPendingPrompt(text); setIsToolsOpen(false); }}
+        isOpen={isToolsOpen}
+        onClose={() => setIsToolsOpen(false)}
+        isDarkMode={isDarkMode}
+        toggleTheme={() => setIsDarkMode(!isDarkMode)}
+      />
+
     </div>
   );
 };
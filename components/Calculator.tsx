@@ -1,17 +1,38 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, AreaChart, Area, ComposedChart, Bar 
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea, AreaChart, Area, ComposedChart, Bar 
 } from 'recharts';
 import { 
   Thermometer, Activity, Calculator, ArrowRight, 
-  FlaskConical, TrendingUp, Droplets, Gauge, Zap, RotateCcw
+  FlaskConical, TrendingUp, Droplets, Gauge, Zap, RotateCcw, AlertTriangle, Waves, Blend, Wind, Snowflake, Download, SlidersHorizontal
 } from 'lucide-react';
 import { 
-  SUBSTANCES, generateAntoineData, generateMcCabeThieleData, 
-  generateHeatingData, generateRayleighData,
-  generateConductivityData, generateFlowData, generatePowerData
+  SUBSTANCES, generateAntoineData, generateMcCabeThieleData, designMcCabeThiele, calculateBoilingPoint, isInAntoineRange,
+  generateConductivityData
 } from '../utils/calculations';
-import { AntoineParams } from '../types';
+import { AntoineParams, CalculatorModule, StillUnit } from '../types';
+import { LogModule, RunLog, extractMeasured, overlayMeasured } from '../utils/runLog';
+import RunLogPanel from './RunLogPanel';
+import FitPanel, { FitValues } from './FitPanel';
+import SubstanceLibrary from './SubstanceLibrary';
+import ScenarioPanel from './ScenarioPanel';
+import SensitivityPanel from './SensitivityPanel';
+import {
+  CalculatorParams, Scenario, ScenarioMetric, evaluateScenario, loadScenarios, mergeScenarios, pickParams, readSharedScenario, saveScenarios
+} from '../utils/scenarios';
+import { loadCustomSubstances, saveCustomSubstances } from '../utils/substanceLibrary';
+import VleSelector from './VleSelector';
+import { ACTIVITY_MODEL_LABELS, DEFAULT_VLE_SPEC, VleSpec, buildVleSystem, generateTxyData, generateXyData } from '../utils/vle';
+import MixtureEditor, { MixtureEntry } from './MixtureEditor';
+import { MixtureComponent, bubblePointTemperature, dewPointTemperature, generateFlashCurve, isothermalFlash, outOfRangeComponents } from '../utils/flash';
+import { BATCH_OPERATION_LABELS, BATCH_STOP_LABELS, BatchOperation, BatchSpec, BatchStopCriterion, DEFAULT_BATCH_SPEC, simulateBatchDistillation, toBatchChartRows } from '../utils/batch';
+import { boilerPropertiesFor, boilerSpecFrom, generateBoilerData, summarizeBoiler } from '../utils/boiler';
+import { CondenserGeometry, CondenserStatus, coilArea, evaluateCondenser, generateCondenserCurve } from '../utils/condenser';
+import { ATMOSPHERIC_MMHG, batchEnergy, generateBoilingCurve, generateEnergyComparison, sizeVacuumPump } from '../utils/vacuum';
+import {
+  DEFAULT_UNIT_PREFERENCES, PRESSURE_UNITS, PressureUnit, Quantity, UNIT_SYSTEM_LABELS, UnitPreferences, UnitSystem,
+  convertRows, displayStep, formatQuantity, fromDisplay, rowsToCsv, toDisplay, toDisplayDelta, unitLabel
+} from '../utils/units';
 
 // --- Reusable UI Components ---
 
@@ -40,6 +61,7 @@ const NavButton = ({
   </button>
 );
 
+// With a quantity, value/min/max/step are canonical and the slider works in the preferred units
 const SliderControl = ({ 
   label, 
   value, 
@@ -47,28 +69,38 @@ const SliderControl = ({
   max, 
   step = 1, 
   unit = '', 
+  quantity,
+  units = DEFAULT_UNIT_PREFERENCES,
   onChange 
-}: { label: string, value: number, min: number, max: number, step?: number, unit?: string, onChange: (val: number) => void }) => (
-  <div className="mb-5">
-    <div className="flex justify-between items-center mb-2">
-      <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">{label}</label>
-      <span className="text-sm font-mono font-medium text-brand-600 dark:text-brand-400 bg-brand-50 dark:bg-brand-900/30 px-2 py-0.5 rounded">
-        {value.toFixed(step < 1 ? 2 : 0)}{unit}
-      </span>
-    </div>
-    <div className="flex items-center gap-3">
-      <input 
-        type="range" 
-        min={min} 
-        max={max} 
-        step={step} 
-        value={value} 
-        onChange={(e) => onChange(parseFloat(e.target.value))}
-        className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
-      />
+}: { label: string, value: number, min: number, max: number, step?: number, unit?: string, quantity?: Quantity, units?: UnitPreferences, onChange: (val: number) => void }) => {
+  const show = (v: number) => quantity ? toDisplay(quantity, v, units) : v;
+  const shownStep = quantity ? displayStep(quantity, step, units) : step;
+  const digits = quantity ? Math.max(0, -Math.floor(Math.log10(shownStep))) : step < 1 ? 2 : 0;
+  return (
+    <div className="mb-5">
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">{label}</label>
+        <span className="text-sm font-mono font-medium text-brand-600 dark:text-brand-400 bg-brand-50 dark:bg-brand-900/30 px-2 py-0.5 rounded">
+          {show(value).toFixed(digits)}{quantity ? ` ${unitLabel(quantity, units)}` : unit}
+        </span>
+      </div>
+      <div className="flex items-center gap-3">
+        <input 
+          type="range" 
+          min={show(min)} 
+          max={show(max)} 
+          step={shownStep} 
+          value={show(value)} 
+          onChange={(e) => {
+            const v = parseFloat(e.target.value);
+            onChange(quantity ? fromDisplay(quantity, v, units) : v);
+          }}
+          className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-lg appearance-none cursor-pointer accent-brand-500"
+        />
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 const FormulaBox = ({ title, formula }: { title: string, formula: string }) => (
   <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-100 dark:border-slate-700 mb-6">
@@ -79,65 +111,422 @@ const FormulaBox = ({ title, formula }: { title: string, formula: string }) => (
   </div>
 );
 
+const SegmentedControl = <T extends string>({ 
+  label, 
+  options, 
+  value, 
+  onChange 
+}: { label: string, options: Array<{ value: NoInfer<T>, label: string }>, value: T, onChange: (val: NoInfer<T>) => void }) => (
+  <div className="mb-5">
+    <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-2">{label}</label>
+    <div className="flex p-1 rounded-lg bg-slate-100 dark:bg-slate-700/50">
+      {options.map(o => (
+        <button
+          key={o.value}
+          onClick={() => onChange(o.value)}
+          className={`flex-1 px-3 py-1.5 text-xs font-semibold rounded-md transition-colors ${
+            value === o.value
+            ? 'bg-white dark:bg-slate-600 text-slate-800 dark:text-white shadow-sm'
+            : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+          }`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const EQUILIBRIUM_OPTIONS: Array<{ value: 'alpha' | 'vle', label: string }> = [
+  { value: 'alpha', label: 'Constant α' },
+  { value: 'vle', label: 'VLE Model' },
+];
+
+const BATCH_OPERATION_OPTIONS = (Object.keys(BATCH_OPERATION_LABELS) as BatchOperation[]).map(value => ({ value, label: BATCH_OPERATION_LABELS[value] }));
+const BATCH_STOP_OPTIONS = (Object.keys(BATCH_STOP_LABELS) as BatchStopCriterion[]).map(value => ({ value, label: BATCH_STOP_LABELS[value] }));
+
+// Default target when switching stop criterion (still x_W, average x_D, fraction distilled)
+const BATCH_STOP_DEFAULTS: Record<BatchStopCriterion, number> = { stillComposition: 0.1, distillatePurity: 0.8, distilledFraction: 0.95 };
+
+const CONDENSER_STATUS_STYLE: Record<CondenserStatus, string> = {
+  ok: 'text-emerald-600 dark:text-emerald-400',
+  'vapor escapes': 'text-red-600 dark:text-red-400',
+  flooding: 'text-amber-600 dark:text-amber-400',
+};
+
+const CUT_COLORS = ['#a855f7', '#f59e0b', '#10b981', '#64748b'];
+
+// Chart columns that carry a physical quantity; everything else is unitless or fixed (W, kWh, $)
+const CHART_QUANTITIES: Partial<Record<string, Quantity>> = {
+  temperature: 'temperature',
+  boilingPoint: 'temperature',
+  outlet: 'temperature',
+  pressure: 'pressure',
+  flowRate: 'flowRate',
+  totalVolume: 'volume',
+  coolantFlow: 'coolantFlow',
+};
+
+const VACUUM_TICKS_MMHG = [5, 10, 20, 50, 100, 200, 500, 760];
+
+// Current settings first, then each compared scenario
+const SCENARIO_COLORS = ['#0f172a', '#f97316', '#0ea5e9', '#10b981', '#a855f7', '#ef4444'];
+
 // --- Main Calculator Component ---
 
-type ModuleType = 'heating' | 'antoine' | 'conductivity' | 'flow' | 'power' | 'mccabe' | 'batch';
+type ModuleType = CalculatorModule;
+
+const DEFAULT_MIXTURE: MixtureEntry[] = [
+  { name: 'Benzene', z: 0.3 },
+  { name: 'Toluene', z: 0.4 },
+  { name: 'p-Xylene', z: 0.3 },
+];
+
+const LOG_MODULES: ModuleType[] = ['heating', 'conductivity', 'flow', 'power'];
+const isLogModule = (m: ModuleType): m is LogModule => LOG_MODULES.includes(m);
+
+// Upper bound when stretching model curves to cover a long run log
+const MAX_LOG_MINUTES = 720;
 
 interface CalculatorPanelProps {
   isDarkMode: boolean;
+  units: UnitPreferences;
+  onUnitsChange: (units: UnitPreferences) => void;
+  // Active still; its heater and boiler seed the energy balance and its scenarios are loaded
+  still: StillUnit;
 }
 
-const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
+const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode, units, onUnitsChange, still }) => {
   const [module, setModule] = useState<ModuleType>('heating');
 
-  // -- Heating State (Temperature) --
-  const [t0, setT0] = useState(20);
-  const [tMax, setTMax] = useState(100);
-  const [k, setK] = useState(0.10);
-  const heatingData = useMemo(() => generateHeatingData(t0, tMax, k), [t0, tMax, k]);
+  // -- Units (models stay canonical; only what is shown is converted) --
+  const fmt = (quantity: Quantity, value: number, digits?: number) => formatQuantity(quantity, value, units, digits);
+  const inUnits = (quantity: Quantity, value: number) => Number(toDisplay(quantity, value, units).toFixed(4));
+  const unitOf = (quantity: Quantity) => unitLabel(quantity, units);
+
+  // -- Measured Run Logs (one per time-based module) --
+  const [runLogs, setRunLogs] = useState<Partial<Record<LogModule, RunLog>>>({});
+  const activeLog = isLogModule(module) ? runLogs[module] : undefined;
+  const measured = useMemo(
+    () => activeLog?.mapping && isLogModule(module) ? extractMeasured(module, activeLog.rows, activeLog.mapping) : [],
+    [activeLog, module]
+  );
+  // Model curves extend to cover the whole log
+  const duration = Math.min(MAX_LOG_MINUTES, Math.max(60, Math.ceil(measured[measured.length - 1]?.x ?? 0)));
 
   // -- Antoine State (Pressure) --
   const [selectedSubstance, setSelectedSubstance] = useState<AntoineParams>(SUBSTANCES[0]);
   const [pressureTempRange, setPressureTempRange] = useState(120);
+  const [customSubstances, setCustomSubstances] = useState<AntoineParams[]>(loadCustomSubstances);
   const antoineData = useMemo(() => generateAntoineData(selectedSubstance, 0, pressureTempRange), [selectedSubstance, pressureTempRange]);
+  const boilingPoint = calculateBoilingPoint(760, selectedSubstance);
+  // Parts of the plotted range outside the temperatures the constants were fitted over
+  const extrapolation = [
+    selectedSubstance.tMin > 0 && `below ${fmt('temperature', selectedSubstance.tMin, 0)}`,
+    selectedSubstance.tMax < pressureTempRange && `above ${fmt('temperature', selectedSubstance.tMax, 0)}`,
+  ].filter(Boolean).join(' and ');
+
+  useEffect(() => {
+    saveCustomSubstances(customSubstances);
+  }, [customSubstances]);
+
+  // -- Boiler State (one energy balance drives Temperature, Flow and Power) --
+  const [t0, setT0] = useState(20);
+  const [boilerVolume, setBoilerVolume] = useState(still.boilerVolumeL);
+  const [liquidDensity, setLiquidDensity] = useState(1.0);
+  const [heatCapacity, setHeatCapacity] = useState(4.18);
+  const [lossCoefficient, setLossCoefficient] = useState(3);
+  const [ambientC, setAmbientC] = useState(20);
+  const [powerWatts, setPowerWatts] = useState(still.heaterPowerW);
+  const [powerCost, setPowerCost] = useState(0.15);
+  // Boiling point and latent heat of the Pressure module's substance at 1 atm
+  const boilerProps = useMemo(() => boilerPropertiesFor(selectedSubstance), [selectedSubstance]);
+  const boilerSpec = useMemo(
+    () => boilerSpecFrom({ boilerVolume, liquidDensity, heatCapacity, powerWatts, lossCoefficient, ambientC, t0 }, selectedSubstance),
+    [boilerVolume, liquidDensity, heatCapacity, selectedSubstance, powerWatts, lossCoefficient, ambientC, t0]
+  );
+  const boilerSummary = useMemo(() => summarizeBoiler(boilerSpec), [boilerSpec]);
+  const boilerData = useMemo(() => generateBoilerData(boilerSpec, powerCost, duration), [boilerSpec, powerCost, duration]);
 
   // -- Conductivity State --
   const [condInit, setCondInit] = useState(150);
   const [condFinal, setCondFinal] = useState(2);
   const [condRate, setCondRate] = useState(0.15);
-  const condData = useMemo(() => generateConductivityData(condInit, condFinal, condRate), [condInit, condFinal, condRate]);
+  const condData = useMemo(() => generateConductivityData(condInit, condFinal, condRate, duration), [condInit, condFinal, condRate, duration]);
 
-  // -- Flow State --
-  const [flowPower, setFlowPower] = useState(2000);
-  const [flowEff, setFlowEff] = useState(0.85);
-  const flowData = useMemo(() => generateFlowData(flowPower, flowEff), [flowPower, flowEff]);
+  // -- Vacuum State (substance from Pressure; heater, price, cp and T₀ from the boiler) --
+  const [vacuumPressure, setVacuumPressure] = useState(100);
+  const [chargeKg, setChargeKg] = useState(10);
+  const [evaporatedPct, setEvaporatedPct] = useState(80);
+  const [systemVolume, setSystemVolume] = useState(20);
+  const [pumpDownMinutes, setPumpDownMinutes] = useState(10);
+  const [leakRate, setLeakRate] = useState(0.1);
+  const boilingCurve = useMemo(() => generateBoilingCurve(selectedSubstance, 5, ATMOSPHERIC_MMHG), [selectedSubstance]);
+  const vacuumBoilingPoints = useMemo(() => [...SUBSTANCES, ...customSubstances].map(s => {
+    const atVacuum = calculateBoilingPoint(vacuumPressure, s);
+    return { name: s.name, atVacuum, atmospheric: calculateBoilingPoint(ATMOSPHERIC_MMHG, s), inRange: isInAntoineRange(atVacuum, s) };
+  }).sort((a, b) => a.atVacuum - b.atVacuum), [customSubstances, vacuumPressure]);
+  const energyInput = { chargeKg, evaporatedFraction: evaporatedPct / 100, heatCapacity, ambientC: t0, heaterWatts: powerWatts };
+  const atmosphericEnergy = batchEnergy(selectedSubstance, ATMOSPHERIC_MMHG, energyInput);
+  const vacuumEnergy = batchEnergy(selectedSubstance, vacuumPressure, energyInput);
+  const energyComparison = generateEnergyComparison(atmosphericEnergy, vacuumEnergy, powerWatts, powerCost);
+  const energySaving = 1 - vacuumEnergy.totalKwh / atmosphericEnergy.totalKwh;
+  const pumpSizing = sizeVacuumPump(systemVolume, vacuumPressure, pumpDownMinutes, leakRate);
 
-  // -- Power State --
-  const [powerWatts, setPowerWatts] = useState(2000);
-  const [powerCost, setPowerCost] = useState(0.15);
-  const powerData = useMemo(() => generatePowerData(powerWatts, powerCost), [powerWatts, powerCost]);
+  // -- Condenser State (vapor load from the boiler energy balance) --
+  const [coolantInlet, setCoolantInlet] = useState(15);
+  const [coolantFlow, setCoolantFlow] = useState(2);
+  const [condenserGeometry, setCondenserGeometry] = useState<CondenserGeometry>('coil');
+  const [condenserArea, setCondenserArea] = useState(0.1);
+  const [coilLength, setCoilLength] = useState(3);
+  const [coilDiameter, setCoilDiameter] = useState(10);
+  const [uValue, setUValue] = useState(500);
+  const [vaporPassage, setVaporPassage] = useState(25);
+  const condenserSpec = useMemo(() => ({
+    vaporLoadWatts: powerWatts * boilerSummary.boilingEfficiency,
+    latentHeat: boilerProps.latentHeat,
+    saturationC: boilerProps.boilingPoint,
+    molarMass: selectedSubstance.molarMass,
+    liquidDensity,
+    coolantInletC: coolantInlet,
+    coolantFlowLpm: coolantFlow,
+    area: condenserGeometry === 'coil' ? coilArea(coilLength, coilDiameter) : condenserArea,
+    uValue,
+    tubeDiameterMm: vaporPassage,
+  }), [powerWatts, boilerSummary, boilerProps, selectedSubstance, liquidDensity, coolantInlet, coolantFlow, condenserGeometry, coilLength, coilDiameter, condenserArea, uValue, vaporPassage]);
+  const condenser = useMemo(() => evaluateCondenser(condenserSpec), [condenserSpec]);
+  const condenserCurve = useMemo(
+    () => generateCondenserCurve(condenserSpec, Math.max(5, Math.ceil(Math.min(condenser.requiredFlowLpm, 50) * 2), coolantFlow * 1.5)),
+    [condenserSpec, condenser.requiredFlowLpm, coolantFlow]
+  );
+
+  // -- Mixture Flash State --
+  const [mixture, setMixture] = useState<MixtureEntry[]>(DEFAULT_MIXTURE);
+  const [flashPressure, setFlashPressure] = useState(760);
+  // Null follows the midpoint of the bubble-dew range
+  const [flashTemp, setFlashTemp] = useState<number | null>(null);
+  const flashFeed = useMemo<MixtureComponent[]>(() => {
+    const library = [...SUBSTANCES, ...customSubstances];
+    return mixture.flatMap(e => {
+      const substance = library.find(s => s.name === e.name);
+      return substance ? [{ substance, z: e.z }] : [];
+    });
+  }, [mixture, customSubstances]);
+  const flashValid = flashFeed.some(c => c.z > 0);
+  const bubblePoint = useMemo(() => flashValid ? bubblePointTemperature(flashFeed, flashPressure) : null, [flashValid, flashFeed, flashPressure]);
+  const dewPoint = useMemo(() => flashValid ? dewPointTemperature(flashFeed, flashPressure) : null, [flashValid, flashFeed, flashPressure]);
+  const flashRange = bubblePoint && dewPoint
+    ? { min: Math.floor(bubblePoint.temperature - 20), max: Math.ceil(dewPoint.temperature + 20) }
+    : { min: 0, max: 200 };
+  const flashT = Math.min(flashRange.max, Math.max(flashRange.min,
+    flashTemp ?? (bubblePoint && dewPoint ? Number(((bubblePoint.temperature + dewPoint.temperature) / 2).toFixed(1)) : 100)));
+  const flashResult = useMemo(() => flashValid ? isothermalFlash(flashFeed, flashT, flashPressure) : null, [flashValid, flashFeed, flashT, flashPressure]);
+  const flashCurve = useMemo(() => flashValid ? generateFlashCurve(flashFeed, flashPressure) : [], [flashValid, flashFeed, flashPressure]);
+  const flashExtrapolated = flashValid ? outOfRangeComponents(flashFeed, flashT) : [];
+
+  // -- VLE State (shared with McCabe-Thiele and Batch when they use the VLE curve) --
+  const [vleSpec, setVleSpec] = useState<VleSpec>(DEFAULT_VLE_SPEC);
+  const [vleView, setVleView] = useState<'txy' | 'xy'>('txy');
+  const [equilibriumSource, setEquilibriumSource] = useState<'alpha' | 'vle'>('alpha');
+  const vleSystem = useMemo(() => buildVleSystem(vleSpec), [vleSpec]);
+  const txyData = useMemo(() => vleSystem ? generateTxyData(vleSystem) : null, [vleSystem]);
+  const xyData = useMemo(() => vleSystem ? generateXyData(vleSystem) : [], [vleSystem]);
+  const useVleCurve = equilibriumSource === 'vle' && vleSystem !== null;
 
   // -- McCabe-Thiele State --
   const [alpha, setAlpha] = useState(2.5);
   const [refluxRatio, setRefluxRatio] = useState(2.0);
   const [distillatePurity, setDistillatePurity] = useState(0.95);
-  const mccabeData = useMemo(() => generateMcCabeThieleData(alpha, refluxRatio, distillatePurity), [alpha, refluxRatio, distillatePurity]);
+  const [feedComposition, setFeedComposition] = useState(0.5);
+  const [feedQuality, setFeedQuality] = useState(1.0);
+  const [bottomsPurity, setBottomsPurity] = useState(0.05);
+  const mccabeData = useMemo(
+    () => generateMcCabeThieleData(useVleCurve ? vleSystem.curve : alpha, refluxRatio, distillatePurity, feedComposition, feedQuality, bottomsPurity),
+    [useVleCurve, vleSystem, alpha, refluxRatio, distillatePurity, feedComposition, feedQuality, bottomsPurity]
+  );
+  const mccabeDesign = useMemo(
+    () => designMcCabeThiele(useVleCurve ? vleSystem.curve : alpha, refluxRatio, distillatePurity, feedComposition, feedQuality, bottomsPurity),
+    [useVleCurve, vleSystem, alpha, refluxRatio, distillatePurity, feedComposition, feedQuality, bottomsPurity]
+  );
 
   // -- Batch State --
   const [batchAlpha, setBatchAlpha] = useState(3.0);
-  const [batchXf, setBatchXf] = useState(0.5);
-  const batchData = useMemo(() => generateRayleighData(batchAlpha, 100, batchXf), [batchAlpha, batchXf]);
+  const [batchSpec, setBatchSpec] = useState<BatchSpec>(DEFAULT_BATCH_SPEC);
+  const [batchCharge, setBatchCharge] = useState(10);
+  const batchResult = useMemo(
+    () => simulateBatchDistillation(useVleCurve ? vleSystem.curve : batchAlpha, batchSpec),
+    [useVleCurve, vleSystem, batchAlpha, batchSpec]
+  );
+  const batchData = useMemo(() => toBatchChartRows(batchResult), [batchResult]);
+  const updateBatch = (patch: Partial<BatchSpec>) => setBatchSpec(prev => ({ ...prev, ...patch }));
+  // Each cut point stays between its neighbours
+  const setCutPoint = (index: number, percent: number) => setBatchSpec(prev => {
+    const cutPoints = [...prev.cutPoints] as BatchSpec['cutPoints'];
+    cutPoints[index] = Math.min(index < 2 ? cutPoints[index + 1] : 1, Math.max(index > 0 ? cutPoints[index - 1] : 0, percent / 100));
+    return { ...prev, cutPoints };
+  });
+
+  // -- Scenarios (named parameter sets per module) --
+  const library = useMemo(() => [...SUBSTANCES, ...customSubstances], [customSubstances]);
+  const currentParams: CalculatorParams = {
+    substance: selectedSubstance.name, pressureTempRange,
+    t0, boilerVolume, liquidDensity, heatCapacity, lossCoefficient, ambientC, powerWatts, powerCost,
+    condInit, condFinal, condRate,
+    vacuumPressure, chargeKg, evaporatedPct, systemVolume, pumpDownMinutes, leakRate,
+    coolantInlet, coolantFlow, condenserGeometry, condenserArea, coilLength, coilDiameter, uValue, vaporPassage,
+    mixture, flashPressure, flashTemp,
+    vleSpec, vleView, equilibriumSource,
+    alpha, refluxRatio, distillatePurity, feedComposition, feedQuality, bottomsPurity,
+    batchAlpha, batchSpec, batchCharge,
+  };
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => loadScenarios(currentParams, still.id));
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showSensitivity, setShowSensitivity] = useState(false);
+  const moduleScenarios = scenarios.filter(s => s.module === module);
+
+  useEffect(() => {
+    saveScenarios(scenarios, still.id);
+  }, [scenarios, still.id]);
+
+  const paramSetters: { [K in keyof CalculatorParams]: (value: CalculatorParams[K]) => void } = {
+    substance: (name) => {
+      const substance = library.find(s => s.name === name);
+      if (substance) setSelectedSubstance(substance);
+    },
+    pressureTempRange: setPressureTempRange,
+    t0: setT0, boilerVolume: setBoilerVolume, liquidDensity: setLiquidDensity, heatCapacity: setHeatCapacity,
+    lossCoefficient: setLossCoefficient, ambientC: setAmbientC, powerWatts: setPowerWatts, powerCost: setPowerCost,
+    condInit: setCondInit, condFinal: setCondFinal, condRate: setCondRate,
+    vacuumPressure: setVacuumPressure, chargeKg: setChargeKg, evaporatedPct: setEvaporatedPct,
+    systemVolume: setSystemVolume, pumpDownMinutes: setPumpDownMinutes, leakRate: setLeakRate,
+    coolantInlet: setCoolantInlet, coolantFlow: setCoolantFlow, condenserGeometry: setCondenserGeometry, condenserArea: setCondenserArea,
+    coilLength: setCoilLength, coilDiameter: setCoilDiameter, uValue: setUValue, vaporPassage: setVaporPassage,
+    mixture: setMixture, flashPressure: setFlashPressure, flashTemp: setFlashTemp,
+    vleSpec: setVleSpec, vleView: setVleView, equilibriumSource: setEquilibriumSource,
+    alpha: setAlpha, refluxRatio: setRefluxRatio, distillatePurity: setDistillatePurity,
+    feedComposition: setFeedComposition, feedQuality: setFeedQuality, bottomsPurity: setBottomsPurity,
+    batchAlpha: setBatchAlpha, batchSpec: setBatchSpec, batchCharge: setBatchCharge,
+  };
+  const applyParams = (params: Partial<CalculatorParams>) => {
+    (Object.keys(params) as Array<keyof CalculatorParams>).forEach(<K extends keyof CalculatorParams>(key: K) => {
+      paramSetters[key](params[key] as CalculatorParams[K]);
+    });
+  };
+
+  // A shared link (#scenario=…) is saved, opened on its module and cleared from the address bar
+  useEffect(() => {
+    const shared = readSharedScenario(window.location.hash, currentParams);
+    if (!shared) return;
+    setScenarios(prev => mergeScenarios(prev, [shared]));
+    setModule(shared.module);
+    applyParams(shared.params);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  const saveScenario = (name: string) => setScenarios(prev => [
+    ...prev,
+    { id: crypto.randomUUID(), name, module, createdAt: Date.now(), params: pickParams(module, currentParams) },
+  ]);
+  const deleteScenario = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
+    setCompareIds(prev => prev.filter(c => c !== id));
+  };
+  const toggleCompare = (id: string) => setCompareIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+
+  // Scenario parameters are laid over the current ones, so unsaved modules keep their live values
+  const comparedScenarios = moduleScenarios.filter(s => compareIds.includes(s.id));
+  const comparison = comparedScenarios.length === 0 ? null : [
+    { id: 'current', name: 'Current', evaluation: evaluateScenario(module, currentParams, library) },
+    ...comparedScenarios.map(s => ({ id: s.id, name: s.name, evaluation: evaluateScenario(module, { ...currentParams, ...s.params }, library) })),
+  ];
+  const formatMetric = (metric: ScenarioMetric, value: number) => {
+    if (!Number.isFinite(value)) return '—';
+    if (metric.quantity) return fmt(metric.quantity, value, metric.digits);
+    return `${value.toFixed(metric.digits ?? 2)}${metric.unit ? ` ${metric.unit}` : ''}`;
+  };
+  const formatMetricDelta = (metric: ScenarioMetric, diff: number) => {
+    if (!Number.isFinite(diff) || Math.abs(diff) < 1e-9) return '';
+    const shown = metric.quantity ? toDisplayDelta(metric.quantity, diff, units) : diff;
+    return `${shown > 0 ? '+' : '−'}${Math.abs(shown).toFixed(metric.digits ?? (metric.quantity ? 1 : 2))}`;
+  };
+
+  // -- Display Series (chart and CSV rows in the preferred units) --
+  const displayBoilerData = useMemo(() => convertRows(boilerData, CHART_QUANTITIES, units), [boilerData, units]);
+  const displayAntoineData = useMemo(() => convertRows(antoineData, CHART_QUANTITIES, units), [antoineData, units]);
+  const displayBoilingCurve = useMemo(() => convertRows(boilingCurve, CHART_QUANTITIES, units), [boilingCurve, units]);
+  const displayCondenserCurve = useMemo(() => convertRows(condenserCurve, CHART_QUANTITIES, units), [condenserCurve, units]);
+  const displayFlashCurve = useMemo(() => convertRows(flashCurve, CHART_QUANTITIES, units), [flashCurve, units]);
+  const displayTxyData = useMemo(
+    () => txyData && { bubble: convertRows(txyData.bubble, CHART_QUANTITIES, units), dew: convertRows(txyData.dew, CHART_QUANTITIES, units) },
+    [txyData, units]
+  );
+
+  // -- Measured vs Model Overlay --
+  // Run logs are converted to canonical units from their column unit, then shown like the model
+  const seriesQuantity = activeLog?.mapping ? CHART_QUANTITIES[activeLog.mapping.seriesKey] : undefined;
+  const overlay = useMemo(() => {
+    if (!activeLog?.mapping || measured.length === 0) return null;
+    const model = module === 'conductivity' ? condData : displayBoilerData;
+    const shown = seriesQuantity ? measured.map(p => ({ ...p, y: toDisplay(seriesQuantity, p.y, units) })) : measured;
+    return overlayMeasured(model, shown, activeLog.mapping.seriesKey);
+  }, [activeLog, measured, module, condData, displayBoilerData, seriesQuantity, units]);
+  const residualData = useMemo(() => overlay ? overlay.data.filter(r => r.residual !== undefined) : [], [overlay]);
+  // Secondary series (total volume, cost) live on the right-hand axis
+  const measuredAxis = activeLog?.mapping && ['totalVolume', 'cost'].includes(activeLog.mapping.seriesKey) ? 'right' : 'left';
+  const xAxisType = overlay ? 'number' : 'category';
+
+  // -- Parameter Fitting --
+  const fitValues: FitValues = { ...boilerSpec, condInit, condFinal, condRate };
+  const applyFit = (values: FitValues) => {
+    const setters: Record<string, (v: number) => void> = {
+      initialC: setT0, lossCoefficient: setLossCoefficient,
+      condInit: setCondInit, condFinal: setCondFinal, condRate: setCondRate,
+    };
+    Object.entries(values).forEach(([key, value]) => setters[key]?.(value));
+  };
 
 
   // Helper Functions
+  const chartRows = (): object[] => {
+    if (module === 'heating' || module === 'flow' || module === 'power') return overlay?.data ?? displayBoilerData;
+    if (module === 'conductivity') return overlay?.data ?? condData;
+    if (module === 'antoine') return displayAntoineData;
+    if (module === 'flash') return displayFlashCurve;
+    if (module === 'condenser') return displayCondenserCurve;
+    if (module === 'vacuum') return displayBoilingCurve;
+    if (module === 'mccabe') return mccabeData;
+    if (module === 'batch') return batchData;
+    return vleView === 'txy' && vleSystem
+      ? convertRows(vleSystem.points.map(p => ({ x: p.x, y: p.y, temperature: p.temperature })), CHART_QUANTITIES, units)
+      : xyData;
+  };
+
+  const handleExportCsv = () => {
+    const columns = { ...CHART_QUANTITIES, ...(seriesQuantity ? { measured: seriesQuantity } : {}) };
+    const blob = new Blob([rowsToCsv(chartRows(), columns, units)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `distillai-${module}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The energy balance behind Temperature, Flow, Power and the condenser's vapor load
+  const resetBoiler = () => { setT0(20); setBoilerVolume(still.boilerVolumeL); setLiquidDensity(1.0); setHeatCapacity(4.18); setLossCoefficient(3); setAmbientC(20); setPowerWatts(still.heaterPowerW); };
+
   const handleReset = () => {
-    if (module === 'heating') { setT0(20); setTMax(100); setK(0.10); }
+    if (module === 'heating') resetBoiler();
     if (module === 'antoine') { setSelectedSubstance(SUBSTANCES[0]); setPressureTempRange(120); }
     if (module === 'conductivity') { setCondInit(150); setCondFinal(2); setCondRate(0.15); }
-    if (module === 'flow') { setFlowPower(2000); setFlowEff(0.85); }
-    if (module === 'power') { setPowerWatts(2000); setPowerCost(0.15); }
-    if (module === 'mccabe') { setAlpha(2.5); setRefluxRatio(2.0); setDistillatePurity(0.95); }
-    if (module === 'batch') { setBatchAlpha(3.0); setBatchXf(0.5); }
+    if (module === 'flow') { setPowerWatts(still.heaterPowerW); setLossCoefficient(3); }
+    if (module === 'power') { setPowerWatts(still.heaterPowerW); setPowerCost(0.15); }
+    if (module === 'mccabe') { setAlpha(2.5); setRefluxRatio(2.0); setDistillatePurity(0.95); setFeedComposition(0.5); setFeedQuality(1.0); setBottomsPurity(0.05); }
+    if (module === 'batch') { setBatchAlpha(3.0); setBatchSpec(DEFAULT_BATCH_SPEC); setBatchCharge(10); }
+    if (module === 'vle') { setVleSpec(DEFAULT_VLE_SPEC); setVleView('txy'); }
+    if (module === 'vacuum') { setVacuumPressure(100); setChargeKg(10); setEvaporatedPct(80); setHeatCapacity(4.18); setSystemVolume(20); setPumpDownMinutes(10); setLeakRate(0.1); }
+    if (module === 'condenser') { resetBoiler(); setCoolantInlet(15); setCoolantFlow(2); setCondenserGeometry('coil'); setCondenserArea(0.1); setCoilLength(3); setCoilDiameter(10); setUValue(500); setVaporPassage(25); }
+    if (module === 'flash') { setMixture(DEFAULT_MIXTURE); setFlashPressure(760); setFlashTemp(null); }
   };
 
   const MetricItem = ({ label, value, color }: { label: string, value: string, color: string }) => (
@@ -165,11 +554,34 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
                Distillation Formulas
             </h1>
             <p className="text-slate-500 dark:text-slate-400 text-sm">
-              Interactive parameter modeling and visualization
+              Interactive parameter modeling and visualization · {still.name}
             </p>
           </div>
           
           <div className="flex gap-2">
+            <div className="flex p-1 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700">
+              {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => (
+                <button
+                  key={system}
+                  onClick={() => onUnitsChange({ ...units, system })}
+                  className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${
+                    units.system === system
+                    ? 'bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-400'
+                    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                  }`}
+                >
+                  {UNIT_SYSTEM_LABELS[system]}
+                </button>
+              ))}
+            </div>
+            <select
+              value={units.pressure}
+              onChange={(e) => onUnitsChange({ ...units, pressure: e.target.value as PressureUnit })}
+              title="Pressure unit"
+              className="px-2 py-2 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg"
+            >
+              {PRESSURE_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
             <button 
               onClick={handleReset}
               className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
@@ -236,6 +648,46 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
            >
              Batch Distillation
            </button>
+           <button 
+             onClick={() => setModule('vle')} 
+             className={`px-4 py-2 rounded-full text-xs font-semibold whitespace-nowrap transition-colors border ${
+               module === 'vle' 
+               ? 'bg-cyan-100 dark:bg-cyan-900/30 text-cyan-700 dark:text-cyan-300 border-cyan-200 dark:border-cyan-800' 
+               : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+             }`}
+           >
+             Phase Equilibrium
+           </button>
+           <button 
+             onClick={() => setModule('flash')} 
+             className={`px-4 py-2 rounded-full text-xs font-semibold whitespace-nowrap transition-colors border ${
+               module === 'flash' 
+               ? 'bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 border-teal-200 dark:border-teal-800' 
+               : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+             }`}
+           >
+             Mixture Flash
+           </button>
+           <button 
+             onClick={() => setModule('vacuum')} 
+             className={`px-4 py-2 rounded-full text-xs font-semibold whitespace-nowrap transition-colors border ${
+               module === 'vacuum' 
+               ? 'bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300 border-sky-200 dark:border-sky-800' 
+               : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+             }`}
+           >
+             Vacuum Distillation
+           </button>
+           <button 
+             onClick={() => setModule('condenser')} 
+             className={`px-4 py-2 rounded-full text-xs font-semibold whitespace-nowrap transition-colors border ${
+               module === 'condenser' 
+               ? 'bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300 border-violet-200 dark:border-violet-800' 
+               : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+             }`}
+           >
+             Condenser
+           </button>
         </div>
 
         {/* Main Workspace */}
@@ -252,6 +704,10 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
                 {module === 'power' && <><Zap className="text-yellow-500" size={20}/> Power Consumption</>}
                 {module === 'mccabe' && <><FlaskConical className="text-indigo-500" size={20}/> Column Design</>}
                 {module === 'batch' && <><TrendingUp className="text-pink-500" size={20}/> Batch Process</>}
+                {module === 'vle' && <><Waves className="text-cyan-500" size={20}/> Vapor-Liquid Equilibrium</>}
+                {module === 'flash' && <><Blend className="text-teal-500" size={20}/> Bubble, Dew &amp; Flash</>}
+                {module === 'vacuum' && <><Wind className="text-sky-500" size={20}/> Vacuum Operation</>}
+                {module === 'condenser' && <><Snowflake className="text-violet-500" size={20}/> Condenser Sizing</>}
               </h2>
             </div>
 
@@ -260,35 +716,30 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
               
               {module === 'heating' && (
                 <>
-                  <FormulaBox title="Heating Law" formula="T(t) = T₀ + (Tₘₐₓ - T₀) × (1 - e⁻ᵏᵗ)" />
-                  <SliderControl label="Initial Temp (T₀)" value={t0} min={0} max={100} unit="°C" onChange={setT0} />
-                  <SliderControl label="Max Temp (Tₘₐₓ)" value={tMax} min={50} max={150} unit="°C" onChange={setTMax} />
-                  <SliderControl label="Rate Constant (k)" value={k} min={0.01} max={0.3} step={0.01} onChange={setK} />
+                  <FormulaBox title="Energy Balance" formula="m·cₚ·dT/dt = P − UA·(T − Tₐ)" />
+                  <SliderControl label="Initial Temp (T₀)" value={t0} min={0} max={100} quantity="temperature" units={units} onChange={setT0} />
+                  <SliderControl label="Boiler Volume" value={boilerVolume} min={0.5} max={50} step={0.5} quantity="volume" units={units} onChange={setBoilerVolume} />
+                  <SliderControl label="Heater Power" value={powerWatts} min={500} max={5000} step={100} unit="W" onChange={setPowerWatts} />
+                  <SliderControl label="Heat Loss (UA)" value={lossCoefficient} min={0} max={20} step={0.5} quantity="lossCoefficient" units={units} onChange={setLossCoefficient} />
+                  <SliderControl label="Ambient Temp (Tₐ)" value={ambientC} min={-10} max={40} quantity="temperature" units={units} onChange={setAmbientC} />
+                  <SliderControl label="Liquid cp" value={heatCapacity} min={1.5} max={4.2} step={0.01} quantity="specificHeat" units={units} onChange={setHeatCapacity} />
+                  <SliderControl label="Liquid Density" value={liquidDensity} min={0.6} max={1.6} step={0.01} quantity="density" units={units} onChange={setLiquidDensity} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    {selectedSubstance.name} (set in Pressure): boils at {fmt('temperature', boilerProps.boilingPoint)}, h_vap {fmt('latentHeat', boilerProps.latentHeat)}.
+                  </p>
                 </>
               )}
 
               {module === 'antoine' && (
                 <>
                   <FormulaBox title="Antoine Equation" formula="log₁₀(P) = A - (B / (T + C))" />
-                   <div className="mb-6">
-                    <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-2">Select Substance</label>
-                    <div className="grid grid-cols-2 gap-2">
-                      {SUBSTANCES.map(s => (
-                        <button
-                          key={s.name}
-                          onClick={() => setSelectedSubstance(s)}
-                          className={`px-3 py-2 text-xs font-semibold rounded-lg transition-colors text-left ${
-                            selectedSubstance.name === s.name 
-                            ? 'bg-purple-600 text-white shadow-md' 
-                            : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
-                          }`}
-                        >
-                          {s.name}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                  <SliderControl label="Max Temp (°C)" value={pressureTempRange} min={50} max={250} step={10} onChange={setPressureTempRange} />
+                  <SubstanceLibrary
+                    selected={selectedSubstance}
+                    onSelect={setSelectedSubstance}
+                    customSubstances={customSubstances}
+                    onCustomChange={setCustomSubstances}
+                  />
+                  <SliderControl label="Max Temp" value={pressureTempRange} min={50} max={250} step={10} quantity="temperature" units={units} onChange={setPressureTempRange} />
                 </>
               )}
 
@@ -303,9 +754,12 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
 
               {module === 'flow' && (
                 <>
-                  <FormulaBox title="Production Rate" formula="Flow ∝ (Power × Efficiency) / Hᵥₐₚ" />
-                  <SliderControl label="Heater Power" value={flowPower} min={500} max={5000} step={100} unit="W" onChange={setFlowPower} />
-                  <SliderControl label="System Efficiency" value={flowEff} min={0.5} max={0.99} step={0.01} unit="" onChange={setFlowEff} />
+                  <FormulaBox title="Boil-off Rate" formula="ṁ = (P − UA·(T_b − Tₐ)) / h_vap" />
+                  <SliderControl label="Heater Power" value={powerWatts} min={500} max={5000} step={100} unit="W" onChange={setPowerWatts} />
+                  <SliderControl label="Heat Loss (UA)" value={lossCoefficient} min={0} max={20} step={0.5} quantity="lossCoefficient" units={units} onChange={setLossCoefficient} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    Output starts after {Number.isFinite(boilerSummary.timeToBoil) ? `${boilerSummary.timeToBoil.toFixed(1)} min` : 'never'} of heat-up; boiler volume and properties are set in Temperature.
+                  </p>
                 </>
               )}
 
@@ -314,26 +768,183 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
                   <FormulaBox title="Cost Accumulation" formula="Cost = ∫(P × Price) dt" />
                   <SliderControl label="Power Usage" value={powerWatts} min={500} max={5000} step={100} unit="W" onChange={setPowerWatts} />
                   <SliderControl label="Elec. Cost ($/kWh)" value={powerCost} min={0.05} max={0.50} step={0.01} unit="$" onChange={setPowerCost} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    {boilerSummary.lossWatts.toFixed(0)} W of shell losses while boiling; the heater cuts out when the boiler runs dry.
+                  </p>
                 </>
               )}
 
               {module === 'mccabe' && (
                 <>
                   <FormulaBox title="Operating Line" formula="y = (R/(R+1))x + (x_d/(R+1))" />
-                  <SliderControl label="Relative Volatility (α)" value={alpha} min={1.1} max={5.0} step={0.1} onChange={setAlpha} />
+                  <SegmentedControl label="Equilibrium" options={EQUILIBRIUM_OPTIONS} value={equilibriumSource} onChange={setEquilibriumSource} />
+                  {equilibriumSource === 'vle'
+                    ? <VleSelector spec={vleSpec} onChange={setVleSpec} />
+                    : <SliderControl label="Relative Volatility (α)" value={alpha} min={1.1} max={5.0} step={0.1} onChange={setAlpha} />}
                   <SliderControl label="Reflux Ratio (R)" value={refluxRatio} min={0.5} max={10.0} step={0.1} onChange={setRefluxRatio} />
                   <SliderControl label="Distillate Purity (x_D)" value={distillatePurity} min={0.5} max={0.99} step={0.01} onChange={setDistillatePurity} />
+                  <SliderControl label="Feed Composition (x_F)" value={feedComposition} min={0.1} max={0.9} step={0.01} onChange={setFeedComposition} />
+                  <SliderControl label="Feed Condition (q)" value={feedQuality} min={-0.5} max={1.5} step={0.05} onChange={setFeedQuality} />
+                  <SliderControl label="Bottoms Purity (x_B)" value={bottomsPurity} min={0.01} max={0.3} step={0.01} onChange={setBottomsPurity} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">q = 1 saturated liquid, q = 0 saturated vapor, q &gt; 1 subcooled, q &lt; 0 superheated.</p>
                 </>
               )}
 
               {module === 'batch' && (
                 <>
                    <FormulaBox title="Rayleigh Equation" formula="ln(F/W) = ∫(dx / (y - x))" />
-                  <SliderControl label="Relative Volatility (α)" value={batchAlpha} min={1.5} max={8.0} step={0.1} onChange={setBatchAlpha} />
-                  <SliderControl label="Initial Feed (x_F)" value={batchXf} min={0.1} max={0.9} step={0.05} onChange={setBatchXf} />
+                  <SegmentedControl label="Equilibrium" options={EQUILIBRIUM_OPTIONS} value={equilibriumSource} onChange={setEquilibriumSource} />
+                  {equilibriumSource === 'vle'
+                    ? <VleSelector spec={vleSpec} onChange={setVleSpec} />
+                    : <SliderControl label="Relative Volatility (α)" value={batchAlpha} min={1.5} max={8.0} step={0.1} onChange={setBatchAlpha} />}
+                  <SliderControl label="Initial Feed (x_F)" value={batchSpec.feedComposition} min={0.1} max={0.9} step={0.05} onChange={(v) => updateBatch({ feedComposition: v })} />
+                  <SliderControl label="Charge" value={batchCharge} min={1} max={100} quantity="volume" units={units} onChange={setBatchCharge} />
+                  <SegmentedControl label="Operation" options={BATCH_OPERATION_OPTIONS} value={batchSpec.operation} onChange={(operation) => updateBatch({ operation })} />
+                  {batchSpec.operation !== 'simple' && (
+                    <SliderControl label="Stages Above Still" value={batchSpec.stages} min={1} max={15} onChange={(v) => updateBatch({ stages: v })} />
+                  )}
+                  {batchSpec.operation === 'constantReflux' && (
+                    <SliderControl label="Reflux Ratio (R)" value={batchSpec.refluxRatio} min={0.5} max={15} step={0.1} onChange={(v) => updateBatch({ refluxRatio: v })} />
+                  )}
+                  {batchSpec.operation === 'constantComposition' && (
+                    <>
+                      <SliderControl label="Distillate Purity (x_D)" value={batchSpec.distillateComposition} min={0.5} max={0.99} step={0.01} onChange={(v) => updateBatch({ distillateComposition: v })} />
+                      <SliderControl label="Max Reflux Ratio" value={batchSpec.maxReflux} min={2} max={50} onChange={(v) => updateBatch({ maxReflux: v })} />
+                    </>
+                  )}
+                  <SegmentedControl
+                    label="Stop At"
+                    options={BATCH_STOP_OPTIONS}
+                    value={batchSpec.stop.criterion}
+                    onChange={(criterion) => updateBatch({ stop: { criterion, value: BATCH_STOP_DEFAULTS[criterion] } })}
+                  />
+                  {batchSpec.stop.criterion === 'distilledFraction' ? (
+                    <SliderControl label="Distilled" value={batchSpec.stop.value * 100} min={5} max={99} unit="%" onChange={(v) => updateBatch({ stop: { ...batchSpec.stop, value: v / 100 } })} />
+                  ) : (
+                    <SliderControl
+                      label={batchSpec.stop.criterion === 'stillComposition' ? 'Still Composition (x_W)' : 'Average Distillate (x_D)'}
+                      value={batchSpec.stop.value}
+                      min={0.01}
+                      max={0.99}
+                      step={0.01}
+                      onChange={(v) => updateBatch({ stop: { ...batchSpec.stop, value: v } })}
+                    />
+                  )}
+                  <SliderControl label="Foreshots End" value={batchSpec.cutPoints[0] * 100} min={0} max={100} unit="%" onChange={(v) => setCutPoint(0, v)} />
+                  <SliderControl label="Heads End" value={batchSpec.cutPoints[1] * 100} min={0} max={100} unit="%" onChange={(v) => setCutPoint(1, v)} />
+                  <SliderControl label="Hearts End" value={batchSpec.cutPoints[2] * 100} min={0} max={100} unit="%" onChange={(v) => setCutPoint(2, v)} />
+                </>
+              )}
+
+              {module === 'flash' && (
+                <>
+                  <FormulaBox title="Rachford-Rice" formula="Σ zᵢ(Kᵢ - 1) / (1 + V(Kᵢ - 1)) = 0" />
+                  <MixtureEditor substances={[...SUBSTANCES, ...customSubstances]} mixture={mixture} onChange={setMixture} />
+                  <SliderControl label="System Pressure" value={flashPressure} min={50} max={1520} step={10} quantity="pressure" units={units} onChange={setFlashPressure} />
+                  <SliderControl label="Flash Temperature" value={flashT} min={flashRange.min} max={flashRange.max} step={0.5} quantity="temperature" units={units} onChange={setFlashTemp} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">Ideal K-values (Raoult's law). Use Phase Equilibrium for non-ideal binaries.</p>
                 </>
               )}
 
+              {module === 'vacuum' && (
+                <>
+                  <FormulaBox title="Inverse Antoine" formula="T_b = B / (A - log₁₀(P)) - C" />
+                  <SubstanceLibrary
+                    selected={selectedSubstance}
+                    onSelect={setSelectedSubstance}
+                    customSubstances={customSubstances}
+                    onCustomChange={setCustomSubstances}
+                  />
+                  <SliderControl label="Operating Pressure" value={vacuumPressure} min={5} max={760} step={5} quantity="pressure" units={units} onChange={setVacuumPressure} />
+                  <SliderControl label="Charge" value={chargeKg} min={1} max={50} quantity="mass" units={units} onChange={setChargeKg} />
+                  <SliderControl label="Boiled Off" value={evaporatedPct} min={10} max={100} step={5} unit="%" onChange={setEvaporatedPct} />
+                  <SliderControl label="Liquid cp" value={heatCapacity} min={1.5} max={4.2} step={0.01} quantity="specificHeat" units={units} onChange={setHeatCapacity} />
+                  <SliderControl label="Heater Power" value={powerWatts} min={500} max={5000} step={100} unit="W" onChange={setPowerWatts} />
+                  <SliderControl label="Elec. Cost ($/kWh)" value={powerCost} min={0.05} max={0.50} step={0.01} unit="$" onChange={setPowerCost} />
+                  <SliderControl label="System Volume" value={systemVolume} min={1} max={200} quantity="volume" units={units} onChange={setSystemVolume} />
+                  <SliderControl label="Pump-Down Time" value={pumpDownMinutes} min={1} max={60} unit="min" onChange={setPumpDownMinutes} />
+                  <SliderControl label="Leak Rate (mbar·L/s)" value={leakRate} min={0.01} max={2} step={0.01} onChange={setLeakRate} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">Pump-down {fmt('pumpSpeed', pumpSizing.pumpDownSpeed)} + leak load {fmt('pumpSpeed', pumpSizing.leakSpeed)}.</p>
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">Heat of vaporization from the Antoine slope (Clausius-Clapeyron); charge starts at the Temperature module's T₀ ({fmt('temperature', t0, 0)}).</p>
+                </>
+              )}
+
+              {module === 'condenser' && (
+                <>
+                  <FormulaBox title="Condensing Duty" formula="Q = U·A·LMTD = ṁ_w·cₚ·(T_out − T_in)" />
+                  <SliderControl label="Heater Power" value={powerWatts} min={500} max={5000} step={100} unit="W" onChange={setPowerWatts} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    Vapor load {condenserSpec.vaporLoadWatts.toFixed(0)} W of {selectedSubstance.name} at {fmt('temperature', boilerProps.boilingPoint)}, after {boilerSummary.lossWatts.toFixed(0)} W shell losses.
+                  </p>
+                  <SliderControl label="Cooling Water Inlet" value={coolantInlet} min={2} max={35} quantity="temperature" units={units} onChange={setCoolantInlet} />
+                  <SliderControl label="Cooling Water Flow" value={coolantFlow} min={0.1} max={20} step={0.1} quantity="coolantFlow" units={units} onChange={setCoolantFlow} />
+                  <SegmentedControl
+                    label="Geometry"
+                    options={[{ value: 'coil', label: 'Coil' }, { value: 'area', label: 'Area' }]}
+                    value={condenserGeometry}
+                    onChange={setCondenserGeometry}
+                  />
+                  {condenserGeometry === 'coil' ? (
+                    <>
+                      <SliderControl label="Coil Length" value={coilLength} min={0.5} max={20} step={0.5} quantity="length" units={units} onChange={setCoilLength} />
+                      <SliderControl label="Coil Tube OD" value={coilDiameter} min={4} max={25} quantity="diameter" units={units} onChange={setCoilDiameter} />
+                    </>
+                  ) : (
+                    <SliderControl label="Transfer Area" value={condenserArea} min={0.01} max={2} step={0.01} quantity="area" units={units} onChange={setCondenserArea} />
+                  )}
+                  <SliderControl label="U Value" value={uValue} min={100} max={2000} step={50} quantity="heatTransfer" units={units} onChange={setUValue} />
+                  <SliderControl label="Vapor Inlet Bore" value={vaporPassage} min={6} max={80} quantity="diameter" units={units} onChange={setVaporPassage} />
+                  <p className="-mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    Area {fmt('area', condenserSpec.area)}; the flooding check treats the vapor inlet as a vertical tube with condensate draining back.
+                  </p>
+                </>
+              )}
+
+              {module === 'vle' && (
+                <>
+                  <FormulaBox title="Modified Raoult's Law" formula="y·P = x·γ(x, T)·Pˢᵃᵗ(T)" />
+                  <VleSelector spec={vleSpec} onChange={setVleSpec} />
+                  <SliderControl label="Pressure" value={vleSpec.pressureMmHg} min={100} max={1520} step={10} quantity="pressure" units={units} onChange={(v) => setVleSpec(prev => ({ ...prev, pressureMmHg: v }))} />
+                  <SegmentedControl
+                    label="Diagram"
+                    options={[{ value: 'txy', label: 'T-x-y' }, { value: 'xy', label: 'x-y' }]}
+                    value={vleView}
+                    onChange={setVleView}
+                  />
+                </>
+              )}
+
+              {isLogModule(module) && (
+                <RunLogPanel
+                  key={module}
+                  module={module}
+                  runLog={runLogs[module] || null}
+                  onChange={(log) => setRunLogs(prev => ({ ...prev, [module]: log || undefined }))}
+                />
+              )}
+
+              {isLogModule(module) && activeLog?.mapping && (
+                <FitPanel
+                  module={module}
+                  seriesKey={activeLog.mapping.seriesKey}
+                  measured={measured}
+                  values={fitValues}
+                  onApply={applyFit}
+                />
+              )}
+
+              <ScenarioPanel
+                module={module}
+                scenarios={moduleScenarios}
+                compareIds={compareIds}
+                reference={currentParams}
+                onSave={saveScenario}
+                onLoad={(scenario) => applyParams(scenario.params)}
+                onDelete={deleteScenario}
+                onToggleCompare={toggleCompare}
+                onImport={(imported) => setScenarios(prev => mergeScenarios(prev, imported))}
+              />
+
             </div>
           </Card>
 
@@ -346,21 +957,86 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
                  <div>
                     <h3 className="text-lg font-bold text-slate-800 dark:text-white">Real-Time Visualization</h3>
                     <p className="text-sm text-slate-500 dark:text-slate-400">
-                      {module === 'heating' && "Time vs Temperature (°C)"}
+                      {module === 'heating' && `Time vs Temperature (${unitOf('temperature')})`}
                       {module === 'antoine' && `Temperature vs Vapor Pressure (${selectedSubstance.name})`}
                       {module === 'conductivity' && "Time vs Distillate Conductivity (µS/cm)"}
                       {module === 'flow' && "Time vs Flow Rate & Total Volume"}
-                      {module === 'power' && "Time vs Cost & Energy"}
+                      {module === 'power' && "Time vs Cost, Energy & Heat Losses"}
                       {module === 'mccabe' && "McCabe-Thiele Diagram"}
-                      {module === 'batch' && "Residue Composition vs % Distilled"}
+                      {module === 'batch' && `Still and Distillate Composition vs % Distilled (${BATCH_OPERATION_LABELS[batchSpec.operation]})`}
+                      {module === 'flash' && `Vapor Fraction vs Temperature at ${fmt('pressure', flashPressure)}`}
+                      {module === 'condenser' && `Condensing Capacity vs Cooling Water Flow (${condenserSpec.vaporLoadWatts.toFixed(0)} W vapor load)`}
+                      {module === 'vacuum' && `Boiling Point vs Pressure (${selectedSubstance.name}), operating at ${fmt('pressure', vacuumPressure)}`}
+                      {module === 'vle' && vleSystem && `${vleView === 'txy' ? 'T-x-y' : 'x-y'} Diagram (${vleSystem.light.name} / ${vleSystem.heavy.name}, ${ACTIVITY_MODEL_LABELS[vleSystem.model]}, ${fmt('pressure', vleSpec.pressureMmHg)})`}
                     </p>
+                    {(module === 'mccabe' || module === 'batch' || module === 'vle') && vleSystem?.azeotrope && (module === 'vle' || useVleCurve) && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs font-medium text-cyan-700 dark:text-cyan-400">
+                        <Waves size={12} /> {vleSystem.azeotrope.kind === 'minimum-boiling' ? 'Minimum' : 'Maximum'}-boiling azeotrope at x = {vleSystem.azeotrope.x.toFixed(3)}, {fmt('temperature', vleSystem.azeotrope.temperature)}
+                      </p>
+                    )}
+                    {module === 'flash' && flashExtrapolated.length > 0 && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={12} /> Antoine constants extrapolated at {fmt('temperature', flashT)} for {flashExtrapolated.join(', ')}.
+                      </p>
+                    )}
+                    {module === 'vacuum' && !isInAntoineRange(vacuumEnergy.boilingPoint, selectedSubstance) && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={12} /> {fmt('temperature', vacuumEnergy.boilingPoint)} is outside the {fmt('temperature', selectedSubstance.tMin, 0)} to {fmt('temperature', selectedSubstance.tMax, 0)} range the Antoine constants were fitted over.
+                      </p>
+                    )}
+                    {module === 'batch' && batchResult.stopReason !== 'target reached' && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={12} /> {batchResult.stopReason === 'reflux limit'
+                          ? `x_D = ${batchSpec.distillateComposition} can no longer be held at R ≤ ${batchSpec.maxReflux}; the run ends at ${(batchResult.final.distilled * 100).toFixed(1)}% distilled.`
+                          : batchResult.stopReason === 'target unreachable'
+                          ? `The first distillate is only x_D = ${batchResult.points[0].averageDistillate.toFixed(3)}, so an average of ${batchSpec.stop.value} is never reached; the run continues until the still is dry.`
+                          : 'The stop target was not reached before the still ran dry.'}
+                      </p>
+                    )}
+                    {module === 'condenser' && condenser.status !== 'ok' && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={12} /> {condenser.status === 'flooding'
+                          ? `Vapor velocity is ${(condenser.floodingRatio * 100).toFixed(0)}% of the flooding limit: condensate will be held up in the inlet. Use a wider bore or less heater power.`
+                          : `${((1 - condenser.condensedFraction) * 100).toFixed(0)}% of the vapor leaves uncondensed. ${Number.isFinite(condenser.requiredFlowLpm) ? `Raise the water flow to at least ${fmt('coolantFlow', condenser.requiredFlowLpm)}.` : 'The condenser area is too small at any water flow.'}`}
+                      </p>
+                    )}
+                    {module === 'mccabe' && !mccabeDesign.feasible && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={12} /> {mccabeDesign.reason}
+                      </p>
+                    )}
+                    {module === 'antoine' && extrapolation && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={12} /> Extrapolating {extrapolation}: the Antoine constants are only valid from {fmt('temperature', selectedSubstance.tMin, 0)} to {fmt('temperature', selectedSubstance.tMax, 0)}.
+                      </p>
+                    )}
+                 </div>
+                 <div className="flex gap-2 self-start shrink-0">
+                 <button
+                   onClick={() => setShowSensitivity(v => !v)}
+                   title="Sweep inputs across their range and rank their effect on an output"
+                   className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border rounded-lg transition-colors ${
+                     showSensitivity
+                     ? 'bg-brand-50 dark:bg-brand-900/20 border-brand-200 dark:border-brand-700 text-brand-600 dark:text-brand-400'
+                     : 'text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700'
+                   }`}
+                 >
+                   <SlidersHorizontal size={14} /> Sweep
+                 </button>
+                 <button
+                   onClick={handleExportCsv}
+                   title={`Download the plotted data (${UNIT_SYSTEM_LABELS[units.system]}, ${units.pressure})`}
+                   className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                 >
+                   <Download size={14} /> CSV
+                 </button>
                  </div>
                </div>
 
                <div className="flex-1 w-full min-h-0">
                  <ResponsiveContainer width="100%" height="100%">
                    {module === 'heating' ? (
-                     <AreaChart data={heatingData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                     <ComposedChart data={overlay?.data ?? displayBoilerData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <defs>
                           <linearGradient id="colorTemp" x1="0" y1="0" x2="0" y2="1">
                             <stop offset="5%" stopColor="#f97316" stopOpacity={0.3}/>
@@ -368,13 +1044,15 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
                           </linearGradient>
                         </defs>
                         <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
-                        <XAxis dataKey="time" label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
-                        <YAxis label={{ value: 'Temperature (°C)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <XAxis dataKey="time" type={xAxisType} domain={['dataMin', 'dataMax']} label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <YAxis label={{ value: `Temperature (${unitOf('temperature')})`, angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
-                        <Area type="monotone" dataKey="temperature" stroke="#f97316" strokeWidth={3} fill="url(#colorTemp)" isAnimationActive={false} />
-                     </AreaChart>
+                        <Area type="monotone" dataKey="temperature" name="Model" stroke="#f97316" strokeWidth={3} fill="url(#colorTemp)" connectNulls isAnimationActive={false} />
+                        <ReferenceLine y={inUnits('temperature', boilerProps.boilingPoint)} stroke="#ef4444" strokeDasharray="3 3" label={{ value: 'Boiling', fill: axisTextColor, fontSize: 11, position: 'insideTopLeft' }} />
+                        {overlay && <Line type="linear" dataKey="measured" name="Measured" stroke="#0ea5e9" strokeWidth={0} dot={{ r: 2, fill: '#0ea5e9' }} connectNulls isAnimationActive={false} />}
+                     </ComposedChart>
                    ) : module === 'antoine' ? (
-                      <AreaChart data={antoineData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <AreaChart data={displayAntoineData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <defs>
                           <linearGradient id="colorPress" x1="0" y1="0" x2="0" y2="1">
                             <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.3}/>
@@ -382,14 +1060,26 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
                           </linearGradient>
                         </defs>
                         <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
-                        <XAxis dataKey="temperature" label={{ value: 'Temperature (°C)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
-                        <YAxis label={{ value: 'Pressure (mmHg)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <XAxis dataKey="temperature" type="number" domain={['dataMin', 'dataMax']} label={{ value: `Temperature (${unitOf('temperature')})`, position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <YAxis label={{ value: `Pressure (${unitOf('pressure')})`, angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                        {extrapolation && selectedSubstance.tMax > 0 && selectedSubstance.tMin < pressureTempRange && (
+                          <ReferenceArea
+                            x1={inUnits('temperature', Math.max(0, selectedSubstance.tMin))}
+                            x2={inUnits('temperature', Math.min(pressureTempRange, selectedSubstance.tMax))}
+                            fill="#8b5cf6"
+                            fillOpacity={0.06}
+                            label={{ value: 'Valid range', position: 'insideTop', fill: axisTextColor, fontSize: 11 }}
+                          />
+                        )}
                         <Area type="monotone" dataKey="pressure" stroke="#8b5cf6" strokeWidth={3} fill="url(#colorPress)" isAnimationActive={false} />
-                        <ReferenceLine y={760} stroke="#ef4444" label="1 atm" strokeDasharray="3 3" />
+                        <ReferenceLine y={inUnits('pressure', ATMOSPHERIC_MMHG)} stroke="#ef4444" label="1 atm" strokeDasharray="3 3" />
+                        {vacuumPressure < ATMOSPHERIC_MMHG && (
+                          <ReferenceLine y={inUnits('pressure', vacuumPressure)} stroke="#0ea5e9" label={{ value: 'Vacuum setpoint', fill: axisTextColor, fontSize: 11, position: 'insideTopLeft' }} strokeDasharray="3 3" />
+                        )}
                       </AreaChart>
                    ) : module === 'conductivity' ? (
-                      <AreaChart data={condData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <ComposedChart data={overlay?.data ?? condData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <defs>
                           <linearGradient id="colorCond" x1="0" y1="0" x2="0" y2="1">
                             <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
@@ -397,79 +1087,407 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
                           </linearGradient>
                         </defs>
                         <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
-                        <XAxis dataKey="time" label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <XAxis dataKey="time" type={xAxisType} domain={['dataMin', 'dataMax']} label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <YAxis label={{ value: 'Conductivity (µS/cm)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
-                        <Area type="monotone" dataKey="conductivity" stroke="#10b981" strokeWidth={3} fill="url(#colorCond)" isAnimationActive={false} />
-                      </AreaChart>
+                        <Area type="monotone" dataKey="conductivity" name="Model" stroke="#10b981" strokeWidth={3} fill="url(#colorCond)" connectNulls isAnimationActive={false} />
+                        {overlay && <Line type="linear" dataKey="measured" name="Measured" stroke="#0ea5e9" strokeWidth={0} dot={{ r: 2, fill: '#0ea5e9' }} connectNulls isAnimationActive={false} />}
+                      </ComposedChart>
                    ) : module === 'flow' ? (
-                      <ComposedChart data={flowData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <ComposedChart data={overlay?.data ?? displayBoilerData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
-                        <XAxis dataKey="time" label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
-                        <YAxis yAxisId="left" label={{ value: 'Flow (mL/min)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
-                        <YAxis yAxisId="right" orientation="right" label={{ value: 'Total (L)', angle: 90, position: 'insideRight', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <XAxis dataKey="time" type={xAxisType} domain={['dataMin', 'dataMax']} label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <YAxis yAxisId="left" label={{ value: `Flow (${unitOf('flowRate')})`, angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <YAxis yAxisId="right" orientation="right" label={{ value: `Total (${unitOf('volume')})`, angle: 90, position: 'insideRight', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
                         <Legend verticalAlign="top" height={36}/>
-                        <Area yAxisId="left" type="monotone" dataKey="flowRate" fill="#3b82f6" stroke="#3b82f6" fillOpacity={0.1} name="Flow Rate" isAnimationActive={false} />
-                        <Line yAxisId="right" type="monotone" dataKey="totalVolume" stroke="#f59e0b" strokeWidth={3} dot={false} name="Total Volume" isAnimationActive={false} />
+                        <Area yAxisId="left" type="monotone" dataKey="flowRate" fill="#3b82f6" stroke="#3b82f6" fillOpacity={0.1} name="Flow Rate" connectNulls isAnimationActive={false} />
+                        <Line yAxisId="right" type="monotone" dataKey="totalVolume" stroke="#f59e0b" strokeWidth={3} dot={false} name="Total Volume" connectNulls isAnimationActive={false} />
+                        {overlay && <Line yAxisId={measuredAxis} type="linear" dataKey="measured" name="Measured" stroke="#ef4444" strokeWidth={0} dot={{ r: 2, fill: '#ef4444' }} connectNulls isAnimationActive={false} />}
                       </ComposedChart>
                    ) : module === 'power' ? (
-                      <ComposedChart data={powerData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <ComposedChart data={overlay?.data ?? displayBoilerData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
-                        <XAxis dataKey="time" label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <XAxis dataKey="time" type={xAxisType} domain={['dataMin', 'dataMax']} label={{ value: 'Time (minutes)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <YAxis yAxisId="left" label={{ value: 'Energy (kWh)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <YAxis yAxisId="right" orientation="right" label={{ value: 'Cost ($)', angle: 90, position: 'insideRight', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
                         <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
                         <Legend verticalAlign="top" height={36}/>
                         <Bar yAxisId="left" dataKey="energy" fill="#eab308" name="Energy (kWh)" radius={[4, 4, 0, 0]} isAnimationActive={false} />
-                        <Line yAxisId="right" type="monotone" dataKey="cost" stroke="#22c55e" strokeWidth={3} dot={false} name="Cost ($)" isAnimationActive={false} />
+                        <Line yAxisId="right" type="monotone" dataKey="cost" stroke="#22c55e" strokeWidth={3} dot={false} name="Cost ($)" connectNulls isAnimationActive={false} />
+                        <Line yAxisId="left" type="monotone" dataKey="losses" stroke="#ef4444" strokeWidth={2} strokeDasharray="4 3" dot={false} name="Losses (kWh)" connectNulls isAnimationActive={false} />
+                        {overlay && <Line yAxisId={measuredAxis} type="linear" dataKey="measured" name="Measured" stroke="#ef4444" strokeWidth={0} dot={{ r: 2, fill: '#ef4444' }} connectNulls isAnimationActive={false} />}
                       </ComposedChart>
-                   ) : module === 'mccabe' ? (
-                     <LineChart data={mccabeData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                   ) : module === 'flash' ? (
+                     <LineChart data={displayFlashCurve} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={gridColor} strokeOpacity={0.5} />
+                        <XAxis dataKey="temperature" type="number" domain={[inUnits('temperature', flashRange.min), inUnits('temperature', flashRange.max)]} label={{ value: `Temperature (${unitOf('temperature')})`, position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <YAxis domain={[0, 1]} label={{ value: 'Vapor Fraction (V/F)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                        <Line name="Vapor fraction" type="monotone" dataKey="vaporFraction" stroke="#14b8a6" strokeWidth={3} dot={false} isAnimationActive={false} />
+                        {bubblePoint && <ReferenceLine x={inUnits('temperature', bubblePoint.temperature)} stroke="#3b82f6" strokeDasharray="4 3" label={{ value: 'Bubble', fill: axisTextColor, fontSize: 11, position: 'insideTopLeft' }} />}
+                        {dewPoint && <ReferenceLine x={inUnits('temperature', dewPoint.temperature)} stroke="#ef4444" strokeDasharray="4 3" label={{ value: 'Dew', fill: axisTextColor, fontSize: 11, position: 'insideTopRight' }} />}
+                        <ReferenceLine x={inUnits('temperature', flashT)} stroke={axisTextColor} label={{ value: 'Flash', fill: axisTextColor, fontSize: 11, position: 'top' }} />
+                     </LineChart>
+                   ) : module === 'condenser' ? (
+                     <ComposedChart data={displayCondenserCurve} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
+                        <XAxis dataKey="coolantFlow" type="number" domain={[0, 'dataMax']} label={{ value: `Cooling Water Flow (${unitOf('coolantFlow')})`, position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <YAxis yAxisId="left" label={{ value: 'Heat Duty (W)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <YAxis yAxisId="right" orientation="right" label={{ value: `Water Outlet (${unitOf('temperature')})`, angle: 90, position: 'insideRight', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                        <Legend verticalAlign="top" height={36}/>
+                        <Area yAxisId="left" type="monotone" dataKey="capacity" name="Condensing capacity" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.1} strokeWidth={3} isAnimationActive={false} />
+                        <Line yAxisId="left" type="linear" dataKey="load" name="Vapor load" stroke="#ef4444" strokeWidth={2} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+                        <Line yAxisId="right" type="monotone" dataKey="outlet" name="Water outlet" stroke="#0ea5e9" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        <ReferenceLine yAxisId="left" x={inUnits('coolantFlow', coolantFlow)} stroke={axisTextColor} label={{ value: 'Current', fill: axisTextColor, fontSize: 11, position: 'top' }} />
+                        {Number.isFinite(condenser.requiredFlowLpm) && (
+                          <ReferenceLine yAxisId="left" x={inUnits('coolantFlow', condenser.requiredFlowLpm)} stroke="#10b981" strokeDasharray="4 3" label={{ value: 'Minimum', fill: axisTextColor, fontSize: 11, position: 'insideTopRight' }} />
+                        )}
+                     </ComposedChart>
+                   ) : module === 'vacuum' ? (
+                     <LineChart data={displayBoilingCurve} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={gridColor} strokeOpacity={0.5} />
+                        <XAxis dataKey="pressure" type="number" scale="log" domain={[inUnits('pressure', 5), inUnits('pressure', ATMOSPHERIC_MMHG)]} ticks={VACUUM_TICKS_MMHG.map(t => Number(toDisplay('pressure', t, units).toPrecision(2)))} label={{ value: `Pressure (${unitOf('pressure')}, log scale)`, position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <YAxis domain={['auto', 'auto']} label={{ value: `Boiling Point (${unitOf('temperature')})`, angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                        <Line name="Boiling point" type="monotone" dataKey="boilingPoint" stroke="#0ea5e9" strokeWidth={3} dot={false} isAnimationActive={false} />
+                        <ReferenceLine x={inUnits('pressure', vacuumPressure)} stroke="#0ea5e9" strokeDasharray="4 3" label={{ value: fmt('temperature', vacuumEnergy.boilingPoint), fill: axisTextColor, fontSize: 11, position: 'top' }} />
+                        <ReferenceLine y={inUnits('temperature', atmosphericEnergy.boilingPoint)} stroke="#ef4444" strokeDasharray="3 3" label={{ value: '1 atm', fill: axisTextColor, fontSize: 11, position: 'insideTopLeft' }} />
+                     </LineChart>
+                   ) : module === 'vle' && vleView === 'txy' ? (
+                     <LineChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={gridColor} strokeOpacity={0.5} />
+                        <XAxis dataKey="x" type="number" domain={[0, 1]} label={{ value: `x, y (${vleSystem?.light.name ?? 'light'})`, position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <YAxis domain={['auto', 'auto']} label={{ value: `Temperature (${unitOf('temperature')})`, angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                        <Legend verticalAlign="top" height={36}/>
+                        <Line name="Bubble point (liquid)" data={displayTxyData?.bubble} type="monotone" dataKey="temperature" stroke="#3b82f6" strokeWidth={3} dot={false} isAnimationActive={false} />
+                        <Line name="Dew point (vapor)" data={displayTxyData?.dew} type="monotone" dataKey="temperature" stroke="#ef4444" strokeWidth={3} dot={false} isAnimationActive={false} />
+                        {vleSystem?.azeotrope && <ReferenceLine x={Number(vleSystem.azeotrope.x.toFixed(3))} stroke="#06b6d4" strokeDasharray="4 3" label={{ value: 'Azeotrope', fill: axisTextColor, fontSize: 11, position: 'top' }} />}
+                     </LineChart>
+                   ) : module === 'vle' ? (
+                     <LineChart data={xyData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" stroke={gridColor} strokeOpacity={0.5} />
                         <XAxis dataKey="x" type="number" domain={[0, 1]} label={{ value: 'x (Liquid Phase)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
                         <YAxis domain={[0, 1]} label={{ value: 'y (Vapor Phase)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
                         <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
                         <Legend verticalAlign="top" height={36}/>
                         <Line name="y=x" type="monotone" dataKey="xLine" stroke={axisTextColor} strokeDasharray="5 5" strokeWidth={1} dot={false} isAnimationActive={false} />
+                        <Line name="Equilibrium" type="monotone" dataKey="yEq" stroke="#06b6d4" strokeWidth={3} dot={false} isAnimationActive={false} />
+                        {vleSystem?.azeotrope && <ReferenceLine x={Number(vleSystem.azeotrope.x.toFixed(3))} stroke="#06b6d4" strokeDasharray="4 3" />}
+                     </LineChart>
+                   ) : module === 'mccabe' ? (
+                     <LineChart data={mccabeData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={gridColor} strokeOpacity={0.5} />
+                        <XAxis dataKey="x" type="number" domain={[0, 1]} allowDataOverflow label={{ value: 'x (Liquid Phase)', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <YAxis domain={[0, 1]} allowDataOverflow label={{ value: 'y (Vapor Phase)', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                        <Legend verticalAlign="top" height={36}/>
+                        <Line name="y=x" type="monotone" dataKey="xLine" stroke={axisTextColor} strokeDasharray="5 5" strokeWidth={1} dot={false} isAnimationActive={false} />
                         <Line name="Equilibrium" type="monotone" dataKey="yEq" stroke="#3b82f6" strokeWidth={3} dot={false} isAnimationActive={false} />
-                        <Line name="Operating Line" type="monotone" dataKey="yOp" stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        <Line name="Rectifying" data={mccabeDesign.rectifyingLine} type="linear" dataKey="y" stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        <Line name="Stripping" data={mccabeDesign.strippingLine} type="linear" dataKey="y" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        <Line name="q-Line" data={mccabeDesign.qLine} type="linear" dataKey="y" stroke="#a855f7" strokeWidth={2} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+                        {mccabeDesign.feasible && (
+                          <Line name={`Stages (${mccabeDesign.stages})`} data={mccabeDesign.steps} type="linear" dataKey="y" stroke="#ef4444" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        )}
                      </LineChart>
                    ) : (
-                      <LineChart data={batchData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <ComposedChart data={batchData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
-                        <XAxis dataKey="percentDistilled" label={{ value: '% Distilled', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
-                        <YAxis domain={[0, 1]} label={{ value: 'Mole Fraction', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <XAxis dataKey="percentDistilled" type="number" domain={[0, 100]} label={{ value: '% Distilled', position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        <YAxis yAxisId="left" domain={[0, 1]} label={{ value: 'Mole Fraction', angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={{ stroke: gridColor }} />
+                        {batchSpec.operation === 'constantComposition' && (
+                          <YAxis yAxisId="right" orientation="right" label={{ value: 'Reflux Ratio', angle: 90, position: 'insideRight', fill: axisTextColor, fontSize: 12 }} tick={{ fill: axisTextColor }} tickLine={false} axisLine={false} />
+                        )}
                         <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
                         <Legend verticalAlign="top" height={36}/>
-                        <Line name="Residue (x_w)" type="monotone" dataKey="residueComposition" stroke="#10b981" strokeWidth={3} dot={false} isAnimationActive={false} />
-                        <Line name="Distillate (x_d)" type="monotone" dataKey="distillateComposition" stroke="#f59e0b" strokeWidth={2} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
-                      </LineChart>
+                        {batchResult.cuts.filter(c => c.end > c.start).map((c, i) => (
+                          <ReferenceArea key={c.name} yAxisId="left" x1={c.start * 100} x2={c.end * 100} fill={CUT_COLORS[i]} fillOpacity={0.06} label={{ value: c.name, position: 'insideTop', fill: axisTextColor, fontSize: 10 }} />
+                        ))}
+                        <Line yAxisId="left" name="Residue (x_w)" type="monotone" dataKey="residueComposition" stroke="#10b981" strokeWidth={3} dot={false} isAnimationActive={false} />
+                        <Line yAxisId="left" name="Distillate (x_d)" type="monotone" dataKey="distillateComposition" stroke="#f59e0b" strokeWidth={2} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                        <Line yAxisId="left" name="Receiver average" type="monotone" dataKey="averageDistillate" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        {batchSpec.operation === 'constantComposition' && (
+                          <Line yAxisId="right" name="Reflux ratio" type="monotone" dataKey="refluxRatio" stroke="#ef4444" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        )}
+                      </ComposedChart>
                    )}
                  </ResponsiveContainer>
                </div>
             </Card>
 
+            {/* Scenario Comparison */}
+            {comparison && (
+              <Card className="p-6">
+                <h3 className="text-sm font-bold text-slate-800 dark:text-white">Scenario Comparison</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                  {comparison[0].evaluation.yLabel} vs {comparison[0].evaluation.xLabel}; differences are relative to the current settings.
+                </p>
+                <div className="h-[280px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
+                      <XAxis
+                        dataKey="x"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        scale={module === 'vacuum' ? 'log' : 'auto'}
+                        label={{ value: comparison[0].evaluation.xQuantity ? `${comparison[0].evaluation.xLabel} (${unitOf(comparison[0].evaluation.xQuantity)})` : comparison[0].evaluation.xLabel, position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }}
+                        tick={{ fill: axisTextColor, fontSize: 11 }}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis
+                        domain={['auto', 'auto']}
+                        label={{ value: comparison[0].evaluation.yQuantity ? `${comparison[0].evaluation.yLabel} (${unitOf(comparison[0].evaluation.yQuantity)})` : comparison[0].evaluation.yLabel, angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }}
+                        tick={{ fill: axisTextColor, fontSize: 11 }}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                      <Legend verticalAlign="top" height={28} />
+                      {comparison.map((c, i) => {
+                        const { xQuantity, yQuantity, series } = c.evaluation;
+                        const data = series.map(p => ({
+                          x: xQuantity ? inUnits(xQuantity, p.x) : p.x,
+                          y: yQuantity ? inUnits(yQuantity, p.y) : p.y,
+                        }));
+                        const color = i === 0 && isDarkMode ? '#f8fafc' : SCENARIO_COLORS[i % SCENARIO_COLORS.length];
+                        return <Line key={c.id} name={c.name} data={data} type="linear" dataKey="y" stroke={color} strokeWidth={i === 0 ? 3 : 2} strokeDasharray={i === 0 ? undefined : '5 3'} dot={false} isAnimationActive={false} />;
+                      })}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="overflow-x-auto mt-4">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-[10px] uppercase text-slate-400 text-left">
+                        <th className="font-bold pb-2">Metric</th>
+                        {comparison.map(c => <th key={c.id} className="font-bold pb-2 text-right">{c.name}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono text-slate-700 dark:text-slate-200">
+                      {comparison[0].evaluation.metrics.map((metric, row) => (
+                        <tr key={metric.label} className="border-t border-slate-100 dark:border-slate-700">
+                          <td className="py-1.5 font-sans">{metric.label}</td>
+                          {comparison.map((c, i) => {
+                            const value = c.evaluation.metrics[row]?.value ?? NaN;
+                            const delta = i === 0 ? '' : formatMetricDelta(metric, value - metric.value);
+                            return (
+                              <td key={c.id} className="py-1.5 text-right">
+                                {formatMetric(metric, value)}
+                                {delta && <span className="ml-1 text-[10px] text-slate-400">({delta})</span>}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            )}
+
+            {/* Sensitivity & Sweeps */}
+            {showSensitivity && (
+              <Card className="p-6">
+                <SensitivityPanel key={module} module={module} params={currentParams} library={library} units={units} isDarkMode={isDarkMode} />
+              </Card>
+            )}
+
+            {/* Flash Phase Split */}
+            {module === 'flash' && flashResult && (
+              <Card className="p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-bold text-slate-800 dark:text-white">Phase Split at {fmt('temperature', flashT)}</h3>
+                  <span className="text-xs font-semibold uppercase tracking-wide text-teal-600 dark:text-teal-400">{flashResult.state}</span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-[10px] uppercase text-slate-400 text-left">
+                        <th className="font-bold pb-2">Component</th>
+                        <th className="font-bold pb-2 text-right">Feed z</th>
+                        <th className="font-bold pb-2 text-right">Liquid x</th>
+                        <th className="font-bold pb-2 text-right">Vapor y</th>
+                        <th className="font-bold pb-2 text-right">K</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono text-slate-700 dark:text-slate-200">
+                      {flashResult.components.map(c => (
+                        <tr key={c.name} className="border-t border-slate-100 dark:border-slate-700">
+                          <td className="py-1.5 font-sans">{c.name}</td>
+                          <td className="py-1.5 text-right">{c.z.toFixed(4)}</td>
+                          <td className="py-1.5 text-right">{flashResult.state === 'superheated vapor' ? '—' : c.x.toFixed(4)}</td>
+                          <td className="py-1.5 text-right">{flashResult.state === 'subcooled liquid' ? '—' : c.y.toFixed(4)}</td>
+                          <td className="py-1.5 text-right">{c.K.toFixed(3)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            )}
+
+            {/* Batch Cut Plan */}
+            {module === 'batch' && (
+              <Card className="p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-bold text-slate-800 dark:text-white">Cut Plan ({fmt('volume', batchCharge, 0)} charge)</h3>
+                  <span className="text-xs text-slate-400">{batchResult.steps} adaptive steps</span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-[10px] uppercase text-slate-400 text-left">
+                        <th className="font-bold pb-2">Cut</th>
+                        <th className="font-bold pb-2 text-right">Range</th>
+                        <th className="font-bold pb-2 text-right">Volume</th>
+                        <th className="font-bold pb-2 text-right">Avg. x_D</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono text-slate-700 dark:text-slate-200">
+                      {batchResult.cuts.map((c, i) => (
+                        <tr key={c.name} className="border-t border-slate-100 dark:border-slate-700">
+                          <td className="py-1.5 font-sans flex items-center gap-2">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CUT_COLORS[i] }} /> {c.name}
+                          </td>
+                          <td className="py-1.5 text-right">{(c.start * 100).toFixed(1)}–{(c.end * 100).toFixed(1)}%</td>
+                          <td className="py-1.5 text-right">{fmt('volume', (c.end - c.start) * batchCharge)}</td>
+                          <td className="py-1.5 text-right">{c.end > c.start ? c.averageComposition.toFixed(4) : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="mt-2 text-[11px] text-slate-400">Volumes assume a constant molar volume across the mixture.</p>
+              </Card>
+            )}
+
+            {/* Vacuum: boiling points at the operating pressure and batch energy */}
+            {module === 'vacuum' && (
+              <>
+                <Card className="p-6 h-[300px] flex flex-col">
+                  <div className="flex items-start justify-between mb-2 gap-4">
+                    <div>
+                      <h3 className="text-sm font-bold text-slate-800 dark:text-white">Batch Energy: Vacuum vs Atmospheric</h3>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">Cumulative heater energy at {powerWatts} W for {fmt('mass', chargeKg)}, {evaporatedPct}% boiled off</p>
+                    </div>
+                    <div className="flex gap-4 text-right">
+                      <MetricItem label="Atmospheric" value={`${atmosphericEnergy.totalKwh.toFixed(2)} kWh`} color="text-slate-800 dark:text-white" />
+                      <MetricItem label="Vacuum" value={`${vacuumEnergy.totalKwh.toFixed(2)} kWh`} color="text-slate-800 dark:text-white" />
+                      <MetricItem label="Cost Saved" value={`$${((atmosphericEnergy.totalKwh - vacuumEnergy.totalKwh) * powerCost).toFixed(2)}`} color="text-emerald-600 dark:text-emerald-400" />
+                    </div>
+                  </div>
+                  <div className="flex-1 w-full min-h-0">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={energyComparison} margin={{ top: 10, right: 30, left: 20, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
+                        <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tick={{ fill: axisTextColor, fontSize: 11 }} tickLine={false} axisLine={false} />
+                        <YAxis tick={{ fill: axisTextColor, fontSize: 11 }} tickLine={false} axisLine={false} />
+                        <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                        <Legend verticalAlign="top" height={28} />
+                        <Line name="Atmospheric (kWh)" type="linear" dataKey="atmospheric" stroke="#ef4444" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        <Line name={`${fmt('pressure', vacuumPressure)} (kWh)`} type="linear" dataKey="vacuum" stroke="#0ea5e9" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </Card>
+
+                <Card className="p-6">
+                  <h3 className="text-sm font-bold text-slate-800 dark:text-white mb-3">Boiling Points at {fmt('pressure', vacuumPressure)}</h3>
+                  <div className="overflow-x-auto max-h-72">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-[10px] uppercase text-slate-400 text-left">
+                          <th className="font-bold pb-2">Substance</th>
+                          <th className="font-bold pb-2 text-right">At 1 atm</th>
+                          <th className="font-bold pb-2 text-right">At Setpoint</th>
+                          <th className="font-bold pb-2 text-right">Reduction</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono text-slate-700 dark:text-slate-200">
+                        {vacuumBoilingPoints.map(b => (
+                          <tr key={b.name} className={`border-t border-slate-100 dark:border-slate-700 ${b.name === selectedSubstance.name ? 'bg-sky-50 dark:bg-sky-900/20' : ''}`}>
+                            <td className="py-1.5 font-sans">{b.name}</td>
+                            <td className="py-1.5 text-right">{fmt('temperature', b.atmospheric)}</td>
+                            <td className={`py-1.5 text-right ${b.inRange ? '' : 'text-amber-600 dark:text-amber-400'}`} title={b.inRange ? undefined : 'Antoine constants extrapolated'}>
+                              {fmt('temperature', b.atVacuum)}{b.inRange ? '' : '*'}
+                            </td>
+                            <td className="py-1.5 text-right">{fmt('temperatureDelta', b.atmospheric - b.atVacuum)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="mt-2 text-[11px] text-slate-400">* Outside the temperature range of the Antoine constants.</p>
+                </Card>
+              </>
+            )}
+
+            {/* Residuals (measured - model) */}
+            {overlay && (
+              <Card className="p-6 h-[260px] flex flex-col">
+                <div className="flex items-start justify-between mb-2 gap-4">
+                  <div>
+                    <h3 className="text-sm font-bold text-slate-800 dark:text-white">Residuals (Measured − Model)</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{activeLog?.fileName}</p>
+                  </div>
+                  {overlay.stats ? (
+                    <div className="flex gap-4 text-right">
+                      <MetricItem label="RMSE" value={overlay.stats.rmse.toFixed(2)} color="text-slate-800 dark:text-white" />
+                      <MetricItem label="Mean Bias" value={overlay.stats.meanResidual.toFixed(2)} color="text-slate-800 dark:text-white" />
+                      <MetricItem label="Max |Δ|" value={overlay.stats.maxAbsResidual.toFixed(2)} color="text-slate-800 dark:text-white" />
+                    </div>
+                  ) : (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">No measured points fall inside the model time range.</p>
+                  )}
+                </div>
+                <div className="flex-1 w-full min-h-0">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={residualData} margin={{ top: 10, right: 30, left: 20, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
+                      <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tick={{ fill: axisTextColor, fontSize: 11 }} tickLine={false} axisLine={false} />
+                      <YAxis tick={{ fill: axisTextColor, fontSize: 11 }} tickLine={false} axisLine={false} />
+                      <Tooltip contentStyle={{ borderRadius: '8px', border: tooltipBorder, boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: tooltipBg, color: tooltipColor }} />
+                      <ReferenceLine y={0} stroke={axisTextColor} />
+                      <Bar dataKey="residual" name="Residual" fill="#8b5cf6" isAnimationActive={false} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </Card>
+            )}
+
             {/* Bottom Stats Squares */}
             <div className="grid grid-cols-3 gap-4">
               <Card className="p-4 flex items-center justify-between">
                  <MetricItem 
                    label={
-                    module === 'heating' ? "Final Temp" :
+                    module === 'heating' ? "Time to Boil" :
                     module === 'antoine' ? "Boiling Point" :
                     module === 'conductivity' ? "Final Purity" :
                     module === 'flow' ? "Output Rate" :
                     module === 'power' ? "Total Energy" :
-                    module === 'mccabe' ? "Min Reflux (est)" : "Final Purity"
+                    module === 'mccabe' ? "Min Reflux (R_min)" :
+                    module === 'vle' ? "Azeotrope" :
+                    module === 'flash' ? "Bubble Point" :
+                    module === 'vacuum' ? "Boiling Point" :
+                    module === 'condenser' ? "Min Water Flow" : "Final Still x_W"
                    }
                    value={
-                    module === 'heating' ? `${tMax.toFixed(1)}°C` :
-                    module === 'antoine' ? `${(selectedSubstance.B / (selectedSubstance.A - Math.log10(760)) - selectedSubstance.C).toFixed(1)}°C` :
+                    module === 'heating' ? (Number.isFinite(boilerSummary.timeToBoil) ? `${boilerSummary.timeToBoil.toFixed(1)} min` : 'Never') :
+                    module === 'antoine' ? `${fmt('temperature', boilingPoint)}${isInAntoineRange(boilingPoint, selectedSubstance) ? '' : ' (extrap.)'}` :
                     module === 'conductivity' ? `${condData[condData.length-1]?.conductivity ?? 0} µS` :
-                    module === 'flow' ? `${flowData[flowData.length-1]?.flowRate ?? 0} mL/m` :
-                    module === 'power' ? `${powerData[powerData.length-1]?.energy ?? 0} kWh` :
-                    module === 'mccabe' ? `${(1/(alpha-1)).toFixed(2)}` :
-                    (batchData[batchData.length-1]?.residueComposition ?? 0).toFixed(3)
+                    module === 'flow' ? fmt('flowRate', boilerSummary.steadyFlowRate) :
+                    module === 'power' ? `${boilerData[boilerData.length-1]?.energy ?? 0} kWh` :
+                    module === 'mccabe' ? mccabeDesign.minReflux.toFixed(2) :
+                    module === 'flash' ? (bubblePoint ? fmt('temperature', bubblePoint.temperature) : '—') :
+                    module === 'condenser' ? (Number.isFinite(condenser.requiredFlowLpm) ? fmt('coolantFlow', condenser.requiredFlowLpm) : 'Area too small') :
+                    module === 'vacuum' ? `${fmt('temperature', vacuumEnergy.boilingPoint)} (−${toDisplayDelta('temperature', atmosphericEnergy.boilingPoint - vacuumEnergy.boilingPoint, units).toFixed(1)})` :
+                    module === 'vle' ? (vleSystem?.azeotrope ? `x=${vleSystem.azeotrope.x.toFixed(3)} @ ${fmt('temperature', vleSystem.azeotrope.temperature)}` : 'None') :
+                    batchResult.final.residue.toFixed(3)
                    }
                    color="text-slate-800 dark:text-white"
                  />
@@ -480,21 +1498,29 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
               <Card className="p-4 flex items-center justify-between">
                  <MetricItem 
                    label={
-                    module === 'heating' ? "Time Constant" :
+                    module === 'heating' ? "Time Constant (τ)" :
                     module === 'antoine' ? "Max Pressure" :
                     module === 'conductivity' ? "Reduction" :
                     module === 'flow' ? "Total Vol" :
                     module === 'power' ? "Total Cost" :
-                    module === 'mccabe' ? "Alpha" : "Yield"
+                    module === 'mccabe' ? "Stages / Feed Stage" :
+                    module === 'vle' ? "Boiling Points" :
+                    module === 'flash' ? "Dew Point" :
+                    module === 'vacuum' ? "Energy Saving" :
+                    module === 'condenser' ? "Outlet / LMTD" : "Distilled"
                    }
                    value={
-                    module === 'heating' ? `${(1/k).toFixed(1)} min` :
-                    module === 'antoine' ? `${antoineData[antoineData.length-1]?.pressure.toFixed(0)} mmHg` :
+                    module === 'heating' ? (lossCoefficient > 0 ? `${(boilerVolume * liquidDensity * heatCapacity * 1000 / lossCoefficient / 60).toFixed(0)} min` : '∞') :
+                    module === 'antoine' ? fmt('pressure', antoineData[antoineData.length-1]?.pressure ?? 0) :
                     module === 'conductivity' ? `${((1 - condFinal/condInit)*100).toFixed(0)}%` :
-                    module === 'flow' ? `${flowData[flowData.length-1]?.totalVolume ?? 0} L` :
-                    module === 'power' ? `$${powerData[powerData.length-1]?.cost ?? 0}` :
-                    module === 'mccabe' ? alpha.toFixed(1) :
-                    `${(100 - ((batchData[batchData.length-1]?.residueComposition ?? 0) / batchXf * 100)).toFixed(1)}%`
+                    module === 'flow' ? fmt('volume', boilerData[boilerData.length-1]?.totalVolume ?? 0) :
+                    module === 'power' ? `$${boilerData[boilerData.length-1]?.cost ?? 0}` :
+                    module === 'mccabe' ? (mccabeDesign.feasible ? `${mccabeDesign.stages} / ${mccabeDesign.feedStage}` : '—') :
+                    module === 'flash' ? (dewPoint ? fmt('temperature', dewPoint.temperature) : '—') :
+                    module === 'vacuum' ? `${(energySaving * 100).toFixed(1)}%` :
+                    module === 'condenser' ? `${fmt('temperature', condenser.coolantOutletC)} / ${fmt('temperatureDelta', condenser.lmtd)}` :
+                    module === 'vle' ? (vleSystem ? `${toDisplay('temperature', vleSystem.points[vleSystem.points.length - 1].temperature, units).toFixed(1)} / ${fmt('temperature', vleSystem.points[0].temperature)}` : '—') :
+                    `${(batchResult.final.distilled * 100).toFixed(1)}% (${fmt('volume', batchResult.final.distilled * batchCharge, 1)})`
                    }
                    color="text-slate-800 dark:text-white"
                  />
@@ -504,9 +1530,17 @@ const CalculatorPanel: React.FC<CalculatorPanelProps> = ({ isDarkMode }) => {
               </Card>
               <Card className="p-4 flex items-center justify-between">
                  <MetricItem 
-                   label="Efficiency"
-                   value={module === 'flow' ? `${(flowEff*100).toFixed(0)}%` : "High"}
-                   color="text-brand-600 dark:text-brand-400"
+                   label={module === 'mccabe' ? "Min Stages (Fenske)" : module === 'vle' ? "Activity Model" : module === 'flash' ? "Vapor Fraction" : module === 'vacuum' ? "Pump Speed" : module === 'batch' ? "Boil-up / Charge" : module === 'condenser' ? "Status" : "Efficiency"}
+                   value={
+                    isLogModule(module) && module !== 'conductivity' ? `${(boilerSummary.boilingEfficiency * 100).toFixed(0)}%` :
+                    module === 'mccabe' ? mccabeDesign.minStages.toFixed(1) :
+                    module === 'vle' ? ACTIVITY_MODEL_LABELS[vleSpec.model] :
+                    module === 'flash' ? (flashResult ? `${(flashResult.vaporFraction * 100).toFixed(1)}%` : '—') :
+                    module === 'vacuum' ? fmt('pumpSpeed', pumpSizing.requiredSpeed) :
+                    module === 'batch' ? batchResult.final.boilup.toFixed(2) :
+                    module === 'condenser' ? `${condenser.status} (${(condenser.condensedFraction * 100).toFixed(0)}%)` : "High"
+                   }
+                   color={module === 'condenser' ? CONDENSER_STATUS_STYLE[condenser.status] : "text-brand-600 dark:text-brand-400"}
                  />
                  <div className="bg-brand-50 dark:bg-brand-900/30 p-2 rounded-full text-brand-600 dark:text-brand-400">
                     <TrendingUp size={18} />
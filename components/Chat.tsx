@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Send, Paperclip, X, History, Sparkles, Search, Loader2, Bot, Square } from 'lucide-react';
+import { AppMode, ChatSession, Message } from '../types';
+import ChatBubble from './ChatBubble';
+import { streamMessageToGemini } from '../services/geminiService';
+import { fileToBase64 } from '../utils/helpers';
+import { importDataFile, ImportReport } from '../utils/dataImport';
+import ImportReportView from './ImportReportView';
+import { UnitPreferences } from '../utils/units';
+
+interface ChatProps {
+  session: ChatSession;
+  mode: AppMode;
+  setMode: (mode: AppMode) => void;
+  onUpdateMessages: (sessionId: string, updater: (messages: Message[]) => Message[]) => void;
+  onOpenHistory: () => void;
+  pendingPrompt: string | null;
+  onPromptConsumed: () => void;
+  units: UnitPreferences;
+}
+
+const SUGGESTIONS = [
+  'Why is my distillate conductivity above 2 µS/cm?',
+  'How often should I descale a 4 L/h water still?',
+  'Estimate output for 5 L tap water at 2 kW.',
+];
+
+const Chat: React.FC<ChatProps> = ({ session, mode, setMode, onUpdateMessages, onOpenHistory, pendingPrompt, onPromptConsumed, units }) => {
+  const [input, setInput] = useState('');
+  const [images, setImages] = useState<string[]>([]);
+  const [dataFile, setDataFile] = useState<{ name: string, rows: Array<Record<string, string | number>>, report: ImportReport } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Quick prompts from the tools drawer prefill the input
+  useEffect(() => {
+    if (pendingPrompt) {
+      setInput(pendingPrompt);
+      onPromptConsumed();
+    }
+  }, [pendingPrompt, onPromptConsumed]);
+
+  // Cancel any in-flight stream when leaving the session
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [session.messages, isLoading]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    for (const file of files) {
+      if (file.type.startsWith('image/')) {
+        const base64 = await fileToBase64(file);
+        setImages(prev => [...prev, base64]);
+      } else {
+        // Failed imports stay visible so the report explains why nothing was attached
+        const { rows, report } = await importDataFile(file);
+        setDataFile({ name: file.name, rows, report });
+      }
+    }
+    e.target.value = '';
+  };
+
+  const handleSend = async (text: string = input) => {
+    const prompt = text.trim();
+    const hasData = !!dataFile && dataFile.rows.length > 0;
+    if ((!prompt && images.length === 0 && !hasData) || isLoading) return;
+
+    const sessionId = session.id;
+    const history = session.messages;
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      text: prompt || (hasData ? `Analyze the attached data (${dataFile.name}).` : 'Analyze the attached image.'),
+      timestamp: Date.now(),
+      images: images.length > 0 ? images : undefined,
+      chartData: hasData ? dataFile.rows : undefined,
+    };
+
+    onUpdateMessages(sessionId, msgs => [...msgs, userMessage]);
+    setInput('');
+    setImages([]);
+    setDataFile(null);
+    await runTurn(history, userMessage);
+  };
+
+  // Streams the model reply for userMessage, given the history that preceded it
+  const runTurn = async (history: Message[], userMessage: Message) => {
+    const sessionId = session.id;
+    setIsLoading(true);
+    setRetryAttempt(0);
+
+    // Placeholder bubble that fills in as tokens arrive
+    const placeholderId = crypto.randomUUID();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const reply = await streamMessageToGemini(history, userMessage.text, userMessage.images, mode, userMessage.chartData, units, {
+      signal: controller.signal,
+      onChunk: (partial) => {
+        setStreamingId(placeholderId);
+        onUpdateMessages(sessionId, msgs => msgs.some(m => m.id === placeholderId)
+          ? msgs.map(m => m.id === placeholderId ? { ...m, text: partial } : m)
+          : [...msgs, { id: placeholderId, role: 'model', text: partial, timestamp: Date.now() }]);
+      },
+      onRetry: (attempt) => setRetryAttempt(attempt),
+    });
+
+    onUpdateMessages(sessionId, msgs => [...msgs.filter(m => m.id !== placeholderId), reply]);
+    abortRef.current = null;
+    setStreamingId(null);
+    setIsLoading(false);
+  };
+
+  // Drops the failed reply and asks again with the same prompt and attachments
+  const handleRetry = (errorId: string) => {
+    if (isLoading) return;
+    const index = session.messages.findIndex(m => m.id === errorId);
+    const userIndex = session.messages.slice(0, index).map(m => m.role).lastIndexOf('user');
+    if (userIndex < 0) return;
+    const userMessage = session.messages[userIndex];
+    onUpdateMessages(session.id, msgs => msgs.filter(m => m.id !== errorId));
+    runTurn(session.messages.slice(0, userIndex), userMessage);
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-slate-50 dark:bg-slate-950 animate-in fade-in duration-300">
+
+      {/* Header */}
+      <header className="h-16 flex-shrink-0 flex items-center justify-between px-4 md:px-8 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+        <div className="flex items-center gap-3 min-w-0">
+          <button
+            onClick={onOpenHistory}
+            className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            title="Chat history"
+          >
+            <History size={18} />
+          </button>
+          <h1 className="font-bold text-slate-800 dark:text-white truncate">{session.title}</h1>
+        </div>
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+          <button
+            onClick={() => setMode(AppMode.EXPERT)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-semibold transition-colors ${
+              mode === AppMode.EXPERT ? 'bg-white dark:bg-slate-700 text-purple-600 dark:text-purple-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'
+            }`}
+          >
+            <Sparkles size={14} /> <span className="hidden sm:inline">Expert</span>
+          </button>
+          <button
+            onClick={() => setMode(AppMode.SEARCH)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-semibold transition-colors ${
+              mode === AppMode.SEARCH ? 'bg-white dark:bg-slate-700 text-green-600 dark:text-green-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'
+            }`}
+          >
+            <Search size={14} /> <span className="hidden sm:inline">Web Search</span>
+          </button>
+        </div>
+      </header>
+
+      {/* Messages */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto px-4 md:px-8 py-6">
+        <div className="max-w-4xl mx-auto">
+          {session.messages.length === 0 && (
+            <div className="flex flex-col items-center text-center mt-16">
+              <div className="w-14 h-14 bg-brand-600 rounded-2xl flex items-center justify-center shadow-lg shadow-brand-500/30 mb-4">
+                <Bot className="text-white" size={28} />
+              </div>
+              <h2 className="text-xl font-bold text-slate-800 dark:text-white mb-2">Ask the Distillation Expert</h2>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-8 max-w-md">
+                Troubleshoot your still, attach graphs or run logs for analysis, or switch to Web Search for current references.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 w-full">
+                {SUGGESTIONS.map(s => (
+                  <button
+                    key={s}
+                    onClick={() => handleSend(s)}
+                    className="p-4 text-left text-sm bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-slate-600 dark:text-slate-300 hover:border-brand-300 dark:hover:border-brand-700 transition-colors"
+                  >
+                    {s}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {session.messages.map(msg => (
+            <ChatBubble
+              key={msg.id}
+              message={msg}
+              isStreaming={msg.id === streamingId}
+              onRetry={msg.error ? () => handleRetry(msg.id) : undefined}
+            />
+          ))}
+
+          {isLoading && !streamingId && (
+            <div className="flex items-center gap-2 text-sm text-slate-400 mb-4 ml-10">
+              <Loader2 size={16} className="animate-spin" /> {retryAttempt > 0 ? `Service busy, retrying (attempt ${retryAttempt})...` : 'Thinking...'}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Composer */}
+      <div className="flex-shrink-0 border-t border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 px-4 md:px-8 py-4">
+        <div className="max-w-4xl mx-auto">
+          {(images.length > 0 || dataFile) && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {images.map((img, idx) => (
+                <div key={idx} className="relative">
+                  <img src={img} alt="Attachment" className="h-16 w-16 object-cover rounded-lg border border-slate-200 dark:border-slate-700" />
+                  <button
+                    onClick={() => setImages(prev => prev.filter((_, i) => i !== idx))}
+                    className="absolute -top-2 -right-2 bg-slate-800 text-white rounded-full p-0.5"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              {dataFile && (
+                <div className="flex items-start gap-2 w-full">
+                  <div className="flex-1 min-w-0">
+                    <ImportReportView fileName={dataFile.name} report={dataFile.report} />
+                  </div>
+                  <button onClick={() => setDataFile(null)} className="mt-2 text-slate-400 hover:text-red-500"><X size={14} /></button>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="flex items-end gap-2">
+            <input ref={fileInputRef} type="file" multiple accept="image/*,.csv,.tsv,.txt,.json" className="hidden" onChange={handleFiles} />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-3 rounded-xl text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title="Attach image or data file"
+            >
+              <Paperclip size={20} />
+            </button>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              rows={1}
+              placeholder={mode === AppMode.SEARCH ? 'Search the web about distillation...' : 'Describe your issue or ask a question...'}
+              className="flex-1 resize-none max-h-40 px-4 py-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-800 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-brand-500"
+            />
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="p-3 rounded-xl bg-red-600 hover:bg-red-700 text-white transition-colors"
+                title="Stop generating"
+              >
+                <Square size={20} className="fill-current" />
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSend()}
+                disabled={!input.trim() && images.length === 0 && !dataFile?.rows.length}
+                className="p-3 rounded-xl bg-brand-600 hover:bg-brand-700 disabled:opacity-40 disabled:cursor-not-allowed text-white transition-colors"
+              >
+                <Send size={20} />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Chat;
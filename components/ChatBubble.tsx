@@ -1,16 +1,33 @@
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Message } from '../types';
+import { AIErrorKind, Message } from '../types';
 import { formatTime } from '../utils/helpers';
-import { Bot, User, Globe, ExternalLink, FileSpreadsheet } from 'lucide-react';
+import { 
+  Bot, User, Globe, ExternalLink, FileSpreadsheet, 
+  KeyRound, Clock, ShieldAlert, FileWarning, WifiOff, ServerCrash, AlertTriangle, RotateCcw 
+} from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
+const ERROR_LABELS: Record<AIErrorKind, { label: string, icon: React.ElementType }> = {
+  auth: { label: 'Configuration Error', icon: KeyRound },
+  rate_limit: { label: 'Rate Limited', icon: Clock },
+  safety: { label: 'Blocked by Safety Filter', icon: ShieldAlert },
+  payload_too_large: { label: 'Request Too Large', icon: FileWarning },
+  offline: { label: 'Offline', icon: WifiOff },
+  network: { label: 'Connection Problem', icon: WifiOff },
+  server: { label: 'Service Unavailable', icon: ServerCrash },
+  unknown: { label: 'Error', icon: AlertTriangle },
+};
+
 interface ChatBubbleProps {
   message: Message;
+  isStreaming?: boolean;
+  onRetry?: () => void;
 }
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
+const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isStreaming = false, onRetry }) => {
   const isUser = message.role === 'user';
+  const errorInfo = message.error ? ERROR_LABELS[message.error.kind] : null;
 
   // Helper to determine keys for charting
   const renderChart = () => {
@@ -82,8 +99,17 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
           <div className={`px-4 py-3 rounded-2xl shadow-sm text-sm md:text-base leading-relaxed overflow-hidden w-full ${
             isUser 
               ? 'bg-brand-600 text-white rounded-tr-none' 
-              : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-700 rounded-tl-none'
+              : errorInfo
+                ? 'bg-red-50 dark:bg-red-900/20 text-slate-800 dark:text-slate-100 border border-red-200 dark:border-red-800 rounded-tl-none'
+                : 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-700 rounded-tl-none'
           }`}>
+
+            {/* Error State */}
+            {errorInfo && (
+              <p className="text-xs font-bold uppercase tracking-wide text-red-600 dark:text-red-400 mb-2 flex items-center gap-1.5">
+                <errorInfo.icon size={14} /> {errorInfo.label}
+              </p>
+            )}
             
             {/* Attached Images */}
             {message.images && message.images.length > 0 && (
@@ -100,8 +126,25 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
             {/* Text */}
             <div className={`markdown-content ${isUser ? 'text-white' : 'text-slate-800 dark:text-slate-100'}`}>
               <ReactMarkdown>{message.text}</ReactMarkdown>
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-brand-500 animate-pulse rounded-sm"></span>
+              )}
             </div>
             
+            {/* Retry (only for failures that can succeed on a second attempt) */}
+            {message.error && (
+              message.error.retryable && onRetry ? (
+                <button
+                  onClick={onRetry}
+                  className="mt-3 flex items-center gap-1.5 text-xs font-semibold px-3 py-1.5 rounded-md bg-red-600 hover:bg-red-700 text-white transition-colors"
+                >
+                  <RotateCcw size={12} /> Retry
+                </button>
+              ) : !message.error.retryable && (
+                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Retrying the same request will not help.</p>
+              )
+            )}
+
             {/* Grounding / Sources */}
             {message.groundingMetadata?.groundingChunks && message.groundingMetadata.groundingChunks.length > 0 && (
                <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
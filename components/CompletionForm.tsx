@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { Camera, Check, X } from 'lucide-react';
+import { MaintenanceTask } from '../types';
+import { MaintenanceRecord, READING_UNITS, formatLimits, readingPasses, readingResult } from '../utils/maintenance';
+import { resizeImage } from '../utils/helpers';
+
+interface CompletionFormProps {
+  task: MaintenanceTask;
+  defaultOperator: string;
+  onSubmit: (record: MaintenanceRecord) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-brand-500";
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-1";
+
+// Sign-off for one task: operator, readings against the task limits, notes and a photo
+const CompletionForm: React.FC<CompletionFormProps> = ({ task, defaultOperator, onSubmit, onCancel }) => {
+  const specs = task.readings ?? [];
+  const [operator, setOperator] = useState(defaultOperator);
+  const [notes, setNotes] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [photo, setPhoto] = useState<string | undefined>();
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = (key: string) => values[key]?.trim() ? Number(values[key]) : NaN;
+  const missing = specs.filter(spec => !Number.isFinite(parsed(spec.key)));
+  const canSubmit = operator.trim().length > 0 && missing.length === 0;
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPhoto(await resizeImage(file));
+      setPhotoError(null);
+    } catch {
+      setPhotoError('That file could not be read as an image.');
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      id: crypto.randomUUID(),
+      taskId: task.id,
+      taskTitle: task.title,
+      recordedAt: Date.now(),
+      operator: operator.trim(),
+      notes: notes.trim(),
+      photo,
+      readings: specs.map(spec => readingResult(spec, parsed(spec.key))),
+    });
+  };
+
+  return (
+    <div className="mt-4 p-4 rounded-xl bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 space-y-4" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <label className={labelClass}>Operator</label>
+        <input className={inputClass} value={operator} placeholder="Name or initials" onChange={(e) => setOperator(e.target.value)} />
+      </div>
+
+      {specs.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {specs.map(spec => {
+            const value = parsed(spec.key);
+            const entered = Number.isFinite(value);
+            const pass = readingPasses(spec, value);
+            return (
+              <div key={spec.key}>
+                <label className={labelClass}>{spec.label} ({READING_UNITS[spec.kind]})</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="any"
+                    className={inputClass}
+                    value={values[spec.key] ?? ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [spec.key]: e.target.value }))}
+                  />
+                  {entered && (
+                    <span className={`shrink-0 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${pass ? 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400' : 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400'}`}>
+                      {pass ? 'Pass' : 'Fail'}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-[11px] text-slate-400">Limit {formatLimits(spec)}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div>
+        <label className={labelClass}>Notes</label>
+        <textarea className={inputClass} rows={2} value={notes} placeholder="Findings, parts replaced, follow-up needed…" onChange={(e) => setNotes(e.target.value)} />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input ref={fileInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhoto} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+        >
+          <Camera size={14} /> {photo ? 'Replace Photo' : 'Attach Photo'}
+        </button>
+        {photo && (
+          <div className="relative">
+            <img src={photo} alt="Attached" className="h-12 w-12 object-cover rounded-md border border-slate-200 dark:border-slate-700" />
+            <button onClick={() => setPhoto(undefined)} className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-700 text-white" title="Remove photo">
+              <X size={10} />
+            </button>
+          </div>
+        )}
+        {photoError && <span className="text-xs text-red-500">{photoError}</span>}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {!canSubmit && (
+          <span className="mr-auto text-xs text-slate-400">
+            {operator.trim() ? `Enter ${missing.map(s => s.label).join(', ')} to sign off.` : 'Enter the operator to sign off.'}
+          </span>
+        )}
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40 transition-colors"
+        >
+          <Check size={14} /> Sign Off
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompletionForm;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Crosshair, SlidersHorizontal } from 'lucide-react';
+import { conductivityAt } from '../utils/calculations';
+import { BoilerSpec, boilerFlowRateAt, boilerTemperatureAt, boilerVolumeAt } from '../utils/boiler';
+import { FitModel, FitParameter, FitResult, fitLeastSquares } from '../utils/fitting';
+import { LogModule, MeasuredPoint } from '../utils/runLog';
+
+// Current slider values, keyed by parameter (e.g. "initialC", "lossCoefficient", "condRate")
+export type FitValues = Record<string, number>;
+
+interface FitParameterSpec extends Omit<FitParameter, 'initial'> {
+  sliderMin: number;
+  sliderMax: number;
+  initial: (measured: MeasuredPoint[], values: FitValues) => number;
+}
+
+interface FitSpec {
+  parameters: FitParameterSpec[];
+  model: (values: FitValues) => FitModel;
+}
+
+const first = (m: MeasuredPoint[]) => m[0].y;
+const last = (m: MeasuredPoint[]) => m[m.length - 1].y;
+
+// Boiler fields of the current values; fitted parameters are overridden per call
+const boilerSpec = (v: FitValues): BoilerSpec => ({
+  volumeLiters: v.volumeLiters,
+  density: v.density,
+  heatCapacity: v.heatCapacity,
+  latentHeat: v.latentHeat,
+  boilingPoint: v.boilingPoint,
+  heaterWatts: v.heaterWatts,
+  lossCoefficient: v.lossCoefficient,
+  ambientC: v.ambientC,
+  initialC: v.initialC,
+});
+
+const LOSS_PARAMETER: FitParameterSpec = {
+  key: 'lossCoefficient', label: 'UA (W/K)', lower: 0, upper: 200, sliderMin: 0, sliderMax: 20, initial: (_, v) => v.lossCoefficient,
+};
+
+// Which slider parameters can be estimated for each module and compared series
+const FIT_SPECS: Partial<Record<string, FitSpec>> = {
+  // Heater power, charge and properties are known; the start temperature and shell losses are estimated
+  'heating:temperature': {
+    parameters: [
+      { key: 'initialC', label: 'T₀ (°C)', lower: -50, upper: 200, sliderMin: 0, sliderMax: 100, initial: first },
+      LOSS_PARAMETER,
+    ],
+    model: (v) => (p, t) => boilerTemperatureAt({ ...boilerSpec(v), initialC: p[0], lossCoefficient: p[1] }, t),
+  },
+  'conductivity:conductivity': {
+    parameters: [
+      { key: 'condInit', label: 'Initial (µS)', lower: 0, upper: 1e5, sliderMin: 50, sliderMax: 500, initial: first },
+      { key: 'condFinal', label: 'Steady State (µS)', lower: 0, upper: 1e5, sliderMin: 0, sliderMax: 10, initial: last },
+      { key: 'condRate', label: 'k (1/min)', lower: 1e-6, upper: 5, sliderMin: 0.05, sliderMax: 0.5, initial: (_, v) => v.condRate },
+    ],
+    model: () => (p, t) => conductivityAt(p[0], p[1], p[2], t),
+  },
+  // Shell losses set both the heat-up delay and the boil-off rate
+  'flow:flowRate': {
+    parameters: [LOSS_PARAMETER],
+    model: (v) => (p, t) => boilerFlowRateAt({ ...boilerSpec(v), lossCoefficient: p[0] }, t),
+  },
+  'flow:totalVolume': {
+    parameters: [LOSS_PARAMETER],
+    model: (v) => (p, t) => boilerVolumeAt({ ...boilerSpec(v), lossCoefficient: p[0] }, t),
+  },
+};
+
+export const getFitSpec = (module: LogModule, seriesKey: string) => FIT_SPECS[`${module}:${seriesKey}`];
+
+const fmt = (n: number) => {
+  if (!Number.isFinite(n)) return '—';
+  const abs = Math.abs(n);
+  return abs !== 0 && (abs < 0.01 || abs >= 1e4) ? n.toExponential(2) : n.toFixed(abs < 1 ? 3 : 2);
+};
+
+interface FitPanelProps {
+  module: LogModule;
+  seriesKey: string;
+  measured: MeasuredPoint[];
+  values: FitValues;
+  onApply: (values: FitValues) => void;
+}
+
+// Least-squares estimate of the module's slider parameters from a measured run log
+const FitPanel: React.FC<FitPanelProps> = ({ module, seriesKey, measured, values, onApply }) => {
+  // Remember which data the result belongs to so a new log or mapping hides a stale fit
+  const [fit, setFit] = useState<{ source: MeasuredPoint[], seriesKey: string, result: FitResult | null } | null>(null);
+  const [applied, setApplied] = useState(false);
+
+  const spec = getFitSpec(module, seriesKey);
+  if (!spec || measured.length === 0) return null;
+
+  const current = fit && fit.source === measured && fit.seriesKey === seriesKey ? fit : null;
+  const result = current?.result;
+
+  const runFit = () => {
+    const parameters: FitParameter[] = spec.parameters.map(p => ({ ...p, initial: p.initial(measured, values) }));
+    setFit({ source: measured, seriesKey, result: fitLeastSquares(spec.model(values), measured, parameters) });
+    setApplied(false);
+  };
+
+  const outOfRange = result
+    ? spec.parameters.filter((p, i) => result.parameters[i].value < p.sliderMin || result.parameters[i].value > p.sliderMax)
+    : [];
+
+  const apply = () => {
+    if (!result) return;
+    const next: FitValues = {};
+    spec.parameters.forEach((p, i) => {
+      next[p.key] = Math.min(p.sliderMax, Math.max(p.sliderMin, result.parameters[i].value));
+    });
+    onApply(next);
+    setApplied(true);
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Parameter Fit</label>
+        <button
+          onClick={runFit}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-md bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-400 hover:bg-brand-100 dark:hover:bg-brand-900/50 transition-colors"
+        >
+          <Crosshair size={12} /> {current ? 'Refit' : 'Fit to log'}
+        </button>
+      </div>
+
+      {current && !result && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">Not enough measured points to estimate {spec.parameters.length} parameter{spec.parameters.length === 1 ? '' : 's'}.</p>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase text-slate-400 text-left">
+                <th className="font-bold pb-1">Parameter</th>
+                <th className="font-bold pb-1 text-right">Estimate</th>
+                <th className="font-bold pb-1 text-right">95% CI</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-700 dark:text-slate-200">
+              {result.parameters.map(p => (
+                <tr key={p.key}>
+                  <td className="py-0.5 font-sans text-slate-500 dark:text-slate-400">{p.label}</td>
+                  <td className="py-0.5 text-right">{fmt(p.value)}</td>
+                  <td className="py-0.5 text-right text-slate-500 dark:text-slate-400">
+                    {Number.isFinite(p.stdError) ? `${fmt(p.ciLow)} – ${fmt(p.ciHigh)}` : 'not identifiable'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex gap-4 text-xs text-slate-500 dark:text-slate-400">
+            <span>R² <span className="font-mono text-slate-700 dark:text-slate-200">{fmt(result.rSquared)}</span></span>
+            <span>RMSE <span className="font-mono text-slate-700 dark:text-slate-200">{fmt(result.rmse)}</span></span>
+            <span>n <span className="font-mono text-slate-700 dark:text-slate-200">{result.n}</span></span>
+          </div>
+
+          {(!result.converged || result.parameters.some(p => p.atBound)) && (
+            <p className="flex items-start gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+              <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+              {!result.converged ? 'The fit did not converge; treat the estimates with caution.' : 'An estimate sits on its physical bound, so its interval is unreliable.'}
+            </p>
+          )}
+          {outOfRange.length > 0 && (
+            <p className="flex items-start gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+              <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+              {outOfRange.map(p => p.label).join(', ')} outside the slider range; applying will clamp {outOfRange.length === 1 ? 'it' : 'them'}.
+            </p>
+          )}
+
+          <button
+            onClick={apply}
+            disabled={applied}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-xs font-semibold rounded-lg bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-60 disabled:cursor-default transition-colors"
+          >
+            {applied ? <><Check size={14} /> Applied to sliders</> : <><SlidersHorizontal size={14} /> Apply to sliders</>}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FitPanel;
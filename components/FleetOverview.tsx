@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Clock, Factory, MapPin, Pencil, Plus, Trash2, Wrench, X } from 'lucide-react';
+import { StillUnit } from '../types';
+import { formatDay, unitStatus } from '../utils/maintenance';
+import { loadCatalog } from '../utils/maintenanceCatalog';
+import { UnitPreferences, formatQuantity, fromDisplay, toDisplay, unitLabel } from '../utils/units';
+import { DEFAULT_UNIT, canRemoveUnit, createUnit } from '../utils/fleet';
+
+interface FleetOverviewProps {
+  fleet: StillUnit[];
+  activeUnitId: string;
+  units: UnitPreferences;
+  onSave: (unit: StillUnit) => void;
+  onRemove: (unitId: string) => void;
+  onOpenMaintenance: (unitId: string) => void;
+}
+
+type UnitDraft = Omit<StillUnit, 'id' | 'createdAt'> & { id: string | null, createdAt?: number };
+
+const inputClass = "w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-brand-500";
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-1";
+
+const NEW_UNIT: UnitDraft = { ...DEFAULT_UNIT, id: null, name: '' };
+
+// Registry of the team's stills with the maintenance standing of each
+const FleetOverview: React.FC<FleetOverviewProps> = ({ fleet, activeUnitId, units, onSave, onRemove, onOpenMaintenance }) => {
+  const [draft, setDraft] = useState<UnitDraft | null>(null);
+  const [now] = useState(() => Date.now());
+
+  // The catalog is shared by every unit; each unit's log decides what is overdue
+  const statuses = useMemo(() => {
+    const tasks = loadCatalog();
+    return new Map(fleet.map(u => [u.id, unitStatus(u, tasks, now)]));
+  }, [fleet, now]);
+  const attention = fleet.filter(u => statuses.get(u.id)!.overdueCritical.length > 0);
+
+  const volumeInput = (value: number) => Number(toDisplay('volume', value, units).toFixed(2));
+  const canSave = !!draft && draft.name.trim().length > 0 && draft.heaterPowerW > 0 && draft.boilerVolumeL > 0;
+
+  const handleSave = () => {
+    if (!draft || !canSave) return;
+    const fields = {
+      name: draft.name.trim(),
+      model: draft.model.trim(),
+      location: draft.location.trim(),
+      heaterPowerW: draft.heaterPowerW,
+      boilerVolumeL: draft.boilerVolumeL,
+    };
+    onSave(draft.id ? { ...fields, id: draft.id, createdAt: draft.createdAt ?? Date.now() } : createUnit(fields));
+    setDraft(null);
+  };
+
+  const handleRemove = (unit: StillUnit) => {
+    if (!canRemoveUnit(unit.id)) return;
+    if (window.confirm(`Remove ${unit.name}? Its maintenance log, operating runs, saved scenarios and chats are deleted.`)) onRemove(unit.id);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto bg-slate-50 dark:bg-slate-950 p-4 md:p-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="max-w-4xl mx-auto pb-10">
+        <header className="mb-10 flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Fleet Overview</h1>
+            <p className="text-slate-500 dark:text-slate-400">Every still your team operates and where maintenance is falling behind.</p>
+          </div>
+          <button
+            onClick={() => setDraft(NEW_UNIT)}
+            className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-full font-medium border bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            <Plus size={14} /> Add Unit
+          </button>
+        </header>
+
+        {attention.length > 0 && (
+          <div className="mb-6 flex items-start gap-3 p-4 rounded-2xl bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/40 text-sm text-red-700 dark:text-red-300">
+            <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+            <p>
+              <span className="font-semibold">{attention.length} of {fleet.length} units</span> have overdue critical tasks: {attention.map(u => u.name).join(', ')}.
+            </p>
+          </div>
+        )}
+
+        {draft && (
+          <div className="mb-6 p-6 bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold text-slate-700 dark:text-slate-200">{draft.id ? 'Edit Unit' : 'New Unit'}</h2>
+              <button onClick={() => setDraft(null)} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="Cancel">
+                <X size={16} />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input className={inputClass} value={draft.name} placeholder="e.g. Lab 2 Still" onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Model</label>
+                <input className={inputClass} value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Location</label>
+                <input className={inputClass} value={draft.location} onChange={(e) => setDraft({ ...draft, location: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Heater (W)</label>
+                  <input
+                    type="number" min={0} step={100} className={inputClass} value={draft.heaterPowerW}
+                    onChange={(e) => setDraft({ ...draft, heaterPowerW: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Boiler ({unitLabel('volume', units)})</label>
+                  <input
+                    type="number" min={0} step="any" className={inputClass} value={volumeInput(draft.boilerVolumeL)}
+                    onChange={(e) => setDraft({ ...draft, boilerVolumeL: fromDisplay('volume', Number(e.target.value), units) })}
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!canSave}
+                className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40 transition-colors"
+              >
+                Save Unit
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {fleet.map(unit => {
+            const status = statuses.get(unit.id)!;
+            const active = unit.id === activeUnitId;
+            return (
+              <div
+                key={unit.id}
+                className={`bg-white dark:bg-slate-800 p-6 rounded-2xl border shadow-sm flex flex-col gap-4 ${
+                  active ? 'border-brand-300 dark:border-brand-700' : 'border-slate-100 dark:border-slate-700'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-bold text-slate-800 dark:text-white">{unit.name}</h3>
+                      {active && <span className="text-[10px] font-bold px-2 py-0.5 rounded-full uppercase bg-brand-50 dark:bg-brand-900/20 text-brand-600 dark:text-brand-400">Selected</span>}
+                    </div>
+                    <p className="text-xs text-slate-400 mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                      {unit.model && <span className="flex items-center gap-1"><Factory size={11} /> {unit.model}</span>}
+                      {unit.location && <span className="flex items-center gap-1"><MapPin size={11} /> {unit.location}</span>}
+                      <span>{(unit.heaterPowerW / 1000).toFixed(1)} kW · {formatQuantity('volume', unit.boilerVolumeL, units, 1)}</span>
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => setDraft({ ...unit })}
+                      className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                      title="Edit unit"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(unit)}
+                      disabled={!canRemoveUnit(unit.id)}
+                      className="p-1.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:hover:text-slate-400 disabled:hover:bg-transparent transition-colors"
+                      title={!canRemoveUnit(unit.id) ? 'The first unit holds data saved before the fleet registry and cannot be removed' : 'Remove unit'}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+
+                {status.overdueCritical.length > 0 ? (
+                  <div className="text-sm text-red-600 dark:text-red-400">
+                    <p className="font-semibold flex items-center gap-1.5"><AlertTriangle size={14} /> {status.overdueCritical.length} critical overdue</p>
+                    <ul className="mt-1 text-xs list-disc list-inside">
+                      {status.overdueCritical.map(t => <li key={t.id}>{t.title}</li>)}
+                    </ul>
+                  </div>
+                ) : status.overdue > 0 || status.dueSoon > 0 ? (
+                  <p className="text-sm font-semibold text-amber-600 dark:text-amber-400 flex items-center gap-1.5">
+                    <Clock size={14} /> {[status.overdue > 0 && `${status.overdue} overdue`, status.dueSoon > 0 && `${status.dueSoon} due soon`].filter(Boolean).join(' · ')}
+                  </p>
+                ) : (
+                  <p className="text-sm font-semibold text-green-600 dark:text-green-400 flex items-center gap-1.5"><CheckCircle2 size={14} /> Up to date</p>
+                )}
+
+                <div className="mt-auto flex items-center justify-between text-xs text-slate-400">
+                  <span>{status.lastService !== null ? `Last service ${formatDay(status.lastService, now)}` : 'No service recorded'}</span>
+                  <button
+                    onClick={() => onOpenMaintenance(unit.id)}
+                    className="flex items-center gap-1.5 font-medium text-brand-600 dark:text-brand-400 hover:underline"
+                  >
+                    <Wrench size={12} /> Maintenance
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FleetOverview;
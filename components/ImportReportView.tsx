@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, XCircle } from 'lucide-react';
+import { ImportReport } from '../utils/dataImport';
+
+interface ImportReportViewProps {
+  fileName: string;
+  report: ImportReport;
+}
+
+const DELIMITER_LABELS: Record<string, string> = { ',': 'comma', ';': 'semicolon', '\t': 'tab', '|': 'pipe' };
+
+// Validation summary for an imported data file, with the rejected rows and columns on demand
+const ImportReportView: React.FC<ImportReportViewProps> = ({ fileName, report }) => {
+  const [expanded, setExpanded] = useState(false);
+  const issueCount = report.rejectedRows.length + report.rejectedColumns.length + report.warnings.length;
+  const failed = report.errors.length > 0;
+
+  return (
+    <div className={`text-xs rounded-lg border px-3 py-2 ${
+      failed
+        ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+        : issueCount > 0
+          ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300'
+          : 'bg-slate-100 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+    }`}>
+      <div className="flex items-center gap-2">
+        {failed ? <XCircle size={14} /> : issueCount > 0 ? <AlertTriangle size={14} /> : <CheckCircle2 size={14} className="text-green-500" />}
+        <span className="font-semibold truncate">{fileName}</span>
+        <span className="opacity-80 whitespace-nowrap">
+          {failed ? report.errors[0] : `${report.rowCount} rows · ${report.columns.length} columns`}
+        </span>
+        {issueCount > 0 && (
+          <button onClick={() => setExpanded(!expanded)} className="ml-auto flex items-center gap-1 font-semibold whitespace-nowrap">
+            {issueCount} issue{issueCount === 1 ? '' : 's'} {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          </button>
+        )}
+      </div>
+
+      {!failed && (
+        <p className="mt-1 opacity-70">
+          {report.format === 'json' ? 'JSON' : `${DELIMITER_LABELS[report.delimiter || ','] || report.delimiter}-delimited`}
+          {report.decimalSeparator === ',' && ' · decimal comma'}
+          {!report.hasHeader && ' · no header row'}
+          {report.columns.some(c => c.unit) && ` · units: ${report.columns.filter(c => c.unit).map(c => `${c.name} (${c.unit})`).join(', ')}`}
+        </p>
+      )}
+
+      {expanded && (
+        <ul className="mt-2 space-y-0.5 max-h-32 overflow-y-auto">
+          {report.rejectedColumns.map(c => <li key={`c-${c.name}`}>Column "{c.name}": {c.reason}</li>)}
+          {report.rejectedRows.map(r => <li key={`r-${r.line}`}>Line {r.line}: {r.reason}</li>)}
+          {report.warnings.map(w => <li key={w}>{w}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportReportView;
@@ -1,86 +1,123 @@
-import React, { useState, useEffect } from 'react';
-import { CheckCircle2, Circle, AlertTriangle, Calendar, Clock, ChevronRight, Save } from 'lucide-react';
-
-const TASKS = [
-  {
-    id: 1,
-    frequency: 'Daily',
-    title: 'Visual Leak Inspection',
-    desc: 'Inspect feed lines, cooling connections, and boiler drain for moisture.',
-    critical: true,
-  },
-  {
-    id: 2,
-    frequency: 'Daily',
-    title: 'Distillate Purity Check',
-    desc: 'Verify conductivity meter reads < 2.0 µS/cm.',
-    critical: false,
-  },
-  {
-    id: 3,
-    frequency: 'Weekly',
-    title: 'Boiler Blowdown',
-    desc: 'Drain boiler completely to remove concentrated sludge and mineral deposits.',
-    critical: true,
-  },
-  {
-    id: 4,
-    frequency: 'Weekly',
-    title: 'Vent Filter Inspection',
-    desc: 'Check the sterile air vent filter on the storage tank for blockage.',
-    critical: false,
-  },
-  {
-    id: 5,
-    frequency: 'Monthly',
-    title: 'Descaling Cycle',
-    desc: 'Perform acid wash using 10% Citric Acid solution. Soak for 4 hours.',
-    critical: true,
-  },
-  {
-    id: 6,
-    frequency: 'Monthly',
-    title: 'Gasket & Seal Check',
-    desc: 'Inspect silicone gaskets on the boiler head and condenser for brittleness.',
-    critical: false,
-  },
-  {
-    id: 7,
-    frequency: 'Quarterly',
-    title: 'Heater Element Testing',
-    desc: 'Measure resistance across heating elements to ensure even load distribution.',
-    critical: true,
+import React, { useState, useEffect, useMemo } from 'react';
+import { CheckCircle2, Circle, AlertTriangle, Calendar, Clock, ChevronRight, Save, Undo2, BookOpen, ListChecks } from 'lucide-react';
+import { MaintenanceInterval, MaintenanceTask, StillUnit } from '../types';
+import {
+  MaintenanceRecord, PERIOD_NAMES, READING_UNITS, SCHEDULE_GROUPS, ScheduleGroup, TaskSchedule, completionHistory, describeInterval,
+  formatDay, formatDueDate, latestCompletion, loadMaintenanceLog, loadOperator, periodCompliance, recordPassed, saveMaintenanceLog,
+  saveOperator, scheduleGroup, scheduleTask, withdrawalOf
+} from '../utils/maintenance';
+import { loadCatalog, saveCatalog } from '../utils/maintenanceCatalog';
+import { OperatingRun, loadRuns, saveRuns } from '../utils/usage';
+import CompletionForm from './CompletionForm';
+import MaintenanceLog from './MaintenanceLog';
+import RunLogger from './RunLogger';
+import TaskCatalogEditor from './TaskCatalogEditor';
+import { SOP_DATA } from './Procedures';
+
+const GROUP_COLORS: Record<ScheduleGroup, { icon: string, bar: string }> = {
+  Daily: { icon: 'bg-blue-100 text-blue-600', bar: 'bg-blue-500' },
+  Weekly: { icon: 'bg-purple-100 text-purple-600', bar: 'bg-purple-500' },
+  Monthly: { icon: 'bg-orange-100 text-orange-600', bar: 'bg-orange-500' },
+  Quarterly: { icon: 'bg-teal-100 text-teal-600', bar: 'bg-teal-500' },
+  Interval: { icon: 'bg-pink-100 text-pink-600', bar: 'bg-pink-500' },
+};
+
+const groupTitle = (group: ScheduleGroup) => group === 'Interval' ? 'Interval-Based' : group;
+
+// Re-evaluate due dates every minute so periods roll over while the page is open
+const CLOCK_INTERVAL_MS = 60 * 1000;
+
+const formatCompleted = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const StatusBadge = ({ schedule, interval, now }: { schedule: TaskSchedule, interval: MaintenanceInterval, now: number }) => {
+  if (schedule.usage) {
+    const { used, limit, unit } = schedule.usage;
+    const tone = schedule.status === 'overdue' ? 'font-semibold text-red-600 dark:text-red-400'
+      : schedule.status === 'dueSoon' ? 'font-semibold text-amber-600 dark:text-amber-400'
+      : schedule.doneThisPeriod ? 'text-green-600 dark:text-green-400' : 'text-slate-400';
+    return (
+      <span className={`text-xs ${tone}`}>
+        {used.toFixed(1)} / {limit} {unit} {schedule.lastCompleted !== null ? `since last done ${formatCompleted(schedule.lastCompleted)}` : 'logged, never done'}
+      </span>
+    );
   }
-];
+  if (schedule.dueAt === null) return null;
+  if (schedule.doneThisPeriod) {
+    return <span className="text-xs text-green-600 dark:text-green-400">Done {formatCompleted(schedule.lastCompleted!)} · next due {formatDueDate(schedule.dueAt, now)}</span>;
+  }
+  if (schedule.status === 'overdue') {
+    return (
+      <span className="text-xs font-semibold text-red-600 dark:text-red-400">
+        Overdue · last done {formatCompleted(schedule.lastCompleted!)}
+      </span>
+    );
+  }
+  return (
+    <span className={`text-xs ${schedule.status === 'dueSoon' ? 'font-semibold text-amber-600 dark:text-amber-400' : 'text-slate-400'}`}>
+      Due {interval.kind === 'calendar' ? formatDueDate(schedule.dueAt, now) : schedule.dueAt <= now ? 'now' : formatDay(schedule.dueAt, now)}{schedule.lastCompleted !== null ? ` · last done ${formatCompleted(schedule.lastCompleted)}` : ''}
+    </span>
+  );
+};
 
-const STORAGE_KEY = 'distillai_maintenance_checked';
+interface MaintenanceProps {
+  // The log belongs to this unit; the task catalog is shared by the fleet
+  still: StillUnit;
+  onOpenProcedure?: (sopId: string) => void;
+}
 
-const Maintenance: React.FC = () => {
+const Maintenance: React.FC<MaintenanceProps> = ({ still, onOpenProcedure }) => {
   // Initialize from local storage if available
-  const [checked, setChecked] = useState<number[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-      return [];
-    }
-  });
-
-  // Save to local storage whenever checked state changes
+  const [tasks, setTasks] = useState<MaintenanceTask[]>(loadCatalog);
+  const [isEditing, setIsEditing] = useState(false);
+  const [log, setLog] = useState<MaintenanceRecord[]>(() => loadMaintenanceLog(still.id));
+  const [runs, setRuns] = useState<OperatingRun[]>(() => loadRuns(still.id));
+  const [persisted, setPersisted] = useState(true);
+  const [operator, setOperator] = useState(loadOperator);
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(checked));
-  }, [checked]);
+    saveCatalog(tasks);
+  }, [tasks]);
 
-  const toggleCheck = (id: number) => {
-    setChecked(prev => 
-      prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]
-    );
+  // Save to local storage whenever a completion or withdrawal is appended
+  useEffect(() => {
+    setPersisted(saveMaintenanceLog(log, still.id));
+  }, [log, still.id]);
+
+  useEffect(() => {
+    saveRuns(runs, still.id);
+  }, [runs, still.id]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const completions = useMemo(() => completionHistory(log), [log]);
+  const activeTasks = tasks.filter(t => !t.retired);
+  const schedules = new Map(activeTasks.map(t => [t.id, scheduleTask(t, completions, now, runs, still.createdAt)]));
+  const compliance = periodCompliance(tasks, completions, now, runs, still.createdAt);
+  const overdueCount = compliance.reduce((sum, c) => sum + c.overdue, 0);
+
+  const toggleOpen = (id: string) => setOpenTaskId(prev => prev === id ? null : id);
+
+  const signOff = (record: MaintenanceRecord) => {
+    setLog(prev => [...prev, record]);
+    setOperator(record.operator);
+    saveOperator(record.operator);
+    setNow(Date.now());
+    setOpenTaskId(null);
   };
 
-  const getProgress = (freq: string) => {
-    const total = TASKS.filter(t => t.frequency === freq).length;
-    const completed = TASKS.filter(t => t.frequency === freq && checked.includes(t.id)).length;
-    return total === 0 ? 0 : (completed / total) * 100;
+  // Withdrawals are appended too, so a mistaken sign-off stays visible in the history
+  const withdraw = (record: MaintenanceRecord) => {
+    const reason = window.prompt('Reason for withdrawing this completion?', 'Signed off by mistake');
+    if (reason === null) return;
+    const by = operator || window.prompt('Operator name') || '';
+    setLog(prev => [...prev, withdrawalOf(record, by, reason.trim())]);
+    setNow(Date.now());
   };
 
   return (
@@ -89,32 +126,60 @@ const Maintenance: React.FC = () => {
         <header className="mb-10 flex justify-between items-end">
           <div>
             <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Maintenance Hub</h1>
-            <p className="text-slate-500 dark:text-slate-400">Track and manage critical service tasks for your distillation unit.</p>
+            <p className="text-slate-500 dark:text-slate-400">Track and manage critical service tasks for {still.name}.</p>
           </div>
-          <div className="hidden md:flex items-center gap-2 text-xs text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 px-3 py-1.5 rounded-full font-medium">
-             <Save size={14} /> Autosave Active
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsEditing(v => !v)}
+              className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded-full font-medium border transition-colors ${
+                isEditing
+                ? 'bg-brand-50 dark:bg-brand-900/20 border-brand-200 dark:border-brand-700 text-brand-600 dark:text-brand-400'
+                : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }`}
+            >
+              <ListChecks size={14} /> Edit Tasks
+            </button>
+            {overdueCount > 0 && (
+              <div className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-3 py-1.5 rounded-full font-medium">
+                <AlertTriangle size={14} /> {overdueCount} Overdue
+              </div>
+            )}
+            {persisted ? (
+              <div className="hidden md:flex items-center gap-2 text-xs text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 px-3 py-1.5 rounded-full font-medium">
+                 <Save size={14} /> Autosave Active
+              </div>
+            ) : (
+              <div className="hidden md:flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-3 py-1.5 rounded-full font-medium" title="Browser storage is full, usually from photos. New entries are kept until the page is closed.">
+                 <AlertTriangle size={14} /> Not Saved
+              </div>
+            )}
           </div>
         </header>
 
+        {isEditing && <TaskCatalogEditor tasks={tasks} onChange={setTasks} onClose={() => setIsEditing(false)} />}
+
         {/* Status Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-10">
-          {['Daily', 'Weekly', 'Monthly'].map((freq) => (
-            <div key={freq} className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-100 dark:border-slate-700 shadow-sm relative overflow-hidden transition-all hover:shadow-md">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-10">
+          {compliance.filter(c => c.total > 0).map(({ group, total, done, overdue, resetsAt }) => (
+            <div key={group} className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-100 dark:border-slate-700 shadow-sm relative overflow-hidden transition-all hover:shadow-md">
                <div className="flex justify-between items-start mb-4">
                  <div>
-                    <h3 className="font-bold text-slate-700 dark:text-slate-200">{freq} Tasks</h3>
+                    <h3 className="font-bold text-slate-700 dark:text-slate-200">{groupTitle(group)} Tasks</h3>
                     <p className="text-xs text-slate-400 mt-1">
-                      {TASKS.filter(t => t.frequency === freq && checked.includes(t.id)).length} / {TASKS.filter(t => t.frequency === freq).length} Completed
+                      {done} / {total} {group === 'Interval' ? 'up to date' : `done ${PERIOD_NAMES[group]}`}
+                    </p>
+                    <p className={`text-xs mt-0.5 ${overdue > 0 ? 'font-semibold text-red-600 dark:text-red-400' : 'text-slate-400'}`}>
+                      {overdue > 0 ? `${overdue} overdue` : resetsAt !== null ? `Resets ${formatDay(resetsAt, now)}` : 'Due from last completion'}
                     </p>
                  </div>
-                 <div className={`p-2 rounded-lg ${freq === 'Daily' ? 'bg-blue-100 text-blue-600' : freq === 'Weekly' ? 'bg-purple-100 text-purple-600' : 'bg-orange-100 text-orange-600'}`}>
+                 <div className={`p-2 rounded-lg ${GROUP_COLORS[group].icon}`}>
                     <Calendar size={18} />
                  </div>
                </div>
                <div className="w-full bg-slate-100 dark:bg-slate-700 h-1.5 rounded-full overflow-hidden">
                  <div 
-                   className={`h-full rounded-full transition-all duration-500 ${freq === 'Daily' ? 'bg-blue-500' : freq === 'Weekly' ? 'bg-purple-500' : 'bg-orange-500'}`} 
-                   style={{ width: `${getProgress(freq)}%` }}
+                   className={`h-full rounded-full transition-all duration-500 ${GROUP_COLORS[group].bar}`} 
+                   style={{ width: `${(done / total) * 100}%` }}
                  ></div>
                </div>
             </div>
@@ -123,29 +188,34 @@ const Maintenance: React.FC = () => {
 
         {/* Checklist */}
         <div className="space-y-8">
-          {['Daily', 'Weekly', 'Monthly', 'Quarterly'].map((section) => {
-            const sectionTasks = TASKS.filter(t => t.frequency === section);
+          {SCHEDULE_GROUPS.map((section) => {
+            const sectionTasks = activeTasks.filter(t => scheduleGroup(t) === section);
             if (sectionTasks.length === 0) return null;
 
             return (
               <div key={section} className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 overflow-hidden shadow-sm">
                 <div className="bg-slate-50 dark:bg-slate-800/50 px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center gap-2">
                    <Clock size={16} className="text-slate-400" />
-                   <h2 className="font-semibold text-slate-700 dark:text-slate-200 uppercase tracking-wide text-sm">{section} Protocol</h2>
+                   <h2 className="font-semibold text-slate-700 dark:text-slate-200 uppercase tracking-wide text-sm">{groupTitle(section)} Protocol</h2>
                 </div>
                 <div className="divide-y divide-slate-100 dark:divide-slate-700">
-                  {sectionTasks.map(task => (
+                  {sectionTasks.map(task => {
+                    const schedule = schedules.get(task.id)!;
+                    const done = schedule.doneThisPeriod;
+                    const latest = done ? latestCompletion(log, task.id) : null;
+                    const open = openTaskId === task.id;
+                    return (
                     <div 
                       key={task.id} 
-                      onClick={() => toggleCheck(task.id)}
+                      onClick={() => toggleOpen(task.id)}
                       className="p-6 flex items-start gap-4 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors group"
                     >
-                       <div className={`mt-1 transition-colors ${checked.includes(task.id) ? 'text-green-500' : 'text-slate-300 dark:text-slate-600 group-hover:text-slate-400'}`}>
-                          {checked.includes(task.id) ? <CheckCircle2 size={24} className="fill-current" /> : <Circle size={24} />}
+                       <div className={`mt-1 transition-colors ${done ? 'text-green-500' : 'text-slate-300 dark:text-slate-600 group-hover:text-slate-400'}`}>
+                          {done ? <CheckCircle2 size={24} className="fill-current" /> : <Circle size={24} />}
                        </div>
                        <div className="flex-1">
                           <div className="flex items-center gap-2 mb-1">
-                            <h3 className={`font-semibold text-lg transition-all ${checked.includes(task.id) ? 'text-slate-400 line-through' : 'text-slate-800 dark:text-white'}`}>
+                            <h3 className={`font-semibold text-lg transition-all ${done ? 'text-slate-400 line-through' : 'text-slate-800 dark:text-white'}`}>
                               {task.title}
                             </h3>
                             {task.critical && (
@@ -154,17 +224,70 @@ const Maintenance: React.FC = () => {
                               </span>
                             )}
                           </div>
-                          <p className={`text-sm leading-relaxed ${checked.includes(task.id) ? 'text-slate-400' : 'text-slate-600 dark:text-slate-300'}`}>
+                          <p className={`text-sm leading-relaxed ${done ? 'text-slate-400' : 'text-slate-600 dark:text-slate-300'}`}>
                             {task.desc}
                           </p>
+                          {task.interval.kind !== 'calendar' && (
+                            <p className="text-xs text-slate-400 mt-1">{describeInterval(task.interval)}</p>
+                          )}
+                          <div className="mt-2 flex flex-wrap items-center gap-2">
+                            <StatusBadge schedule={schedule} interval={task.interval} now={now} />
+                            {latest && !recordPassed(latest) && (
+                              <span className="bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase">
+                                Out of Limits
+                              </span>
+                            )}
+                            {onOpenProcedure && (task.sopIds ?? []).map(sopId => {
+                              const sop = SOP_DATA.find(s => s.id === sopId);
+                              if (!sop) return null;
+                              return (
+                                <button
+                                  key={sopId}
+                                  onClick={(e) => { e.stopPropagation(); onOpenProcedure(sopId); }}
+                                  className="flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full bg-brand-50 dark:bg-brand-900/20 text-brand-600 dark:text-brand-400 hover:bg-brand-100 dark:hover:bg-brand-900/40 transition-colors"
+                                  title="Open procedure"
+                                >
+                                  <BookOpen size={10} /> {sop.title}
+                                </button>
+                              );
+                            })}
+                          </div>
+                          {open && !done && (
+                            <CompletionForm task={task} defaultOperator={operator} onSubmit={signOff} onCancel={() => setOpenTaskId(null)} />
+                          )}
+                          {open && latest && (
+                            <div className="mt-4 p-4 rounded-xl bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 text-sm text-slate-600 dark:text-slate-300" onClick={(e) => e.stopPropagation()}>
+                              <p>Signed off by <span className="font-semibold">{latest.operator || 'unknown operator'}</span> at {formatCompleted(latest.recordedAt)}.</p>
+                              {latest.readings.map(r => (
+                                <p key={r.key} className={`font-mono text-xs mt-1 ${r.pass ? '' : 'text-red-600 dark:text-red-400'}`}>{r.label}: {r.value} {READING_UNITS[r.kind]}</p>
+                              ))}
+                              {latest.notes && <p className="mt-1 text-xs whitespace-pre-wrap">{latest.notes}</p>}
+                              <button
+                                onClick={() => withdraw(latest)}
+                                className="mt-3 flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-red-500 transition-colors"
+                              >
+                                <Undo2 size={12} /> Withdraw completion
+                              </button>
+                            </div>
+                          )}
                        </div>
-                       <ChevronRight size={18} className="text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity" />
+                       <ChevronRight size={18} className={`text-slate-300 transition-all ${open ? 'rotate-90 opacity-100' : 'opacity-0 group-hover:opacity-100'}`} />
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             );
           })}
+
+          <RunLogger
+            still={still}
+            runs={runs}
+            onAdd={(run) => setRuns(prev => [...prev, run])}
+            onRemove={(runId) => setRuns(prev => prev.filter(r => r.id !== runId))}
+          />
+
+          <MaintenanceLog log={log} tasks={tasks} />
         </div>
       </div>
     </div>
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { History, Image as ImageIcon, Undo2 } from 'lucide-react';
+import { MaintenanceTask } from '../types';
+import { MaintenanceRecord, READING_UNITS, formatLimits, recordPassed, withdrawnIds } from '../utils/maintenance';
+
+interface MaintenanceLogProps {
+  log: MaintenanceRecord[];
+  tasks: MaintenanceTask[];
+}
+
+type ResultFilter = 'all' | 'failed' | 'withdrawn';
+
+const selectClass = "px-2 py-1.5 text-xs rounded-lg bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-brand-500";
+
+const formatRecorded = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Read-only audit trail of every completion and withdrawal, newest first
+const MaintenanceLog: React.FC<MaintenanceLogProps> = ({ log, tasks }) => {
+  const [taskFilter, setTaskFilter] = useState<string>('all');
+  const [resultFilter, setResultFilter] = useState<ResultFilter>('all');
+  const [operatorFilter, setOperatorFilter] = useState('');
+  const [openPhoto, setOpenPhoto] = useState<string | null>(null);
+
+  const withdrawn = withdrawnIds(log);
+  const byId = new Map(log.map(r => [r.id, r]));
+  const titleOf = (record: MaintenanceRecord) => tasks.find(t => t.id === record.taskId)?.title || record.taskTitle || `Task ${record.taskId}`;
+
+  const entries = log
+    .filter(r => taskFilter === 'all' || r.taskId === taskFilter)
+    .filter(r => !operatorFilter.trim() || r.operator.toLowerCase().includes(operatorFilter.trim().toLowerCase()))
+    .filter(r => resultFilter === 'all'
+      || (resultFilter === 'failed' && !r.withdraws && !recordPassed(r))
+      || (resultFilter === 'withdrawn' && (!!r.withdraws || withdrawn.has(r.id))))
+    .sort((a, b) => b.recordedAt - a.recordedAt);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 overflow-hidden shadow-sm">
+      <div className="bg-slate-50 dark:bg-slate-800/50 px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex flex-wrap items-center gap-3">
+        <History size={16} className="text-slate-400" />
+        <h2 className="font-semibold text-slate-700 dark:text-slate-200 uppercase tracking-wide text-sm mr-auto">Service History</h2>
+        <select className={selectClass} value={taskFilter} onChange={(e) => setTaskFilter(e.target.value)}>
+          <option value="all">All tasks</option>
+          {tasks.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+        </select>
+        <select className={selectClass} value={resultFilter} onChange={(e) => setResultFilter(e.target.value as ResultFilter)}>
+          <option value="all">All entries</option>
+          <option value="failed">Failed readings</option>
+          <option value="withdrawn">Withdrawn</option>
+        </select>
+        <input className={`${selectClass} w-32`} value={operatorFilter} placeholder="Operator" onChange={(e) => setOperatorFilter(e.target.value)} />
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-center text-slate-400">{log.length === 0 ? 'No completions recorded yet.' : 'No entries match these filters.'}</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {entries.map(record => {
+            const target = record.withdraws ? byId.get(record.withdraws) : undefined;
+            const isWithdrawn = withdrawn.has(record.id);
+            return (
+              <li key={record.id} className="px-6 py-4">
+                <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                  <span className={`font-semibold text-sm ${isWithdrawn ? 'text-slate-400 line-through' : 'text-slate-800 dark:text-white'}`}>{titleOf(record)}</span>
+                  {record.withdraws && (
+                    <span className="flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-300">
+                      <Undo2 size={10} /> Withdrawal
+                    </span>
+                  )}
+                  {isWithdrawn && <span className="text-[10px] font-bold uppercase text-slate-400">Withdrawn</span>}
+                  {!record.withdraws && record.readings.length > 0 && (
+                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase ${recordPassed(record) ? 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400' : 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400'}`}>
+                      {recordPassed(record) ? 'Pass' : 'Fail'}
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-slate-400">{formatRecorded(record.recordedAt)} · {record.operator || 'Unknown operator'}</span>
+                </div>
+
+                {target && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Withdrew the completion signed off {formatRecorded(target.recordedAt)}{target.operator ? ` by ${target.operator}` : ''}.</p>}
+
+                {record.readings.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {record.readings.map(r => (
+                      <span
+                        key={r.key}
+                        title={`Limit ${formatLimits(r)}`}
+                        className={`text-xs font-mono px-2 py-0.5 rounded-md border ${r.pass ? 'border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300' : 'border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20'}`}
+                      >
+                        {r.label}: {r.value} {READING_UNITS[r.kind]}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {record.notes && <p className="mt-2 text-sm text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{record.notes}</p>}
+
+                {record.photo && (
+                  <button
+                    onClick={() => setOpenPhoto(openPhoto === record.id ? null : record.id)}
+                    className="mt-2 flex items-center gap-1.5 text-xs text-brand-600 dark:text-brand-400 hover:underline"
+                  >
+                    <ImageIcon size={12} /> {openPhoto === record.id ? 'Hide photo' : 'Show photo'}
+                  </button>
+                )}
+                {record.photo && openPhoto === record.id && (
+                  <img src={record.photo} alt={`${titleOf(record)} photo`} className="mt-2 max-h-80 rounded-lg border border-slate-200 dark:border-slate-700" />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceLog;
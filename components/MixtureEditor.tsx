@@ -0,0 +1,79 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { AntoineParams } from '../types';
+
+export interface MixtureEntry {
+  name: string;         // Substance name in the library
+  z: number;            // Relative amount; normalized by the flash engine
+}
+
+interface MixtureEditorProps {
+  substances: AntoineParams[];
+  mixture: MixtureEntry[];
+  onChange: (mixture: MixtureEntry[]) => void;
+}
+
+const MAX_COMPONENTS = 8;
+
+const inputClass = "px-2 py-1.5 text-xs rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-teal-500";
+
+// Feed components and mole fractions for the multicomponent flash
+const MixtureEditor: React.FC<MixtureEditorProps> = ({ substances, mixture, onChange }) => {
+  const total = mixture.reduce((s, c) => s + Math.max(0, c.z), 0);
+  const unused = substances.filter(s => !mixture.some(c => c.name === s.name));
+
+  const update = (index: number, patch: Partial<MixtureEntry>) =>
+    onChange(mixture.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Feed Mixture</label>
+        <span className={`text-[11px] font-mono ${Math.abs(total - 1) < 1e-6 ? 'text-slate-400' : 'text-amber-600 dark:text-amber-400'}`}>
+          Σz = {total.toFixed(3)}{Math.abs(total - 1) < 1e-6 ? '' : ' (normalized)'}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {mixture.map((c, i) => (
+          <div key={c.name} className="flex items-center gap-2">
+            <select className={`${inputClass} flex-1 min-w-0`} value={c.name} onChange={(e) => update(i, { name: e.target.value })}>
+              <option value={c.name}>{c.name}</option>
+              {unused.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              className={`${inputClass} w-20 font-mono`}
+              value={c.z}
+              onChange={(e) => update(i, { z: Math.max(0, parseFloat(e.target.value) || 0) })}
+            />
+            <span className="w-12 text-right text-[11px] font-mono text-slate-400">
+              {total > 0 ? `${(Math.max(0, c.z) / total * 100).toFixed(0)}%` : '—'}
+            </span>
+            <button
+              onClick={() => onChange(mixture.filter((_, j) => j !== i))}
+              disabled={mixture.length <= 1}
+              className="text-slate-400 hover:text-red-500 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+              title="Remove component"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {mixture.length < MAX_COMPONENTS && unused.length > 0 && (
+        <button
+          onClick={() => onChange([...mixture, { name: unused[0].name, z: 0.1 }])}
+          className="mt-2 flex items-center gap-1.5 text-xs font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-700"
+        >
+          <Plus size={12} /> Add component
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MixtureEditor;
@@ -1,19 +1,24 @@
 import React from 'react';
-import { Activity, Wrench, ClipboardList, Droplets, Sun, Moon } from 'lucide-react';
-import { AppView } from '../types';
+import { Activity, Wrench, ClipboardList, Droplets, Sun, Moon, MessageSquare, Factory } from 'lucide-react';
+import { AppView, StillUnit } from '../types';
 
 interface NavigationProps {
   currentView: AppView;
   setView: (view: AppView) => void;
   isDarkMode: boolean;
   toggleTheme: () => void;
+  fleet: StillUnit[];
+  activeUnitId: string;
+  onSelectUnit: (unitId: string) => void;
 }
 
-const Navigation: React.FC<NavigationProps> = ({ currentView, setView, isDarkMode, toggleTheme }) => {
+const Navigation: React.FC<NavigationProps> = ({ currentView, setView, isDarkMode, toggleTheme, fleet, activeUnitId, onSelectUnit }) => {
   const navItems = [
     { id: AppView.CALCULATOR, label: 'Analytics & Graphs', icon: Activity },
     { id: AppView.MAINTENANCE, label: 'Maintenance Hub', icon: Wrench },
     { id: AppView.PROCEDURES, label: 'SOP Procedures', icon: ClipboardList },
+    { id: AppView.CHAT, label: 'AI Expert Chat', icon: MessageSquare },
+    { id: AppView.FLEET, label: 'Fleet Overview', icon: Factory },
   ];
 
   return (
@@ -27,6 +32,20 @@ const Navigation: React.FC<NavigationProps> = ({ currentView, setView, isDarkMod
         <span className="ml-3 font-bold text-lg text-slate-800 dark:text-white hidden lg:block">DistillAI</span>
       </div>
 
+      {/* Unit Selector */}
+      <div className="hidden lg:block px-4 pt-6">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide block mb-1">Active Unit</label>
+        <select
+          value={activeUnitId}
+          onChange={(e) => onSelectUnit(e.target.value)}
+          className="w-full px-3 py-2 text-sm rounded-lg bg-slate-50 dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-500"
+        >
+          {fleet.map(unit => (
+            <option key={unit.id} value={unit.id}>{unit.name}{unit.location ? ` · ${unit.location}` : ''}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Nav Items */}
       <div className="flex-1 py-6 flex flex-col gap-2 px-2 lg:px-4">
         {navItems.map((item) => (
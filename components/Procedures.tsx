@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Play, BookOpen, AlertOctagon, Check, ArrowRight, Power, ThermometerSnowflake, Droplets } from 'lucide-react';
 
-const SOP_DATA = [
+export const SOP_DATA = [
   {
     id: 'startup',
     title: 'System Startup',
@@ -45,8 +45,14 @@ const SOP_DATA = [
   }
 ];
 
-const Procedures: React.FC = () => {
-  const [activeProcedure, setActiveProcedure] = useState<string | null>(null);
+interface ProceduresProps {
+  initialProcedure?: string | null;   // Opened straight away, e.g. from a maintenance task link
+}
+
+const Procedures: React.FC<ProceduresProps> = ({ initialProcedure = null }) => {
+  const [activeProcedure, setActiveProcedure] = useState<string | null>(() =>
+    SOP_DATA.some(s => s.id === initialProcedure) ? initialProcedure : null
+  );
   const [currentStep, setCurrentStep] = useState(0);
 
   const selectedSop = SOP_DATA.find(s => s.id === activeProcedure);
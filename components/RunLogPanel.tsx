@@ -0,0 +1,122 @@
+import React, { useRef } from 'react';
+import { Upload, X } from 'lucide-react';
+import { importDataFile } from '../utils/dataImport';
+import { LogModule, MODULE_SERIES, RunLog, findUnit, guessMapping, seriesFor, timeScaleForUnit } from '../utils/runLog';
+import ImportReportView from './ImportReportView';
+
+interface RunLogPanelProps {
+  module: LogModule;
+  runLog: RunLog | null;
+  onChange: (runLog: RunLog | null) => void;
+}
+
+const TIME_UNITS = [
+  { label: 'seconds', scale: 1 / 60 },
+  { label: 'minutes', scale: 1 },
+  { label: 'hours', scale: 60 },
+];
+
+const selectClass = "w-full px-2 py-1.5 text-xs rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-brand-500";
+
+// Upload a measured run log and map its columns onto the module's time axis and model series
+const RunLogPanel: React.FC<RunLogPanelProps> = ({ module, runLog, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { rows, report } = await importDataFile(file);
+    onChange({ fileName: file.name, rows, report, mapping: guessMapping(module, report.columns) });
+  };
+
+  const numericColumns = runLog?.report.columns.filter(c => c.type === 'number') || [];
+  const mapping = runLog?.mapping;
+
+  const updateMapping = (patch: Partial<NonNullable<RunLog['mapping']>>) => {
+    if (!runLog || !mapping) return;
+    const next = { ...mapping, ...patch };
+    // A new time column brings its own unit
+    if (patch.xColumn) next.timeScale = timeScaleForUnit(runLog.report.columns.find(c => c.key === patch.xColumn)?.unit);
+    // A new measured column or series is re-read from its header; the user picks when it names no known unit
+    if (patch.yColumn || patch.seriesKey) {
+      next.yUnit = findUnit(seriesFor(module, next.seriesKey).units, runLog.report.columns.find(c => c.key === next.yColumn)?.unit)?.label ?? null;
+    }
+    onChange({ ...runLog, mapping: next });
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Measured Run Log</label>
+        {runLog && (
+          <button onClick={() => onChange(null)} className="text-slate-400 hover:text-red-500 transition-colors" title="Remove log">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,.json" className="hidden" onChange={handleFile} />
+
+      {!runLog ? (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 px-3 py-3 text-xs font-medium text-slate-500 dark:text-slate-400 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-lg hover:border-brand-300 dark:hover:border-brand-700 hover:text-brand-600 transition-colors"
+        >
+          <Upload size={14} /> Import CSV / JSON log to overlay
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <ImportReportView fileName={runLog.fileName} report={runLog.report} />
+
+          {!mapping && runLog.report.errors.length === 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">The log needs at least two numeric columns (time and a measurement).</p>
+          )}
+
+          {mapping && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-[10px] uppercase font-bold text-slate-400">Time column</span>
+                <select className={selectClass} value={mapping.xColumn} onChange={(e) => updateMapping({ xColumn: e.target.value })}>
+                  {numericColumns.map(c => <option key={c.key} value={c.key}>{c.key}</option>)}
+                </select>
+              </div>
+              <div>
+                <span className="text-[10px] uppercase font-bold text-slate-400">Time unit</span>
+                <select className={selectClass} value={mapping.timeScale} onChange={(e) => updateMapping({ timeScale: Number(e.target.value) })}>
+                  {TIME_UNITS.map(u => <option key={u.label} value={u.scale}>{u.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <span className="text-[10px] uppercase font-bold text-slate-400">Measured column</span>
+                <select className={selectClass} value={mapping.yColumn} onChange={(e) => updateMapping({ yColumn: e.target.value })}>
+                  {numericColumns.filter(c => c.key !== mapping.xColumn).map(c => <option key={c.key} value={c.key}>{c.key}</option>)}
+                </select>
+              </div>
+              <div>
+                <span className="text-[10px] uppercase font-bold text-slate-400">Compare to</span>
+                <select className={selectClass} value={mapping.seriesKey} onChange={(e) => updateMapping({ seriesKey: e.target.value })}>
+                  {MODULE_SERIES[module].map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <span className="text-[10px] uppercase font-bold text-slate-400">Measured unit</span>
+                <select className={selectClass} value={mapping.yUnit ?? ''} onChange={(e) => updateMapping({ yUnit: e.target.value || null })}>
+                  <option value="">Select unit…</option>
+                  {seriesFor(module, mapping.seriesKey).units.map(u => <option key={u.label} value={u.label}>{u.label}</option>)}
+                </select>
+              </div>
+              {mapping.yUnit === null && (
+                <p className="col-span-2 text-xs text-amber-600 dark:text-amber-400">
+                  The column header names no unit this series can use. Choose the unit the values are recorded in to overlay them.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunLogPanel;
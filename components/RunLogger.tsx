@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { Activity, Gauge, Plus, Trash2, Upload } from 'lucide-react';
+import { StillUnit } from '../types';
+import { importDataFile } from '../utils/dataImport';
+import { OperatingRun, RunSource, modelRun, runFromLog, usageSince } from '../utils/usage';
+
+interface RunLoggerProps {
+  still: StillUnit;
+  runs: OperatingRun[];
+  onAdd: (run: OperatingRun) => void;
+  onRemove: (runId: string) => void;
+}
+
+interface RunDraft {
+  startedAt: string;        // datetime-local value
+  durationMin: string;
+  energyKWh: string;
+  liters: string;
+  notes: string;
+  source: RunSource;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-brand-500";
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-1";
+const buttonClass = "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-40 transition-colors";
+
+const SOURCE_LABELS: Record<RunSource, string> = { model: 'Model estimate', import: 'Imported log', manual: 'Entered by hand' };
+
+const RECENT_RUNS = 10;
+
+const toLocalInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const formatStarted = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const emptyDraft = (): RunDraft => ({ startedAt: toLocalInput(Date.now()), durationMin: '', energyKWh: '', liters: '', notes: '', source: 'manual' });
+
+// Logs each run's heater time, energy and distillate; the totals drive usage-based tasks
+const RunLogger: React.FC<RunLoggerProps> = ({ still, runs, onAdd, onRemove }) => {
+  const [draft, setDraft] = useState<RunDraft>(emptyDraft);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const totals = usageSince(runs, null);
+  const recent = [...runs].sort((a, b) => b.startedAt - a.startedAt).slice(0, RECENT_RUNS);
+
+  const number = (text: string) => text.trim() === '' ? NaN : Number(text);
+  const duration = number(draft.durationMin);
+  const startedAt = new Date(draft.startedAt).getTime();
+  const values = [duration, number(draft.energyKWh), number(draft.liters)];
+  const canAdd = Number.isFinite(startedAt) && values.every(v => Number.isFinite(v) && v >= 0) && duration > 0;
+
+  // Typing over a pre-filled figure makes the run a manual entry
+  const update = (patch: Partial<RunDraft>) => setDraft(prev => ({ ...prev, source: 'manual', ...patch }));
+
+  const estimate = () => {
+    const { energyKWh, liters } = modelRun(still, duration);
+    update({ energyKWh: energyKWh.toFixed(2), liters: liters.toFixed(2), source: 'model' });
+    setNotice(`Estimated for ${still.name}: ${(still.heaterPowerW / 1000).toFixed(1)} kW heater, ${still.boilerVolumeL} L charge of water.`);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { rows, report } = await importDataFile(file);
+    if (report.errors.length > 0) {
+      setNotice(report.errors[0]);
+      return;
+    }
+    const { run, errors } = runFromLog(rows, report);
+    if (run.durationMin === undefined) {
+      setNotice(errors[0]);
+      return;
+    }
+    update({
+      durationMin: run.durationMin.toFixed(0),
+      ...(run.energyKWh !== undefined ? { energyKWh: run.energyKWh.toFixed(2) } : {}),
+      ...(run.liters !== undefined ? { liters: run.liters.toFixed(2) } : {}),
+      notes: draft.notes || file.name,
+      source: 'import',
+    });
+    setNotice(errors[0] ?? `Filled from ${file.name}.`);
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({
+      id: crypto.randomUUID(),
+      startedAt,
+      durationMin: duration,
+      energyKWh: number(draft.energyKWh),
+      liters: number(draft.liters),
+      source: draft.source,
+      ...(draft.notes.trim() ? { notes: draft.notes.trim() } : {}),
+    });
+    setDraft(emptyDraft());
+    setNotice(null);
+  };
+
+  const handleRemove = (run: OperatingRun) => {
+    if (window.confirm(`Remove the run started ${formatStarted(run.startedAt)}? Usage counters are recalculated.`)) onRemove(run.id);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 overflow-hidden shadow-sm">
+      <div className="bg-slate-50 dark:bg-slate-800/50 px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center gap-2">
+        <Gauge size={16} className="text-slate-400" />
+        <h2 className="font-semibold text-slate-700 dark:text-slate-200 uppercase tracking-wide text-sm">Operating Runs</h2>
+      </div>
+
+      {/* Counters */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 divide-x divide-slate-100 dark:divide-slate-700 border-b border-slate-100 dark:border-slate-700">
+        {[
+          { label: 'Heater-Hours', value: totals.heaterHours.toFixed(1) },
+          { label: 'Liters Produced', value: totals.liters.toFixed(1) },
+          { label: 'Energy (kWh)', value: totals.energyKWh.toFixed(1) },
+          { label: 'Runs', value: String(totals.runs) },
+        ].map(c => (
+          <div key={c.label} className="px-6 py-4">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">{c.label}</p>
+            <p className="text-xl font-bold text-slate-800 dark:text-white font-mono">{c.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* New run */}
+      <div className="p-6 space-y-4 border-b border-slate-100 dark:border-slate-700">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="col-span-2 md:col-span-1">
+            <label className={labelClass}>Started</label>
+            <input type="datetime-local" className={inputClass} value={draft.startedAt} onChange={(e) => setDraft(prev => ({ ...prev, startedAt: e.target.value }))} />
+          </div>
+          <div>
+            <label className={labelClass}>Duration (min)</label>
+            <input type="number" min={0} step="any" className={inputClass} value={draft.durationMin} onChange={(e) => update({ durationMin: e.target.value })} />
+          </div>
+          <div>
+            <label className={labelClass}>Energy (kWh)</label>
+            <input type="number" min={0} step="any" className={inputClass} value={draft.energyKWh} onChange={(e) => update({ energyKWh: e.target.value })} />
+          </div>
+          <div>
+            <label className={labelClass}>Distillate (L)</label>
+            <input type="number" min={0} step="any" className={inputClass} value={draft.liters} onChange={(e) => update({ liters: e.target.value })} />
+          </div>
+        </div>
+        <input className={inputClass} value={draft.notes} placeholder="Notes (optional)" onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))} />
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={estimate} disabled={!(duration > 0)} className={buttonClass} title="Pre-fill energy and distillate from the Flow and Power models">
+            <Activity size={14} /> Estimate from Model
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,.json" className="hidden" onChange={handleFile} />
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            <Upload size={14} /> Import Log
+          </button>
+          {notice && <span className="text-xs text-slate-400">{notice}</span>}
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40 transition-colors"
+          >
+            <Plus size={14} /> Log Run
+          </button>
+        </div>
+      </div>
+
+      {recent.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-center text-slate-400">No runs logged yet. Usage-based tasks count from the first run.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {recent.map(run => (
+            <li key={run.id} className="px-6 py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+              <span className="text-slate-500 dark:text-slate-400 w-32">{formatStarted(run.startedAt)}</span>
+              <span className="font-mono text-slate-700 dark:text-slate-200">{(run.durationMin / 60).toFixed(1)} h · {run.energyKWh.toFixed(2)} kWh · {run.liters.toFixed(2)} L</span>
+              <span className="text-xs text-slate-400">{SOURCE_LABELS[run.source]}{run.notes ? ` · ${run.notes}` : ''}</span>
+              <button onClick={() => handleRemove(run)} className="ml-auto p-1 text-slate-300 hover:text-red-500 transition-colors" title="Remove run">
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RunLogger;
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { Save, Upload, Download, Link2, Trash2, GitCompare } from 'lucide-react';
+import { CalculatorModule } from '../types';
+import { CalculatorParams, MODULE_NAMES, Scenario, exportScenarios, parseScenarioFile, scenarioShareUrl } from '../utils/scenarios';
+
+interface ScenarioPanelProps {
+  module: CalculatorModule;
+  scenarios: Scenario[];          // Saved scenarios for this module
+  compareIds: string[];
+  reference: CalculatorParams;    // Live values, used to type-check imported parameters
+  onSave: (name: string) => void;
+  onLoad: (scenario: Scenario) => void;
+  onDelete: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+  onImport: (scenarios: Scenario[]) => void;
+}
+
+const inputClass = "flex-1 min-w-0 px-2 py-1.5 text-xs rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-brand-500";
+const iconButtonClass = "p-1 text-slate-400 hover:text-brand-600 dark:hover:text-brand-400 transition-colors";
+
+// Save, load, compare and share named parameter sets for the active module
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ module, scenarios, compareIds, reference, onSave, onLoad, onDelete, onToggleCompare, onImport }) => {
+  const [name, setName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+    setNotice(null);
+  };
+
+  const handleShare = async (scenario: Scenario) => {
+    const url = scenarioShareUrl(scenario, window.location.href);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice(`Link to "${scenario.name}" copied.`);
+    } catch {
+      // Clipboard access can be blocked; fall back to showing the link
+      window.prompt('Copy this link', url);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportScenarios(scenarios)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `distillai-scenarios-${module}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { scenarios: imported, errors } = parseScenarioFile(await file.text(), reference);
+    onImport(imported);
+    const others = imported.filter(s => s.module !== module).length;
+    setNotice([
+      `Imported ${imported.length} scenario${imported.length === 1 ? '' : 's'}${others > 0 ? ` (${others} for other modules)` : ''}.`,
+      ...errors,
+    ].join(' '));
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Scenarios</label>
+        <div className="flex gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import scenarios (JSON)">
+            <Upload size={14} />
+          </button>
+          <button onClick={handleExport} disabled={scenarios.length === 0} className={`${iconButtonClass} disabled:opacity-40`} title={`Export ${MODULE_NAMES[module]} scenarios (JSON)`}>
+            <Download size={14} />
+          </button>
+        </div>
+      </div>
+
+      <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleImport} />
+
+      <div className="flex gap-2 mb-3">
+        <input
+          className={inputClass}
+          value={name}
+          placeholder="e.g. Unit 2 winter settings"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold rounded-md bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40 transition-colors"
+        >
+          <Save size={12} /> Save
+        </button>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-xs text-slate-400">No saved {MODULE_NAMES[module]} scenarios yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {scenarios.map(s => (
+            <li key={s.id} className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={compareIds.includes(s.id)}
+                onChange={() => onToggleCompare(s.id)}
+                className="accent-brand-500"
+                title="Overlay on the comparison chart"
+              />
+              <button onClick={() => onLoad(s)} className="flex-1 min-w-0 text-left truncate text-slate-700 dark:text-slate-200 hover:text-brand-600 dark:hover:text-brand-400" title={`Load (saved ${new Date(s.createdAt).toLocaleString()})`}>
+                {s.name}
+              </button>
+              <button onClick={() => handleShare(s)} className={iconButtonClass} title="Copy share link">
+                <Link2 size={12} />
+              </button>
+              <button onClick={() => onDelete(s.id)} className="p-1 text-slate-400 hover:text-red-500 transition-colors" title="Delete">
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {compareIds.length > 0 && (
+        <p className="mt-2 flex items-center gap-1.5 text-[11px] text-slate-400">
+          <GitCompare size={12} /> Comparing {compareIds.length} with the current settings below the chart.
+        </p>
+      )}
+      {notice && <p className="mt-2 text-[11px] text-slate-500 dark:text-slate-400">{notice}</p>}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
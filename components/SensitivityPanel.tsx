@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { AntoineParams, CalculatorModule } from '../types';
+import { CalculatorParams, ScenarioMetric, evaluateScenario } from '../utils/scenarios';
+import { SweepParameter, oneWaySweep, rankTornado, sweepParameters, tornadoAnalysis, twoWaySweep } from '../utils/sensitivity';
+import { UnitPreferences, toDisplay, unitDigits, unitLabel } from '../utils/units';
+
+type SweepView = 'tornado' | 'oneWay' | 'heatmap';
+
+const VIEWS: Array<{ value: SweepView, label: string }> = [
+  { value: 'tornado', label: 'Tornado' },
+  { value: 'oneWay', label: 'One-way' },
+  { value: 'heatmap', label: '2-D Heatmap' },
+];
+
+const SWINGS = [0.1, 0.2, 0.5];
+
+const selectClass = "px-2 py-1 text-xs rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-brand-500";
+
+// One tornado bar pair: each bar runs from the current output to the output at that input
+interface TornadoRow {
+  label: string;
+  low: number[];
+  high: number[];
+  lowInput: string;             // Formatted in the preferred units
+  highInput: string;
+}
+
+interface SensitivityPanelProps {
+  module: CalculatorModule;
+  params: CalculatorParams;     // Current settings; every sweep starts from these
+  library: AntoineParams[];
+  units: UnitPreferences;
+  isDarkMode: boolean;
+}
+
+// Blue (low) to orange (high); cells without a result stay grey
+const heatColor = (t: number, isDarkMode: boolean) =>
+  Number.isFinite(t) ? `hsl(${210 - 190 * t}, 80%, ${isDarkMode ? 45 : 60}%)` : isDarkMode ? '#334155' : '#e2e8f0';
+
+// Tornado, one-way and two-way sweeps of one output metric for the active module
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ module, params, library, units, isDarkMode }) => {
+  // Sweeps re-run the model many times, so they only recompute when an input actually changes
+  const paramsKey = JSON.stringify(params);
+  const parameters = sweepParameters(module, params);
+  const base = useMemo(() => evaluateScenario(module, params, library).metrics, [module, paramsKey, library]);
+
+  const [view, setView] = useState<SweepView>('tornado');
+  const [metricIndex, setMetricIndex] = useState(0);
+  const [swing, setSwing] = useState(0.2);
+  const [xId, setXId] = useState(parameters[0]?.id ?? '');
+  const [yId, setYId] = useState(parameters[1]?.id ?? parameters[0]?.id ?? '');
+
+  const metricAt = Math.min(metricIndex, base.length - 1);
+  const metric: ScenarioMetric | undefined = base[metricAt];
+  const xParameter = parameters.find(p => p.id === xId) ?? parameters[0];
+  const yParameter = parameters.find(p => p.id === yId && p.id !== xParameter?.id) ?? parameters.find(p => p !== xParameter);
+
+  const tornado = useMemo(
+    () => view === 'tornado' ? tornadoAnalysis(module, params, swing, library) : [],
+    [view, module, paramsKey, swing, library]
+  );
+  const oneWay = useMemo(
+    () => view === 'oneWay' && xParameter ? oneWaySweep(module, params, xParameter, 25, library) : [],
+    [view, module, paramsKey, xParameter?.id, library]
+  );
+  const grid = useMemo(
+    () => view === 'heatmap' && xParameter && yParameter ? twoWaySweep(module, params, xParameter, yParameter, 12, library) : null,
+    [view, module, paramsKey, xParameter?.id, yParameter?.id, library]
+  );
+
+  if (!metric || parameters.length === 0) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">This module has no numeric inputs to sweep.</p>;
+  }
+
+  const gridColor = isDarkMode ? '#334155' : '#e2e8f0';
+  const axisTextColor = isDarkMode ? '#94a3b8' : '#64748b';
+  const tooltipStyle = {
+    borderRadius: '8px',
+    border: isDarkMode ? '1px solid #334155' : '1px solid #e2e8f0',
+    backgroundColor: isDarkMode ? '#1e293b' : '#ffffff',
+    color: isDarkMode ? '#f8fafc' : '#1e293b',
+  };
+
+  const show = (value: number, quantity?: ScenarioMetric['quantity']) =>
+    quantity && Number.isFinite(value) ? Number(toDisplay(quantity, value, units).toFixed(4)) : value;
+  const metricUnit = metric.quantity ? unitLabel(metric.quantity, units) : metric.unit;
+  const metricLabel = metricUnit ? `${metric.label} (${metricUnit})` : metric.label;
+  const parameterLabel = (p: SweepParameter) => {
+    const unit = p.quantity ? unitLabel(p.quantity, units) : p.unit;
+    return unit ? `${p.label} (${unit})` : p.label;
+  };
+  const formatValue = (value: number, digits = metric.digits ?? (metric.quantity ? unitDigits(metric.quantity, units) : 2)) => Number.isFinite(value) ? value.toFixed(digits) : '—';
+  const inputText = (p: SweepParameter, value: number) =>
+    formatValue(show(value, p.quantity), p.integer ? 0 : p.quantity ? unitDigits(p.quantity, units) : 3);
+  const baseValue = metric.value;
+
+  const renderTornado = () => {
+    const rows: TornadoRow[] = rankTornado(tornado, metricAt, baseValue).map(e => {
+      const lowInput = inputText(e.parameter, e.low);
+      const highInput = inputText(e.parameter, e.high);
+      // Clamping to the slider range can make the swing lopsided, so each row names its own inputs
+      return {
+        label: `${parameterLabel(e.parameter)}: ${lowInput} → ${highInput}`,
+        low: [show(baseValue, metric.quantity), show(e.lowMetrics[metricAt], metric.quantity)],
+        high: [show(baseValue, metric.quantity), show(e.highMetrics[metricAt], metric.quantity)],
+        lowInput,
+        highInput,
+      };
+    });
+    if (rows.length === 0) {
+      return <p className="text-xs text-slate-500 dark:text-slate-400 py-6 text-center">No input within its swing range moves {metric.label}.</p>;
+    }
+    return (
+      <div style={{ height: Math.max(160, rows.length * 44 + 60) }} className="w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} horizontal={false} />
+            <XAxis
+              type="number"
+              domain={['auto', 'auto']}
+              label={{ value: metricLabel, position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }}
+              tick={{ fill: axisTextColor, fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis type="category" dataKey="label" width={210} tick={{ fill: axisTextColor, fontSize: 11 }} tickLine={false} axisLine={false} />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              formatter={(value: number[], name: string, item: { payload?: TornadoRow }) => [
+                formatValue(value[1]),
+                name === 'low' ? `Low input (${item.payload?.lowInput ?? '—'})` : `High input (${item.payload?.highInput ?? '—'})`,
+              ]}
+            />
+            <Legend verticalAlign="top" height={28} formatter={(name) => name === 'low' ? 'Low input' : 'High input'} />
+            <ReferenceLine x={show(baseValue, metric.quantity)} stroke={axisTextColor} strokeDasharray="3 3" />
+            <Bar dataKey="low" fill="#0ea5e9" barSize={12} />
+            <Bar dataKey="high" fill="#f97316" barSize={12} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  };
+
+  const renderOneWay = () => {
+    if (!xParameter) return null;
+    const data = oneWay.map(p => ({ x: show(p.value, xParameter.quantity), y: show(p.metrics[metricAt], metric.quantity) }))
+      .filter(p => Number.isFinite(p.y));
+    return (
+      <div className="h-[280px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} vertical={false} />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              label={{ value: parameterLabel(xParameter), position: 'bottom', offset: 0, fill: axisTextColor, fontSize: 12 }}
+              tick={{ fill: axisTextColor, fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              label={{ value: metricLabel, angle: -90, position: 'insideLeft', fill: axisTextColor, fontSize: 12 }}
+              tick={{ fill: axisTextColor, fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+            />
+            <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => [formatValue(value), metric.label]} labelFormatter={(x: number) => `${xParameter.label}: ${formatValue(x, 3)}`} />
+            <ReferenceLine x={show(xParameter.get(params), xParameter.quantity)} stroke={axisTextColor} strokeDasharray="3 3" label={{ value: 'Current', fill: axisTextColor, fontSize: 10, position: 'top' }} />
+            <Line type="monotone" dataKey="y" stroke="#f97316" strokeWidth={3} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  };
+
+  const renderHeatmap = () => {
+    if (!grid || !xParameter || !yParameter) {
+      return <p className="text-xs text-slate-500 dark:text-slate-400 py-6 text-center">A heatmap needs two inputs; this setup has only one.</p>;
+    }
+    const values = grid.cells.flat().map(c => c[metricAt]).filter(Number.isFinite);
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    const scale = (v: number) => hi > lo ? (v - lo) / (hi - lo) : 0.5;
+    const cellText = (v: number) => formatValue(show(v, metric.quantity));
+    return (
+      <div>
+        <div className="flex items-stretch gap-2">
+          <div className="flex items-center">
+            <span className="text-[11px] text-slate-500 dark:text-slate-400 [writing-mode:vertical-rl] rotate-180">{parameterLabel(yParameter)}</span>
+          </div>
+          <div className="flex-1 min-w-0 overflow-x-auto">
+            <table className="w-full border-separate border-spacing-0.5 text-[10px] font-mono">
+              <tbody>
+                {/* Highest y on top, like a chart */}
+                {[...grid.ys.keys()].reverse().map(yi => (
+                  <tr key={yi}>
+                    <th className="pr-1 text-right font-normal text-slate-500 dark:text-slate-400 whitespace-nowrap">{formatValue(show(grid.ys[yi], yParameter.quantity), 2)}</th>
+                    {grid.xs.map((x, xi) => {
+                      const v = grid.cells[yi][xi][metricAt];
+                      return (
+                        <td
+                          key={xi}
+                          title={`${xParameter.label} ${formatValue(show(x, xParameter.quantity), 3)}, ${yParameter.label} ${formatValue(show(grid.ys[yi], yParameter.quantity), 3)}: ${cellText(v)}`}
+                          style={{ backgroundColor: heatColor(Number.isFinite(v) ? scale(v) : NaN, isDarkMode) }}
+                          className="h-6 min-w-[2.5rem] text-center text-slate-900 dark:text-white rounded-sm"
+                        >
+                          {cellText(v)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr>
+                  <th />
+                  {grid.xs.map((x, xi) => (
+                    <th key={xi} className="pt-1 font-normal text-slate-500 dark:text-slate-400">{formatValue(show(x, xParameter.quantity), 2)}</th>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+            <p className="mt-1 text-center text-[11px] text-slate-500 dark:text-slate-400">{parameterLabel(xParameter)}</p>
+          </div>
+        </div>
+        <div className="mt-3 flex items-center justify-center gap-2 text-[11px] text-slate-500 dark:text-slate-400">
+          <span>{Number.isFinite(lo) ? cellText(lo) : '—'}</span>
+          <span className="h-2 w-32 rounded" style={{ background: `linear-gradient(to right, ${heatColor(0, isDarkMode)}, ${heatColor(0.5, isDarkMode)}, ${heatColor(1, isDarkMode)})` }} />
+          <span>{Number.isFinite(hi) ? cellText(hi) : '—'}</span>
+          <span>{metricUnit}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-sm font-bold text-slate-800 dark:text-white">Sensitivity</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {metric.label} is {formatValue(show(baseValue, metric.quantity))}{metricUnit ? ` ${metricUnit}` : ''} at the current settings.
+          </p>
+        </div>
+        <div className="flex p-1 rounded-lg bg-slate-100 dark:bg-slate-700/50">
+          {VIEWS.map(v => (
+            <button
+              key={v.value}
+              onClick={() => setView(v.value)}
+              className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${
+                view === v.value
+                ? 'bg-white dark:bg-slate-600 text-slate-800 dark:text-white shadow-sm'
+                : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+              }`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-xs text-slate-500 dark:text-slate-400">
+        <label className="flex items-center gap-1.5">
+          Output
+          <select className={selectClass} value={metricAt} onChange={(e) => setMetricIndex(Number(e.target.value))}>
+            {base.map((m, i) => <option key={m.label} value={i}>{m.label}</option>)}
+          </select>
+        </label>
+        {view === 'tornado' && (
+          <label className="flex items-center gap-1.5">
+            Swing
+            <select className={selectClass} value={swing} onChange={(e) => setSwing(Number(e.target.value))}>
+              {SWINGS.map(s => <option key={s} value={s}>±{s * 100}%</option>)}
+            </select>
+          </label>
+        )}
+        {view !== 'tornado' && xParameter && (
+          <label className="flex items-center gap-1.5">
+            {view === 'heatmap' ? 'X' : 'Input'}
+            <select className={selectClass} value={xParameter.id} onChange={(e) => setXId(e.target.value)}>
+              {parameters.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+        )}
+        {view === 'heatmap' && yParameter && (
+          <label className="flex items-center gap-1.5">
+            Y
+            <select className={selectClass} value={yParameter.id} onChange={(e) => setYId(e.target.value)}>
+              {parameters.filter(p => p !== xParameter).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {view === 'tornado' ? renderTornado() : view === 'oneWay' ? renderOneWay() : renderHeatmap()}
+    </div>
+  );
+};
+
+export default SensitivityPanel;
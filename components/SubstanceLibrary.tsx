@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { AntoineParams, AntoinePressureUnit } from '../types';
+import { SUBSTANCES } from '../utils/calculations';
+import { exportSubstances, mergeCustomSubstances, parseSubstanceFile, validateSubstance } from '../utils/substanceLibrary';
+
+interface SubstanceLibraryProps {
+  selected: AntoineParams;
+  onSelect: (substance: AntoineParams) => void;
+  customSubstances: AntoineParams[];
+  onCustomChange: (substances: AntoineParams[]) => void;
+}
+
+type Draft = Record<'name' | 'A' | 'B' | 'C' | 'tMin' | 'tMax' | 'molarMass' | 'source', string> & { pressureUnit: AntoinePressureUnit };
+
+const EMPTY_DRAFT: Draft = { name: '', A: '', B: '', C: '', tMin: '', tMax: '', molarMass: '', source: '', pressureUnit: 'mmHg' };
+
+const toDraft = (s: AntoineParams): Draft => ({
+  name: s.name, A: String(s.A), B: String(s.B), C: String(s.C), tMin: String(s.tMin), tMax: String(s.tMax),
+  molarMass: String(s.molarMass), source: s.source, pressureUnit: s.pressureUnit,
+});
+
+const fromDraft = (d: Draft): AntoineParams => ({
+  name: d.name.trim(), A: parseFloat(d.A), B: parseFloat(d.B), C: parseFloat(d.C), tMin: parseFloat(d.tMin), tMax: parseFloat(d.tMax),
+  molarMass: parseFloat(d.molarMass), source: d.source.trim(), pressureUnit: d.pressureUnit, custom: true,
+});
+
+const inputClass = "w-full px-2 py-1.5 text-xs rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-purple-500";
+const iconButtonClass = "p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-purple-600 transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+// Substance picker with add/edit/delete and JSON import/export of custom Antoine sets
+const SubstanceLibrary: React.FC<SubstanceLibraryProps> = ({ selected, onSelect, customSubstances, onCustomChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Name of the custom entry being edited, '' for a new one, null when the form is closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const all = [...SUBSTANCES, ...customSubstances];
+
+  const openForm = (substance: AntoineParams | null) => {
+    setEditing(substance ? substance.name : '');
+    setDraft(substance ? toDraft(substance) : EMPTY_DRAFT);
+    setFormErrors([]);
+    setNotice(null);
+  };
+
+  const handleSave = () => {
+    const substance = fromDraft(draft);
+    const errors = validateSubstance(substance);
+    const key = substance.name.toLowerCase();
+    if (all.some(s => s.name.toLowerCase() === key && s.name !== editing)) errors.push(`"${substance.name}" already exists.`);
+    if (errors.length > 0) { setFormErrors(errors); return; }
+
+    onCustomChange(editing
+      ? customSubstances.map(s => (s.name === editing ? substance : s))
+      : [...customSubstances, substance]);
+    onSelect(substance);
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!selected.custom || !window.confirm(`Delete "${selected.name}" from the library?`)) return;
+    onCustomChange(customSubstances.filter(s => s.name !== selected.name));
+    onSelect(SUBSTANCES[0]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSubstances(customSubstances)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'distillai-substances.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { substances, errors } = parseSubstanceFile(await file.text());
+    const { merged, skipped } = mergeCustomSubstances(customSubstances, substances);
+    onCustomChange(merged);
+    const parts = [`Imported ${substances.length - skipped.length} substance${substances.length - skipped.length === 1 ? '' : 's'}.`];
+    if (skipped.length > 0) parts.push(`Skipped built-in names: ${skipped.join(', ')}.`);
+    if (errors.length > 0) parts.push(...errors);
+    setNotice(parts.join(' '));
+  };
+
+  const field = (key: keyof Omit<Draft, 'pressureUnit'>, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="block">
+      <span className="text-[10px] uppercase font-bold text-slate-400">{label}</span>
+      <input
+        className={inputClass}
+        value={draft[key]}
+        onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+        {...props}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Select Substance</label>
+        <div className="flex items-center gap-0.5">
+          <button onClick={() => openForm(null)} className={iconButtonClass} title="Add substance"><Plus size={14} /></button>
+          <button onClick={() => openForm(selected)} disabled={!selected.custom} className={iconButtonClass} title="Edit substance"><Pencil size={14} /></button>
+          <button onClick={handleDelete} disabled={!selected.custom} className={iconButtonClass} title="Delete substance"><Trash2 size={14} /></button>
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import substances (JSON)"><Upload size={14} /></button>
+          <button onClick={handleExport} disabled={customSubstances.length === 0} className={iconButtonClass} title="Export custom substances"><Download size={14} /></button>
+        </div>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleImport} />
+
+      <select
+        className={`${inputClass} text-sm py-2`}
+        value={selected.name}
+        onChange={(e) => { const s = all.find(x => x.name === e.target.value); if (s) onSelect(s); }}
+      >
+        <optgroup label="Built-in">
+          {SUBSTANCES.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+        </optgroup>
+        {customSubstances.length > 0 && (
+          <optgroup label="Custom">
+            {customSubstances.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      <dl className="mt-2 grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs text-slate-500 dark:text-slate-400">
+        <dt>Valid range</dt><dd className="font-mono text-right text-slate-700 dark:text-slate-200">{selected.tMin} – {selected.tMax} °C</dd>
+        <dt>Constants fitted in</dt><dd className="font-mono text-right text-slate-700 dark:text-slate-200">{selected.pressureUnit}</dd>
+        <dt>Molar mass</dt><dd className="font-mono text-right text-slate-700 dark:text-slate-200">{selected.molarMass} g/mol</dd>
+        {selected.source && <><dt>Source</dt><dd className="text-right text-slate-700 dark:text-slate-200 truncate" title={selected.source}>{selected.source}</dd></>}
+      </dl>
+
+      {notice && (
+        <div className="mt-2 flex items-start gap-2 text-xs rounded-lg px-3 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+          <span className="flex-1">{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-slate-400 hover:text-slate-600"><X size={12} /></button>
+        </div>
+      )}
+
+      {editing !== null && (
+        <div className="mt-3 p-3 rounded-lg border border-purple-200 dark:border-purple-800 bg-purple-50/50 dark:bg-purple-900/10 space-y-2">
+          <p className="text-xs font-bold text-purple-700 dark:text-purple-300">{editing ? `Edit ${editing}` : 'New Substance'}</p>
+          {field('name', 'Name')}
+          <div className="grid grid-cols-3 gap-2">
+            {field('A', 'A', { inputMode: 'decimal' })}
+            {field('B', 'B', { inputMode: 'decimal' })}
+            {field('C', 'C', { inputMode: 'decimal' })}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {field('tMin', 'Tmin (°C)', { inputMode: 'decimal' })}
+            {field('tMax', 'Tmax (°C)', { inputMode: 'decimal' })}
+            <label className="block">
+              <span className="text-[10px] uppercase font-bold text-slate-400">P unit</span>
+              <select className={inputClass} value={draft.pressureUnit} onChange={(e) => setDraft(prev => ({ ...prev, pressureUnit: e.target.value as AntoinePressureUnit }))}>
+                <option value="mmHg">mmHg</option>
+                <option value="kPa">kPa</option>
+                <option value="bar">bar</option>
+              </select>
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {field('molarMass', 'M (g/mol)', { inputMode: 'decimal' })}
+            <div className="col-span-2">{field('source', 'Source')}</div>
+          </div>
+          {formErrors.length > 0 && (
+            <ul className="text-xs text-red-600 dark:text-red-400 space-y-0.5">
+              {formErrors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2 pt-1">
+            <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs font-semibold rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700">Cancel</button>
+            <button onClick={handleSave} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-purple-600 text-white hover:bg-purple-700">Save</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubstanceLibrary;
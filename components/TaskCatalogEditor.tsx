@@ -0,0 +1,282 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Archive, ArchiveRestore, Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { MaintenanceFrequency, MaintenanceReadingKind, MaintenanceTask } from '../types';
+import { FREQUENCIES, READING_UNITS, describeInterval } from '../utils/maintenance';
+import { applyImportedCatalog, exportCatalog, moveTask, parseCatalogFile, validateTask } from '../utils/maintenanceCatalog';
+import { SOP_DATA } from './Procedures';
+
+interface TaskCatalogEditorProps {
+  tasks: MaintenanceTask[];
+  onChange: (tasks: MaintenanceTask[]) => void;
+  onClose: () => void;
+}
+
+type ScheduleChoice = MaintenanceFrequency | 'days' | 'hours' | 'liters';
+
+const INTERVAL_LABELS: Record<Exclude<ScheduleChoice, MaintenanceFrequency>, string> = { days: 'Days', hours: 'Heater-Hours', liters: 'Liters Produced' };
+
+interface ReadingDraft {
+  key: string;
+  kind: MaintenanceReadingKind;
+  label: string;
+  min: string;
+  max: string;
+}
+
+// Form state; numbers stay as typed until the task is saved
+interface TaskDraft {
+  id: string;
+  title: string;
+  desc: string;
+  schedule: ScheduleChoice;
+  every: string;
+  critical: boolean;
+  sopIds: string[];
+  readings: ReadingDraft[];
+  retired?: boolean;
+  addedAt?: number;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-100 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-brand-500";
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-1";
+const iconButtonClass = "p-1.5 text-slate-400 hover:text-brand-600 dark:hover:text-brand-400 disabled:opacity-30 transition-colors";
+
+const toDraft = (task: MaintenanceTask): TaskDraft => ({
+  id: task.id,
+  title: task.title,
+  desc: task.desc,
+  schedule: task.interval.kind === 'calendar' ? task.interval.frequency : task.interval.kind,
+  every: task.interval.kind === 'days' ? String(task.interval.days)
+    : task.interval.kind === 'hours' ? String(task.interval.hours)
+    : task.interval.kind === 'liters' ? String(task.interval.liters) : '',
+  critical: task.critical,
+  sopIds: task.sopIds ?? [],
+  readings: (task.readings ?? []).map(r => ({ key: r.key, kind: r.kind, label: r.label, min: r.min?.toString() ?? '', max: r.max?.toString() ?? '' })),
+  retired: task.retired,
+  addedAt: task.addedAt,
+});
+
+const optionalNumber = (text: string) => text.trim() === '' ? undefined : Number(text);
+
+const fromDraft = (draft: TaskDraft): MaintenanceTask => ({
+  id: draft.id,
+  title: draft.title.trim(),
+  desc: draft.desc.trim(),
+  interval: draft.schedule === 'days' ? { kind: 'days', days: Number(draft.every) }
+    : draft.schedule === 'hours' ? { kind: 'hours', hours: Number(draft.every) }
+    : draft.schedule === 'liters' ? { kind: 'liters', liters: Number(draft.every) }
+    : { kind: 'calendar', frequency: draft.schedule },
+  critical: draft.critical,
+  sopIds: draft.sopIds,
+  readings: draft.readings.map(r => ({ key: r.key, kind: r.kind, label: r.label.trim(), min: optionalNumber(r.min), max: optionalNumber(r.max) })),
+  retired: draft.retired,
+  addedAt: draft.addedAt,
+});
+
+const emptyDraft = (): TaskDraft => ({
+  id: crypto.randomUUID(), title: '', desc: '', schedule: 'Weekly', every: '14', critical: false, sopIds: [], readings: [], addedAt: Date.now(),
+});
+
+// Add, edit, retire and reorder the site's maintenance tasks, and share them as JSON
+const TaskCatalogEditor: React.FC<TaskCatalogEditorProps> = ({ tasks, onChange, onClose }) => {
+  const [draft, setDraft] = useState<TaskDraft | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = tasks.filter(t => !t.retired);
+  const retired = tasks.filter(t => t.retired);
+  const draftTask = draft ? fromDraft(draft) : null;
+  const draftErrors = draftTask ? validateTask(draftTask) : [];
+  const invalidNumbers = draft ? [
+    ...(draft.schedule in INTERVAL_LABELS ? [draft.every] : []),
+    ...draft.readings.flatMap(r => [r.min, r.max]),
+  ].some(v => v.trim() !== '' && !Number.isFinite(Number(v))) : false;
+
+  const update = (patch: Partial<TaskDraft>) => setDraft(prev => prev && { ...prev, ...patch });
+  const updateReading = (index: number, patch: Partial<ReadingDraft>) =>
+    setDraft(prev => prev && { ...prev, readings: prev.readings.map((r, i) => i === index ? { ...r, ...patch } : r) });
+
+  const handleSave = () => {
+    if (!draftTask || draftErrors.length > 0 || invalidNumbers) return;
+    const exists = tasks.some(t => t.id === draftTask.id);
+    onChange(exists ? tasks.map(t => t.id === draftTask.id ? draftTask : t) : [...tasks, draftTask]);
+    setDraft(null);
+  };
+
+  const setRetired = (id: string, value: boolean) => onChange(tasks.map(t => t.id === id ? { ...t, retired: value } : t));
+
+  const handleExport = () => {
+    const blob = new Blob([exportCatalog(tasks)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'distillai-maintenance-catalog.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { tasks: imported, errors } = parseCatalogFile(await file.text());
+    if (imported.length === 0) {
+      setNotice(errors.join(' ') || 'The file contains no tasks.');
+      return;
+    }
+    if (!window.confirm(`Replace this checklist with the ${imported.length} tasks in ${file.name}? Tasks not in the file will be retired.`)) return;
+    onChange(applyImportedCatalog(tasks, imported));
+    setNotice([`Imported ${imported.length} task${imported.length === 1 ? '' : 's'}.`, ...errors].join(' '));
+  };
+
+  const renderRow = (task: MaintenanceTask) => (
+    <li key={task.id} className="flex items-center gap-2 px-6 py-3">
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm font-semibold truncate ${task.retired ? 'text-slate-400 line-through' : 'text-slate-800 dark:text-white'}`}>
+          {task.title}
+          {task.critical && <span className="ml-2 text-[10px] font-bold uppercase text-red-500">Critical</span>}
+        </p>
+        <p className="text-xs text-slate-400">
+          {describeInterval(task.interval)}
+          {task.readings && task.readings.length > 0 ? ` · ${task.readings.length} reading${task.readings.length === 1 ? '' : 's'}` : ''}
+          {task.sopIds && task.sopIds.length > 0 ? ` · SOP: ${task.sopIds.map(id => SOP_DATA.find(s => s.id === id)?.title ?? id).join(', ')}` : ''}
+        </p>
+      </div>
+      {!task.retired && (
+        <>
+          <button onClick={() => onChange(moveTask(tasks, task.id, -1))} disabled={active[0]?.id === task.id} className={iconButtonClass} title="Move up"><ArrowUp size={14} /></button>
+          <button onClick={() => onChange(moveTask(tasks, task.id, 1))} disabled={active[active.length - 1]?.id === task.id} className={iconButtonClass} title="Move down"><ArrowDown size={14} /></button>
+        </>
+      )}
+      <button onClick={() => setDraft(toDraft(task))} className={iconButtonClass} title="Edit"><Pencil size={14} /></button>
+      {task.retired
+        ? <button onClick={() => setRetired(task.id, false)} className={iconButtonClass} title="Reinstate"><ArchiveRestore size={14} /></button>
+        : <button onClick={() => setRetired(task.id, true)} className="p-1.5 text-slate-400 hover:text-red-500 transition-colors" title="Retire (history is kept)"><Archive size={14} /></button>}
+    </li>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 overflow-hidden shadow-sm mb-10">
+      <div className="bg-slate-50 dark:bg-slate-800/50 px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center gap-2">
+        <Pencil size={16} className="text-slate-400" />
+        <h2 className="font-semibold text-slate-700 dark:text-slate-200 uppercase tracking-wide text-sm mr-auto">Task Catalog</h2>
+        <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import catalog (JSON)"><Upload size={14} /></button>
+        <button onClick={handleExport} className={iconButtonClass} title="Export catalog (JSON)"><Download size={14} /></button>
+        <button onClick={() => setDraft(emptyDraft())} className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold rounded-md bg-brand-500 text-white hover:bg-brand-600 transition-colors">
+          <Plus size={12} /> Add Task
+        </button>
+        <button onClick={onClose} className={iconButtonClass} title="Close editor"><X size={16} /></button>
+        <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {notice && <p className="px-6 pt-3 text-xs text-slate-500 dark:text-slate-400">{notice}</p>}
+
+      {draft && (
+        <div className="m-6 p-4 rounded-xl bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="sm:col-span-2">
+              <label className={labelClass}>Title</label>
+              <input className={inputClass} value={draft.title} onChange={(e) => update({ title: e.target.value })} />
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelClass}>Instructions</label>
+              <textarea className={inputClass} rows={2} value={draft.desc} onChange={(e) => update({ desc: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Schedule</label>
+              <select className={inputClass} value={draft.schedule} onChange={(e) => update({ schedule: e.target.value as ScheduleChoice })}>
+                {FREQUENCIES.map(f => <option key={f} value={f}>{f}</option>)}
+                <option value="days">Every N days</option>
+                <option value="hours">Every N heater-hours</option>
+                <option value="liters">Every N liters produced</option>
+              </select>
+            </div>
+            {draft.schedule in INTERVAL_LABELS && (
+              <div>
+                <label className={labelClass}>{INTERVAL_LABELS[draft.schedule as keyof typeof INTERVAL_LABELS]}</label>
+                <input type="number" min={1} className={inputClass} value={draft.every} onChange={(e) => update({ every: e.target.value })} />
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+            <input type="checkbox" className="accent-brand-500" checked={draft.critical} onChange={(e) => update({ critical: e.target.checked })} />
+            Critical task
+          </label>
+
+          <div>
+            <label className={labelClass}>Linked Procedures</label>
+            <div className="flex flex-wrap gap-3">
+              {SOP_DATA.map(sop => (
+                <label key={sop.id} className="flex items-center gap-1.5 text-sm text-slate-700 dark:text-slate-200">
+                  <input
+                    type="checkbox"
+                    className="accent-brand-500"
+                    checked={draft.sopIds.includes(sop.id)}
+                    onChange={(e) => update({ sopIds: e.target.checked ? [...draft.sopIds, sop.id] : draft.sopIds.filter(id => id !== sop.id) })}
+                  />
+                  {sop.title}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Readings</label>
+            <div className="space-y-2">
+              {draft.readings.map((r, i) => (
+                <div key={r.key} className="flex items-center gap-2">
+                  <input className={inputClass} placeholder="Label" value={r.label} onChange={(e) => updateReading(i, { label: e.target.value })} />
+                  <select className={`${inputClass} w-40`} value={r.kind} onChange={(e) => updateReading(i, { kind: e.target.value as MaintenanceReadingKind })}>
+                    {(Object.keys(READING_UNITS) as MaintenanceReadingKind[]).map(kind => <option key={kind} value={kind}>{READING_UNITS[kind]}</option>)}
+                  </select>
+                  <input type="number" step="any" className={`${inputClass} w-24`} placeholder="Min" value={r.min} onChange={(e) => updateReading(i, { min: e.target.value })} />
+                  <input type="number" step="any" className={`${inputClass} w-24`} placeholder="Max" value={r.max} onChange={(e) => updateReading(i, { max: e.target.value })} />
+                  <button onClick={() => update({ readings: draft.readings.filter((_, j) => j !== i) })} className="p-1.5 text-slate-400 hover:text-red-500 transition-colors" title="Remove reading">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ readings: [...draft.readings, { key: crypto.randomUUID().slice(0, 8), kind: 'conductivity', label: '', min: '', max: '' }] })}
+                className="flex items-center gap-1 text-xs font-medium text-brand-600 dark:text-brand-400 hover:underline"
+              >
+                <Plus size={12} /> Add reading
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            {(draftErrors.length > 0 || invalidNumbers) && (
+              <span className="mr-auto text-xs text-red-500">{invalidNumbers ? 'Intervals and limits must be numbers.' : draftErrors[0]}</span>
+            )}
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={draftErrors.length > 0 || invalidNumbers}
+              className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40 transition-colors"
+            >
+              Save Task
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+        {active.map(renderRow)}
+      </ul>
+      {retired.length > 0 && (
+        <>
+          <p className="px-6 pt-4 pb-1 text-xs font-bold uppercase tracking-wide text-slate-400">Retired</p>
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {retired.map(renderRow)}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TaskCatalogEditor;
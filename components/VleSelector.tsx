@@ -0,0 +1,44 @@
+import React from 'react';
+import { ACTIVITY_MODEL_LABELS, ActivityModel, BINARY_PAIRS, VleSpec, availableModels } from '../utils/vle';
+
+interface VleSelectorProps {
+  spec: VleSpec;
+  onChange: (spec: VleSpec) => void;
+}
+
+const selectClass = "w-full px-2 py-1.5 text-xs rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-1 focus:ring-brand-500";
+
+// Binary pair, activity model and operating pressure for the VLE engine
+const VleSelector: React.FC<VleSelectorProps> = ({ spec, onChange }) => {
+  const pair = BINARY_PAIRS.find(p => p.id === spec.pairId) || BINARY_PAIRS[0];
+  const models = availableModels(pair);
+
+  const selectPair = (pairId: string) => {
+    const next = BINARY_PAIRS.find(p => p.id === pairId) || BINARY_PAIRS[0];
+    const nextModels = availableModels(next);
+    // Keep the model when the new pair has parameters for it, else take the most detailed one
+    onChange({ ...spec, pairId, model: nextModels.includes(spec.model) ? spec.model : nextModels[nextModels.length - 1] });
+  };
+
+  return (
+    <div className="mb-5 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="text-[10px] uppercase font-bold text-slate-400">Binary pair (light / heavy)</span>
+          <select className={selectClass} value={pair.id} onChange={(e) => selectPair(e.target.value)}>
+            {BINARY_PAIRS.map(p => <option key={p.id} value={p.id}>{p.light} / {p.heavy}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-[10px] uppercase font-bold text-slate-400">Activity model</span>
+          <select className={selectClass} value={spec.model} onChange={(e) => onChange({ ...spec, model: e.target.value as ActivityModel })}>
+            {models.map(m => <option key={m} value={m}>{ACTIVITY_MODEL_LABELS[m]}</option>)}
+          </select>
+        </label>
+      </div>
+      <p className="text-[11px] text-slate-400">Parameters: {pair.source}</p>
+    </div>
+  );
+};
+
+export default VleSelector;
@@ -0,0 +1,100 @@
+import { ApiError } from "@google/genai";
+import { AIErrorKind } from "../types";
+
+// Failure taxonomy for the AI service. Providers throw AIServiceError for
+// conditions they detect themselves (e.g. safety blocks); everything else is
+// classified from the raw SDK / network error.
+
+export class AIServiceError extends Error {
+  kind: AIErrorKind;
+
+  constructor(kind: AIErrorKind, message: string) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+  }
+}
+
+export interface ClassifiedError {
+  kind: AIErrorKind;
+  retryable: boolean;
+  message: string;
+}
+
+// User-facing text per kind; worded so operators know whether retrying helps
+export const ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  auth: "The Gemini API key is missing or invalid. Ask your administrator to check the GEMINI_API_KEY setting.",
+  rate_limit: "The AI service is receiving too many requests. Wait a minute and retry.",
+  safety: "The response was blocked by the safety filter. Rephrase the question and try again.",
+  payload_too_large: "This conversation or its attachments are too large to send. Remove images or data files, or start a new chat.",
+  offline: "You appear to be offline. Reconnect to the network and retry.",
+  network: "The AI service could not be reached. Check your connection and retry.",
+  server: "The AI service is temporarily unavailable. Retrying usually helps.",
+  unknown: "An error occurred while communicating with the distillation expert system. Please try again.",
+};
+
+// Kinds where the same request can succeed later; only the transient ones are retried automatically
+const RETRYABLE_KINDS: AIErrorKind[] = ['rate_limit', 'network', 'server', 'offline'];
+const AUTO_RETRY_KINDS: AIErrorKind[] = ['rate_limit', 'network', 'server'];
+
+const kindFromStatus = (status: number, message: string): AIErrorKind => {
+  if (status === 401 || status === 403 || /api key/i.test(message)) return 'auth';
+  if (status === 429 || /resource.?exhausted|quota/i.test(message)) return 'rate_limit';
+  if (status === 413 || /too large|exceeds the maximum|token count/i.test(message)) return 'payload_too_large';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+export const classifyError = (error: unknown): ClassifiedError => {
+  let kind: AIErrorKind = 'unknown';
+
+  if (error instanceof AIServiceError) {
+    kind = error.kind;
+  } else if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    kind = 'offline';
+  } else if (error instanceof ApiError) {
+    kind = kindFromStatus(error.status, error.message);
+  } else if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    kind = 'network';
+  }
+
+  return { kind, retryable: RETRYABLE_KINDS.includes(kind), message: ERROR_MESSAGES[kind] };
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  // Return false to stop retrying even for a retryable error
+  shouldRetry?: (error: ClassifiedError) => boolean;
+  onRetry?: (attempt: number, error: ClassifiedError, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Exponential backoff with jitter: ~1s, 2s, 4s for the defaults
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, signal, shouldRetry, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const classified = classifyError(error);
+      const canRetry = AUTO_RETRY_KINDS.includes(classified.kind) && attempt < retries && !signal?.aborted && (shouldRetry?.(classified) ?? true);
+      if (!canRetry) throw error;
+
+      const delayMs = baseDelayMs * 2 ** attempt * (0.8 + Math.random() * 0.4);
+      onRetry?.(attempt + 1, classified, delayMs);
+      await sleep(delayMs, signal);
+      if (signal?.aborted) throw error;
+    }
+  }
+};
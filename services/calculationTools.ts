@@ -0,0 +1,516 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import {
+  SUBSTANCES, calculateVaporPressure, generateAntoineData, generateMcCabeThieleData, designMcCabeThiele, isInAntoineRange
+} from "../utils/calculations";
+import { findSubstance, getAllSubstances } from "../utils/substanceLibrary";
+import { bubblePointTemperature, dewPointTemperature, isothermalFlash } from "../utils/flash";
+import { ActivityModel, BINARY_PAIRS, availableModels, buildVleSystem } from "../utils/vle";
+import { BatchOperation, BatchStopCriterion, DEFAULT_BATCH_SPEC, simulateBatchDistillation, toBatchChartRows } from "../utils/batch";
+import { BoilerSpec, boilerSpecFrom, generateBoilerData, summarizeBoiler } from "../utils/boiler";
+import { coilArea, evaluateCondenser, generateCondenserCurve } from "../utils/condenser";
+import { ATMOSPHERIC_MMHG, batchEnergy, generateBoilingCurve, sizeVacuumPump } from "../utils/vacuum";
+import { DEFAULT_UNIT_PREFERENCES, Quantity, UnitPreferences, isCanonical, toDisplay, unitDigits, unitLabel } from "../utils/units";
+
+// Calculator models exposed to the AI as callable tools, so numeric answers
+// are computed by utils/calculations.ts instead of estimated by the model.
+
+type ChartRow = Record<string, string | number>;
+
+export interface ToolResult {
+  // Compact figures returned to the model
+  summary: Record<string, string | number>;
+  // Full series attached to the reply as Message.chartData
+  series: ChartRow[];
+}
+
+export interface CalculationTool {
+  declaration: FunctionDeclaration;
+  run: (args: Record<string, unknown>) => ToolResult;
+}
+
+
+// Reads a numeric argument, falling back to a default and clamping to the slider ranges
+const num = (args: Record<string, unknown>, key: string, fallback: number, min: number, max: number): number => {
+  const raw = Number(args[key]);
+  const value = Number.isFinite(raw) ? raw : fallback;
+  return Math.min(max, Math.max(min, value));
+};
+
+// Boiler energy-balance arguments shared by the heating, flow and power tools
+const BOILER_PROPERTIES = {
+  substance: { type: Type.STRING, description: 'Liquid in the boiler, from the substance library (default Water).' },
+  volumeLiters: { type: Type.NUMBER, description: 'Liquid volume in the boiler in liters (default 4).' },
+  powerWatts: { type: Type.NUMBER, description: 'Heater power in watts (default 2000).' },
+  lossCoefficient: { type: Type.NUMBER, description: 'Shell heat-loss coefficient UA in W/K (default 3).' },
+  ambientC: { type: Type.NUMBER, description: 'Ambient temperature in °C (default 20).' },
+  t0: { type: Type.NUMBER, description: 'Initial liquid temperature in °C (default 20).' },
+  heatCapacity: { type: Type.NUMBER, description: 'Liquid heat capacity in kJ/(kg·K) (default 4.18).' },
+  density: { type: Type.NUMBER, description: 'Liquid density in kg/L (default 1).' },
+  timeMinutes: { type: Type.NUMBER, description: 'Simulated duration in minutes (default 60).' },
+};
+
+const boilerFromArgs = (args: Record<string, unknown>): BoilerSpec => {
+  const name = args.substance === undefined ? 'Water' : String(args.substance);
+  const substance = findSubstance(name);
+  if (!substance) throw new Error(`Unknown substance: ${name}. Available: ${getAllSubstances().map(s => s.name).join(', ')}`);
+  return boilerSpecFrom({
+    boilerVolume: num(args, 'volumeLiters', 4, 0.1, 500),
+    liquidDensity: num(args, 'density', 1, 0.5, 2),
+    heatCapacity: num(args, 'heatCapacity', 4.18, 0.5, 5),
+    powerWatts: num(args, 'powerWatts', 2000, 100, 50000),
+    lossCoefficient: num(args, 'lossCoefficient', 3, 0, 500),
+    ambientC: num(args, 'ambientC', 20, -30, 50),
+    t0: num(args, 't0', 20, -30, 150),
+  }, substance);
+};
+
+const boilerSummaryFields = (spec: BoilerSpec) => {
+  const summary = summarizeBoiler(spec);
+  return {
+    boilingPointC: Number(spec.boilingPoint.toFixed(2)),
+    latentHeatKjPerKg: Number(spec.latentHeat.toFixed(0)),
+    timeToBoilMinutes: Number.isFinite(summary.timeToBoil) ? Number(summary.timeToBoil.toFixed(1)) : 'never (losses exceed heater power)',
+    steadyFlowRateMlMin: Number(summary.steadyFlowRate.toFixed(1)),
+    lossWattsAtBoil: Number(summary.lossWatts.toFixed(0)),
+    boilingEfficiencyPercent: Number((summary.boilingEfficiency * 100).toFixed(1)),
+  };
+};
+
+// Recharts rows cannot carry nulls; drop empty cells
+const toChartRows = (rows: Array<Record<string, string | number | null>>): ChartRow[] =>
+  rows.map(row => Object.fromEntries(Object.entries(row).filter(([, v]) => v !== null)) as ChartRow);
+
+export const CALCULATION_TOOLS: CalculationTool[] = [
+  {
+    declaration: {
+      name: 'simulate_heating',
+      description: 'Boiler heat-up from a lumped energy balance (heater power, shell losses, liquid properties): temperature vs time and the time to reach boiling.',
+      parameters: { type: Type.OBJECT, properties: BOILER_PROPERTIES },
+    },
+    run: (args) => {
+      const spec = boilerFromArgs(args);
+      const series = generateBoilerData(spec, 0, Math.round(num(args, 'timeMinutes', 60, 1, 600)));
+      return {
+        summary: { ...boilerSummaryFields(spec), finalTemperature: series[series.length - 1].temperature },
+        series: series.map(r => ({ time: r.time, temperature: r.temperature })),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'simulate_flow',
+      description: 'Distillate flow rate (mL/min) and cumulative volume (L) from the boiler energy balance: nothing until the charge boils, then the heat surplus over shell losses divided by the latent heat.',
+      parameters: { type: Type.OBJECT, properties: BOILER_PROPERTIES },
+    },
+    run: (args) => {
+      const spec = boilerFromArgs(args);
+      const series = generateBoilerData(spec, 0, Math.round(num(args, 'timeMinutes', 60, 1, 600)));
+      return {
+        summary: { ...boilerSummaryFields(spec), totalVolumeLiters: series[series.length - 1].totalVolume },
+        series: series.map(r => ({ time: r.time, flowRate: r.flowRate, totalVolume: r.totalVolume })),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'simulate_power',
+      description: 'Cumulative heater energy (kWh), shell heat losses (kWh) and electricity cost over a run, from the boiler energy balance.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          ...BOILER_PROPERTIES,
+          costPerKwh: { type: Type.NUMBER, description: 'Electricity price per kWh (default 0.15).' },
+        },
+      },
+    },
+    run: (args) => {
+      const spec = boilerFromArgs(args);
+      const series = generateBoilerData(spec, num(args, 'costPerKwh', 0.15, 0, 10), Math.round(num(args, 'timeMinutes', 60, 1, 600)));
+      const last = series[series.length - 1];
+      return {
+        summary: { ...boilerSummaryFields(spec), totalEnergyKwh: last.energy, heatLossKwh: last.losses, totalCost: last.cost },
+        series: series.map(r => ({ time: r.time, energy: r.energy, losses: r.losses, cost: r.cost })),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'vapor_pressure',
+      description: 'Antoine-equation vapor pressure (mmHg) of a pure substance at a temperature, plus its pressure curve.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          substance: { type: Type.STRING, description: `Substance name from the library, e.g. ${SUBSTANCES.map(s => s.name).join(', ')}, or a user-defined substance.` },
+          temperatureC: { type: Type.NUMBER, description: 'Temperature in °C.' },
+          maxTempC: { type: Type.NUMBER, description: 'Upper bound of the plotted curve in °C (default 120).' },
+        },
+        required: ['substance', 'temperatureC'],
+      },
+    },
+    run: (args) => {
+      const params = findSubstance(String(args.substance));
+      if (!params) throw new Error(`Unknown substance: ${args.substance}. Available: ${getAllSubstances().map(s => s.name).join(', ')}`);
+      const temperatureC = num(args, 'temperatureC', 100, -50, 300);
+      return {
+        summary: {
+          substance: params.name,
+          temperatureC,
+          pressureMmHg: Number(calculateVaporPressure(temperatureC, params).toFixed(2)),
+          validFromC: params.tMin,
+          validToC: params.tMax,
+          ...(isInAntoineRange(temperatureC, params) ? {} : { warning: 'Temperature is outside the fitted range; the value is extrapolated.' }),
+        },
+        series: generateAntoineData(params, 0, num(args, 'maxTempC', 120, 10, 300)),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'simulate_batch_distillation',
+      description: 'Rayleigh batch distillation (adaptive integration): simple pot still, constant reflux or constant distillate composition with a number of stages. Returns still, distillate and receiver compositions vs percent distilled, plus foreshots/heads/hearts/tails cuts.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          alpha: { type: Type.NUMBER, description: 'Relative volatility (default 3).' },
+          initialXf: { type: Type.NUMBER, description: 'Initial light-component mole fraction, 0-1.' },
+          operation: { type: Type.STRING, enum: ['simple', 'constantReflux', 'constantComposition'], description: 'Operating policy (default simple).' },
+          stages: { type: Type.NUMBER, description: 'Theoretical stages above the still (default 3, ignored for simple).' },
+          refluxRatio: { type: Type.NUMBER, description: 'Reflux ratio for constant-reflux operation (default 2).' },
+          distillateComposition: { type: Type.NUMBER, description: 'Held distillate mole fraction for constant-composition operation (default 0.9).' },
+          maxReflux: { type: Type.NUMBER, description: 'Largest reflux ratio for constant-composition operation (default 20).' },
+          stopCriterion: { type: Type.STRING, enum: ['stillComposition', 'distillatePurity', 'distilledFraction'], description: 'What ends the run (default distilledFraction).' },
+          stopValue: { type: Type.NUMBER, description: 'Target for the stop criterion: still x_W, average distillate x_D, or fraction distilled 0-1.' },
+          cutPoints: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'Cumulative fractions distilled where foreshots, heads and hearts end (default [0.02, 0.1, 0.6]).' },
+        },
+        required: ['initialXf'],
+      },
+    },
+    run: (args) => {
+      const operation = (['simple', 'constantReflux', 'constantComposition'] as BatchOperation[]).find(o => o === args.operation) ?? 'simple';
+      const criterion = (['stillComposition', 'distillatePurity', 'distilledFraction'] as BatchStopCriterion[]).find(c => c === args.stopCriterion) ?? 'distilledFraction';
+      const cuts = Array.isArray(args.cutPoints) && args.cutPoints.length === 3
+        ? args.cutPoints.map(Number).map(c => Math.min(1, Math.max(0, Number.isFinite(c) ? c : 0))).sort((a, b) => a - b) as [number, number, number]
+        : DEFAULT_BATCH_SPEC.cutPoints;
+      const result = simulateBatchDistillation(num(args, 'alpha', 3, 1.01, 20), {
+        operation,
+        feedComposition: num(args, 'initialXf', 0.5, 0.01, 0.99),
+        stages: Math.round(num(args, 'stages', 3, 1, 30)),
+        refluxRatio: num(args, 'refluxRatio', 2, 0.1, 100),
+        distillateComposition: num(args, 'distillateComposition', 0.9, 0.01, 0.999),
+        maxReflux: num(args, 'maxReflux', 20, 1, 200),
+        stop: { criterion, value: num(args, 'stopValue', criterion === 'distilledFraction' ? 0.95 : criterion === 'stillComposition' ? 0.1 : 0.8, 0.001, 0.999) },
+        cutPoints: cuts,
+      });
+      return {
+        summary: {
+          stopReason: result.stopReason,
+          percentDistilled: Number((result.final.distilled * 100).toFixed(2)),
+          finalResidueComposition: Number(result.final.residue.toFixed(4)),
+          finalDistillateComposition: Number(result.final.distillate.toFixed(4)),
+          averageDistillateComposition: Number(result.final.averageDistillate.toFixed(4)),
+          boilupPerCharge: Number(result.final.boilup.toFixed(3)),
+          ...Object.fromEntries(result.cuts.map(c => [
+            c.name.toLowerCase(),
+            `${(c.start * 100).toFixed(1)}-${(c.end * 100).toFixed(1)}% distilled, x_D ${c.averageComposition.toFixed(4)}`,
+          ])),
+        },
+        series: toBatchChartRows(result),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'mccabe_thiele',
+      description: 'McCabe-Thiele column design for constant relative volatility: operating lines, q-line, stepped theoretical stages, optimal feed stage, minimum reflux and Fenske minimum stages.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          alpha: { type: Type.NUMBER, description: 'Relative volatility.' },
+          refluxRatio: { type: Type.NUMBER, description: 'Reflux ratio R (default 2).' },
+          xD: { type: Type.NUMBER, description: 'Distillate mole fraction, 0-1 (default 0.95).' },
+          xF: { type: Type.NUMBER, description: 'Feed mole fraction, 0-1 (default 0.5).' },
+          q: { type: Type.NUMBER, description: 'Feed condition: 1 saturated liquid, 0 saturated vapor (default 1).' },
+          xB: { type: Type.NUMBER, description: 'Bottoms mole fraction, 0-1 (default 0.05).' },
+        },
+        required: ['alpha'],
+      },
+    },
+    run: (args) => {
+      const alpha = num(args, 'alpha', 2.5, 1.01, 20);
+      const refluxRatio = num(args, 'refluxRatio', 2, 0.1, 50);
+      const xD = num(args, 'xD', 0.95, 0.1, 0.999);
+      const xF = num(args, 'xF', 0.5, 0.001, 0.999);
+      const q = num(args, 'q', 1, -2, 3);
+      const xB = num(args, 'xB', 0.05, 0.001, 0.9);
+      const design = designMcCabeThiele(alpha, refluxRatio, xD, xF, q, xB);
+      return {
+        summary: {
+          alpha, refluxRatio, xD, xF, q, xB,
+          minReflux: Number(design.minReflux.toFixed(3)),
+          minStagesFenske: Number(design.minStages.toFixed(2)),
+          ...(design.feasible
+            ? { theoreticalStages: design.stages, feedStage: design.feedStage }
+            : { infeasible: design.reason || 'Infeasible specification.' }),
+        },
+        series: toChartRows(generateMcCabeThieleData(alpha, refluxRatio, xD, xF, q, xB)),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'binary_vle',
+      description: 'Non-ideal binary vapor-liquid equilibrium (activity coefficient model): x-y-T data and azeotrope detection for a built-in pair.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          pair: { type: Type.STRING, enum: BINARY_PAIRS.map(p => p.id), description: 'Binary pair, light component first.' },
+          model: { type: Type.STRING, enum: ['ideal', 'vanLaar', 'wilson', 'nrtl'], description: 'Activity model; falls back to ideal when the pair has no parameters for it.' },
+          pressureMmHg: { type: Type.NUMBER, description: 'Operating pressure in mmHg (default 760).' },
+        },
+        required: ['pair'],
+      },
+    },
+    run: (args) => {
+      const pair = BINARY_PAIRS.find(p => p.id === args.pair);
+      if (!pair) throw new Error(`Unknown pair: ${args.pair}`);
+      const requested = String(args.model || '') as ActivityModel;
+      const models = availableModels(pair);
+      const system = buildVleSystem({
+        pairId: pair.id,
+        model: models.includes(requested) ? requested : models[models.length - 1],
+        pressureMmHg: num(args, 'pressureMmHg', 760, 50, 3000),
+      });
+      if (!system) throw new Error(`Pair ${pair.id} is missing from the substance library.`);
+      return {
+        summary: {
+          pair: pair.id,
+          model: system.model,
+          pressureMmHg: system.pressureMmHg,
+          azeotrope: system.azeotrope
+            ? `${system.azeotrope.kind} at x=${system.azeotrope.x.toFixed(3)}, ${system.azeotrope.temperature.toFixed(1)} °C`
+            : 'none',
+        },
+        series: system.points
+          // Every 0.05 in x keeps the result compact
+          .filter(p => Math.abs(p.x * 20 - Math.round(p.x * 20)) < 1e-9)
+          .map(p => ({ x: p.x, y: Number(p.y.toFixed(4)), temperatureC: Number(p.temperature.toFixed(2)) })),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'mixture_flash',
+      description: 'Ideal (Raoult) multicomponent bubble point, dew point and isothermal Rachford-Rice flash for a mixture of library substances.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          components: {
+            type: Type.ARRAY,
+            description: 'Feed components with mole fractions (normalized automatically).',
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                substance: { type: Type.STRING, description: 'Substance name from the library.' },
+                z: { type: Type.NUMBER, description: 'Mole fraction or relative amount.' },
+              },
+              required: ['substance', 'z'],
+            },
+          },
+          pressureMmHg: { type: Type.NUMBER, description: 'System pressure in mmHg (default 760).' },
+          temperatureC: { type: Type.NUMBER, description: 'Flash temperature in °C; defaults to midway between bubble and dew points.' },
+        },
+        required: ['components'],
+      },
+    },
+    run: (args) => {
+      const entries = Array.isArray(args.components) ? args.components as Array<Record<string, unknown>> : [];
+      const feed = entries.map(e => {
+        const substance = findSubstance(String(e.substance));
+        if (!substance) throw new Error(`Unknown substance: ${e.substance}`);
+        return { substance, z: num(e, 'z', 0, 0, 1e6) };
+      });
+      if (!feed.some(c => c.z > 0)) throw new Error('At least one component needs a positive mole fraction.');
+      const pressureMmHg = num(args, 'pressureMmHg', 760, 10, 10000);
+      const bubble = bubblePointTemperature(feed, pressureMmHg).temperature;
+      const dew = dewPointTemperature(feed, pressureMmHg).temperature;
+      const temperatureC = num(args, 'temperatureC', (bubble + dew) / 2, -100, 400);
+      const flash = isothermalFlash(feed, temperatureC, pressureMmHg);
+      return {
+        summary: {
+          pressureMmHg,
+          bubblePointC: Number(bubble.toFixed(2)),
+          dewPointC: Number(dew.toFixed(2)),
+          flashTemperatureC: Number(temperatureC.toFixed(2)),
+          state: flash.state,
+          vaporFraction: Number(flash.vaporFraction.toFixed(4)),
+        },
+        series: flash.components.map(c => ({
+          component: c.name, z: Number(c.z.toFixed(4)), x: Number(c.x.toFixed(4)), y: Number(c.y.toFixed(4)), K: Number(c.K.toFixed(4)),
+        })),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'vacuum_distillation',
+      description: 'Boiling point of a substance at a reduced operating pressure (inverse Antoine), batch heating energy compared with atmospheric operation, and the vacuum pump speed needed.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          substance: { type: Type.STRING, description: 'Substance name from the library (default Water).' },
+          pressureMmHg: { type: Type.NUMBER, description: 'Operating pressure in mmHg (default 100).' },
+          chargeKg: { type: Type.NUMBER, description: 'Mass charged to the still in kg (default 10).' },
+          evaporatedPercent: { type: Type.NUMBER, description: 'Percent of the charge boiled off (default 80).' },
+          heatCapacity: { type: Type.NUMBER, description: 'Liquid heat capacity in kJ/(kg·K) (default 4.18).' },
+          powerWatts: { type: Type.NUMBER, description: 'Heater power in watts (default 2000).' },
+          costPerKwh: { type: Type.NUMBER, description: 'Electricity price per kWh (default 0.15).' },
+          systemVolumeL: { type: Type.NUMBER, description: 'Evacuated volume in liters (default 20).' },
+          pumpDownMinutes: { type: Type.NUMBER, description: 'Time to reach the operating pressure (default 10).' },
+        },
+        required: ['pressureMmHg'],
+      },
+    },
+    run: (args) => {
+      const name = args.substance === undefined ? 'Water' : String(args.substance);
+      const params = findSubstance(name);
+      if (!params) throw new Error(`Unknown substance: ${name}. Available: ${getAllSubstances().map(s => s.name).join(', ')}`);
+      const pressureMmHg = num(args, 'pressureMmHg', 100, 1, ATMOSPHERIC_MMHG);
+      const powerWatts = num(args, 'powerWatts', 2000, 100, 10000);
+      const costPerKwh = num(args, 'costPerKwh', 0.15, 0, 2);
+      const input = {
+        chargeKg: num(args, 'chargeKg', 10, 0.1, 1000),
+        evaporatedFraction: num(args, 'evaporatedPercent', 80, 0, 100) / 100,
+        heatCapacity: num(args, 'heatCapacity', 4.18, 0.5, 5),
+        ambientC: 20,
+        heaterWatts: powerWatts,
+      };
+      const atmospheric = batchEnergy(params, ATMOSPHERIC_MMHG, input);
+      const vacuum = batchEnergy(params, pressureMmHg, input);
+      const pump = sizeVacuumPump(num(args, 'systemVolumeL', 20, 0.1, 10000), pressureMmHg, num(args, 'pumpDownMinutes', 10, 1, 240), 0.1);
+      return {
+        summary: {
+          substance: params.name,
+          pressureMmHg,
+          boilingPointC: Number(vacuum.boilingPoint.toFixed(2)),
+          atmosphericBoilingPointC: Number(atmospheric.boilingPoint.toFixed(2)),
+          vacuumEnergyKwh: Number(vacuum.totalKwh.toFixed(3)),
+          atmosphericEnergyKwh: Number(atmospheric.totalKwh.toFixed(3)),
+          energySavingPercent: Number(((1 - vacuum.totalKwh / atmospheric.totalKwh) * 100).toFixed(1)),
+          costSaving: Number(((atmospheric.totalKwh - vacuum.totalKwh) * costPerKwh).toFixed(2)),
+          pumpSpeedM3h: Number(pump.requiredSpeed.toFixed(2)),
+          ...(isInAntoineRange(vacuum.boilingPoint, params) ? {} : { warning: 'Boiling point is outside the fitted range; the value is extrapolated.' }),
+        },
+        series: generateBoilingCurve(params, Math.min(5, pressureMmHg), ATMOSPHERIC_MMHG, 30),
+      };
+    },
+  },
+  {
+    declaration: {
+      name: 'size_condenser',
+      description: 'Condenser check for the boiler vapor load: minimum cooling water flow, water outlet temperature, LMTD, uncondensed vapor and flooding at the vapor inlet.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          ...BOILER_PROPERTIES,
+          coolantInletC: { type: Type.NUMBER, description: 'Cooling water inlet temperature in °C (default 15).' },
+          coolantFlowLpm: { type: Type.NUMBER, description: 'Cooling water flow in L/min (default 2).' },
+          areaM2: { type: Type.NUMBER, description: 'Heat transfer area in m²; overrides the coil geometry when given.' },
+          coilLengthM: { type: Type.NUMBER, description: 'Coil length in m (default 3).' },
+          coilDiameterMm: { type: Type.NUMBER, description: 'Coil tube outer diameter in mm (default 10).' },
+          uValue: { type: Type.NUMBER, description: 'Overall heat transfer coefficient in W/(m²·K) (default 500).' },
+          vaporInletMm: { type: Type.NUMBER, description: 'Bore of the vapor inlet in mm, for the flooding check (default 25).' },
+        },
+      },
+    },
+    run: (args) => {
+      const boiler = boilerFromArgs(args);
+      const substance = findSubstance(args.substance === undefined ? 'Water' : String(args.substance));
+      const spec = {
+        vaporLoadWatts: boiler.heaterWatts * summarizeBoiler(boiler).boilingEfficiency,
+        latentHeat: boiler.latentHeat,
+        saturationC: boiler.boilingPoint,
+        molarMass: substance?.molarMass ?? 18.015,
+        liquidDensity: boiler.density,
+        coolantInletC: num(args, 'coolantInletC', 15, 0, 60),
+        coolantFlowLpm: num(args, 'coolantFlowLpm', 2, 0.01, 500),
+        area: args.areaM2 !== undefined
+          ? num(args, 'areaM2', 0.1, 0.001, 100)
+          : coilArea(num(args, 'coilLengthM', 3, 0.1, 200), num(args, 'coilDiameterMm', 10, 1, 100)),
+        uValue: num(args, 'uValue', 500, 10, 5000),
+        tubeDiameterMm: num(args, 'vaporInletMm', 25, 2, 500),
+      };
+      const result = evaluateCondenser(spec);
+      return {
+        summary: {
+          vaporLoadWatts: Math.round(spec.vaporLoadWatts),
+          areaM2: Number(spec.area.toFixed(4)),
+          status: result.status,
+          condensedPercent: Number((result.condensedFraction * 100).toFixed(1)),
+          minimumCoolantFlowLpm: Number.isFinite(result.requiredFlowLpm) ? Number(result.requiredFlowLpm.toFixed(3)) : 'area too small at any flow',
+          coolantOutletC: Number(result.coolantOutletC.toFixed(2)),
+          lmtdK: Number(result.lmtd.toFixed(2)),
+          requiredAreaM2: Number.isFinite(result.requiredArea) ? Number(result.requiredArea.toFixed(4)) : 'n/a',
+          floodingPercent: Number((result.floodingRatio * 100).toFixed(0)),
+        },
+        series: generateCondenserCurve(spec, Math.max(5, spec.coolantFlowLpm * 1.5), 30),
+      };
+    },
+  },
+];
+
+export const CALCULATION_TOOL_DECLARATIONS: FunctionDeclaration[] = CALCULATION_TOOLS.map(t => t.declaration);
+
+// Fields carrying a physical quantity, as [name without the unit suffix, quantity]
+const SUMMARY_QUANTITIES: Record<string, [string, Quantity]> = {
+  boilingPointC: ['boilingPoint', 'temperature'],
+  atmosphericBoilingPointC: ['atmosphericBoilingPoint', 'temperature'],
+  latentHeatKjPerKg: ['latentHeat', 'latentHeat'],
+  steadyFlowRateMlMin: ['steadyFlowRate', 'flowRate'],
+  finalTemperature: ['finalTemperature', 'temperature'],
+  totalVolumeLiters: ['totalVolume', 'volume'],
+  temperatureC: ['temperature', 'temperature'],
+  pressureMmHg: ['pressure', 'pressure'],
+  validFromC: ['validFrom', 'temperature'],
+  validToC: ['validTo', 'temperature'],
+  bubblePointC: ['bubblePoint', 'temperature'],
+  dewPointC: ['dewPoint', 'temperature'],
+  flashTemperatureC: ['flashTemperature', 'temperature'],
+  pumpSpeedM3h: ['pumpSpeed', 'pumpSpeed'],
+  areaM2: ['area', 'area'],
+  requiredAreaM2: ['requiredArea', 'area'],
+  minimumCoolantFlowLpm: ['minimumCoolantFlow', 'coolantFlow'],
+  coolantOutletC: ['coolantOutlet', 'temperature'],
+  lmtdK: ['lmtd', 'temperatureDelta'],
+};
+
+const SERIES_QUANTITIES: Record<string, [string, Quantity]> = {
+  temperature: ['temperature', 'temperature'],
+  temperatureC: ['temperature', 'temperature'],
+  pressure: ['pressure', 'pressure'],
+  boilingPoint: ['boilingPoint', 'temperature'],
+  flowRate: ['flowRate', 'flowRate'],
+  totalVolume: ['totalVolume', 'volume'],
+  coolantFlow: ['coolantFlow', 'coolantFlow'],
+  outlet: ['outlet', 'temperature'],
+};
+
+// Re-expresses a record in the user's units; converted keys carry their unit, e.g. "boilingPoint (°F)"
+const localize = <T extends Record<string, unknown>>(record: T, quantities: Record<string, [string, Quantity]>, units: UnitPreferences) =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => {
+    const entry = quantities[key];
+    if (!entry || typeof value !== 'number') return [key, value];
+    const [name, quantity] = entry;
+    return [`${name} (${unitLabel(quantity, units)})`, Number(toDisplay(quantity, value, units).toFixed(unitDigits(quantity, units) + 1))];
+  })) as T;
+
+// Tool arguments are always canonical (°C, mmHg, L, ...); results follow the user's unit preference
+export const runCalculationTool = (name: string, args: Record<string, unknown> = {}, units: UnitPreferences = DEFAULT_UNIT_PREFERENCES): ToolResult => {
+  const tool = CALCULATION_TOOLS.find(t => t.declaration.name === name);
+  if (!tool) throw new Error(`Unknown tool: ${name}`);
+  const result = tool.run(args);
+  if (isCanonical(units)) return result;
+  return {
+    summary: localize(result.summary, SUMMARY_QUANTITIES, units),
+    series: result.series.map(row => localize(row, SERIES_QUANTITIES, units)),
+  };
+};
@@ -0,0 +1,151 @@
+import { Message } from "../types";
+
+// Builds the history sent to the model within a token budget.
+// Recent turns are kept verbatim; older turns are folded into a short
+// extractive summary, large datasets become per-column statistics and
+// images already sent once are replaced by a placeholder.
+
+type ChartRow = Record<string, string | number>;
+
+export interface ContextTurn {
+  role: 'user' | 'model';
+  text: string;
+  images: string[];
+}
+
+export interface ContextOptions {
+  maxTokens?: number;
+  // Datasets up to this many rows are sent as raw JSON
+  maxRawRows?: number;
+  // Images attached to the outgoing message; earlier copies are not resent
+  newImages?: string[];
+}
+
+const DEFAULT_MAX_TOKENS = 32000;
+const DEFAULT_MAX_RAW_ROWS = 50;
+const MAX_SUMMARY_LINES = 40;
+// Gemini bills a standard image at a flat ~258 tokens
+const IMAGE_TOKENS = 258;
+
+// ~4 characters per token is close enough for budgeting English and JSON
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateTurnTokens = (turn: ContextTurn) => estimateTokens(turn.text) + turn.images.length * IMAGE_TOKENS;
+
+const round = (n: number) => Number(n.toPrecision(4));
+
+// Per-column min/max/mean/trend plus the largest step change, which usually marks an event
+// such as boil onset, a heater trip or a purity breakthrough.
+export const summarizeDataset = (rows: ChartRow[]): string => {
+  if (rows.length === 0) return 'Dataset: empty';
+  const keys = Object.keys(rows[0]);
+  const xKey = keys.find(k => /time|date|hour|minute/i.test(k)) || keys[0];
+  const lines = [`Dataset: ${rows.length} rows, columns: ${keys.join(', ')}`];
+
+  const xFirst = rows[0][xKey];
+  const xLast = rows[rows.length - 1][xKey];
+  lines.push(`${xKey}: ${xFirst} → ${xLast}`);
+
+  for (const key of keys) {
+    if (key === xKey) continue;
+    const rowIndex: number[] = [];
+    const values: number[] = [];
+    rows.forEach((r, i) => {
+      const v = r[key];
+      if (typeof v === 'number' && Number.isFinite(v)) { rowIndex.push(i); values.push(v); }
+    });
+    if (values.length === 0) continue;
+
+    const n = values.length;
+    // reduce rather than Math.min(...) so long run logs cannot overflow the stack
+    const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+    const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+    const mean = values.reduce((a, b) => a + b, 0) / n;
+    const range = max - min;
+
+    // Least-squares slope over row index
+    const meanIdx = (n - 1) / 2;
+    let num = 0;
+    let den = 0;
+    values.forEach((v, i) => { num += (i - meanIdx) * (v - mean); den += (i - meanIdx) ** 2; });
+    const slope = den === 0 ? 0 : num / den;
+    const trend = range === 0 || Math.abs(slope * n) < 0.05 * range ? 'flat' : slope > 0 ? 'rising' : 'falling';
+
+    let line = `${key}: min ${round(min)}, max ${round(max)}, mean ${round(mean)}, trend ${trend}`;
+
+    // Largest jump relative to typical row-to-row change
+    const diffs = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+    if (diffs.length > 2) {
+      const sorted = [...diffs].sort((a, b) => a - b);
+      const median = sorted[Math.floor(sorted.length / 2)];
+      const maxDiff = sorted[sorted.length - 1];
+      if (maxDiff > 0.05 * range && maxDiff > 4 * median) {
+        const idx = diffs.indexOf(maxDiff) + 1;
+        line += `; sharp change of ${round(values[idx] - values[idx - 1])} at ${xKey}=${rows[rowIndex[idx]][xKey]}`;
+      }
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
+
+// Small datasets go verbatim; anything larger is summarized instead of truncated
+export const serializeDataset = (rows: ChartRow[], maxRawRows: number = DEFAULT_MAX_RAW_ROWS): string =>
+  rows.length <= maxRawRows
+    ? `[Attached Data for Analysis: ${JSON.stringify(rows)}]`
+    : `[Attached Data Summary]\n${summarizeDataset(rows)}`;
+
+const clip = (text: string, max: number) => text.length <= max ? text : `${text.slice(0, max).trim()}…`;
+
+export const buildContext = (
+  history: Message[],
+  { maxTokens = DEFAULT_MAX_TOKENS, maxRawRows = DEFAULT_MAX_RAW_ROWS, newImages = [] }: ContextOptions = {}
+): ContextTurn[] => {
+  // Serialize every turn, sending each distinct image only once (its latest occurrence)
+  const lastImageIndex = new Map<string, number>();
+  history.forEach((m, i) => m.images?.forEach(img => lastImageIndex.set(img, i)));
+  newImages.forEach(img => lastImageIndex.set(img, history.length));
+
+  const turns: ContextTurn[] = history.map((m, i) => {
+    let text = m.text;
+    const images: string[] = [];
+    m.images?.forEach(img => {
+      if (lastImageIndex.get(img) === i) images.push(img);
+      else text += '\n[Image omitted: re-shared later in the conversation]';
+    });
+    if (m.chartData && m.chartData.length > 0) {
+      text += `\n${serializeDataset(m.chartData, maxRawRows)}`;
+    }
+    return { role: m.role, text, images };
+  });
+
+  // Keep the newest turns that fit the budget
+  let used = 0;
+  let start = turns.length;
+  while (start > 0 && used + estimateTurnTokens(turns[start - 1]) <= maxTokens) {
+    used += estimateTurnTokens(turns[start - 1]);
+    start--;
+  }
+  // The kept window must open on a user turn so roles still alternate
+  while (start < turns.length && turns[start].role !== 'user') start++;
+
+  if (start === 0) return turns;
+
+  const older = history.slice(0, start);
+  const summary = older
+    .slice(-MAX_SUMMARY_LINES)
+    .map(m => `- ${m.role === 'user' ? 'User' : 'Expert'}: ${clip(m.text.replace(/\s+/g, ' '), m.role === 'user' ? 160 : 240)}`)
+    .join('\n');
+  const kept = turns.slice(start);
+  const header = `[Summary of ${older.length} earlier messages]\n${summary}\n[End of summary]`;
+
+  if (kept.length === 0) {
+    // Pair the summary with a model turn so the outgoing user message still alternates
+    return [
+      { role: 'user', text: clip(header, maxTokens * 4), images: [] },
+      { role: 'model', text: 'Understood. Continuing from that summary.', images: [] },
+    ];
+  }
+  kept[0] = { ...kept[0], text: `${header}\n\n${kept[0].text}` };
+  return kept;
+};
@@ -0,0 +1,210 @@
+import { FinishReason, FunctionCall, GenerateContentResponse, GoogleGenAI, GroundingMetadata, Part } from "@google/genai";
+import { AppMode, Message } from "../types";
+import { LLMProvider, LLMRequest } from "./llmProvider";
+import { CALCULATION_TOOL_DECLARATIONS, runCalculationTool } from "./calculationTools";
+import { AIServiceError } from "./aiErrors";
+import { buildContext, serializeDataset } from "./contextBuilder";
+import { DEFAULT_UNIT_PREFERENCES, UnitPreferences, describeUnitPreferences } from "../utils/units";
+
+const SYSTEM_INSTRUCTION = `
+You are DistillAI, an expert assistant for distillation device operations, maintenance, and troubleshooting.
+Your target audience operates distillation equipment but requires guidance on best practices, safety, and efficiency.
+
+STRICT GUIDELINES:
+1. **Conciseness**: Be extremely concise. Avoid fluff. Get straight to the answer.
+2. **Tone**: Professional and Academic, yet accessible.
+3. **Complexity**: Do not exceed High School Chemistry concepts. Explain complex phenomena simply.
+4. **Domain**: Focus on distillation (fractional, simple, steam, vacuum) with a specialized expertise in WATER DISTILLATION.
+5. **Capabilities**:
+    - Troubleshoot issues (leaks, purity problems, heating failures).
+    - Analyze uploaded graphs (temperature vs time, vapor pressure curves).
+    - Predict outputs based on input parameters.
+    - Provide maintenance checklists.
+    - Analyze raw data provided in JSON format (e.g. Temperature, Pressure, Time logs).
+    - Run the built-in calculation tools for heating, flow, power, vapor pressure, batch and column questions. Always prefer a tool result over estimating numbers yourself.
+
+When the user asks about predicting outputs, ask for: Mixture Type, Initial Volume, Temperature, and Pressure if not provided.
+`;
+
+// Model Selection based on Mode
+// Search Mode -> gemini-2.5-flash (fast, supports search tool)
+// Expert Mode -> gemini-3-pro-preview (reasoning, complex analysis)
+const MODELS: Record<AppMode, string> = {
+  [AppMode.SEARCH]: "gemini-2.5-flash",
+  [AppMode.EXPERT]: "gemini-3-pro-preview",
+};
+
+// Builds the chat (with serialized history) and the outgoing parts shared by
+// the blocking and streaming entry points
+const prepareChat = (
+  ai: GoogleGenAI,
+  { history, message: newMessage, images, mode, chartData, units = DEFAULT_UNIT_PREFERENCES }: LLMRequest
+) => {
+  const isSearchMode = mode === AppMode.SEARCH;
+  const modelName = MODELS[mode];
+
+  const parts: any[] = [];
+  
+  // Add images if present
+  for (const img of images) {
+    // Expecting base64 string like "data:image/png;base64,..."
+    // We need to strip the prefix for the API
+    const base64Data = img.split(',')[1];
+    const mimeType = img.split(';')[0].split(':')[1];
+    
+    parts.push({
+      inlineData: {
+        mimeType: mimeType,
+        data: base64Data
+      }
+    });
+  }
+
+  let messageText = newMessage;
+  if (chartData && chartData.length > 0) {
+    messageText += `\n${serializeDataset(chartData)}`;
+  }
+  parts.push({ text: messageText });
+
+  // Prepare history
+  // The context builder keeps recent turns verbatim within the token budget,
+  // summarizes older ones and large datasets, and drops repeated images.
+  const chatHistory = buildContext(history, { newImages: images }).map(turn => ({
+    role: turn.role,
+    parts: [
+      ...turn.images.map(img => ({ 
+        inlineData: { 
+          mimeType: img.split(';')[0].split(':')[1], 
+          data: img.split(',')[1] 
+        } 
+      })),
+      { text: turn.text }
+    ]
+  }));
+
+  const config = {
+    systemInstruction: `${SYSTEM_INSTRUCTION}\nUnits: the user works in ${describeUnitPreferences(units)}. Tool arguments are always °C, mmHg, liters, watts and minutes, so convert the user's values before calling a tool. Tool results are already in the user's units; answer in those units.\n`,
+    temperature: 0.4, // Lower temperature for more academic/precise answers
+    // Google Search cannot be combined with function calling, so tools are Expert-only
+    tools: isSearchMode ? [{ googleSearch: {} }] : [{ functionDeclarations: CALCULATION_TOOL_DECLARATIONS }],
+  };
+  
+  const chat = ai.chats.create({
+    model: modelName,
+    config,
+    history: chatHistory
+  });
+
+  return { chat, parts, config };
+};
+
+const toGroundingMetadata = (groundingMetadata?: GroundingMetadata): Message['groundingMetadata'] =>
+  groundingMetadata ? {
+    webSearchQueries: groundingMetadata.webSearchQueries,
+    groundingChunks: groundingMetadata.groundingChunks
+  } : undefined;
+
+const BLOCKING_FINISH_REASONS: FinishReason[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT];
+
+// Blocked prompts and responses come back as normal responses without text
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+    throw new AIServiceError('safety', response.promptFeedback?.blockReasonMessage || `Blocked: ${finishReason}`);
+  }
+};
+
+// Upper bound on model -> tool -> model round trips per user turn
+const MAX_TOOL_ROUNDS = 4;
+
+// Runs the requested calculations locally and builds the functionResponse parts.
+// The last successful series becomes the chart attached to the reply.
+const executeToolCalls = (calls: FunctionCall[], units: UnitPreferences = DEFAULT_UNIT_PREFERENCES) => {
+  let chartData: Message['chartData'];
+  const responseParts: Part[] = calls.map(call => {
+    const name = call.name || '';
+    try {
+      const result = runCalculationTool(name, call.args, units);
+      chartData = result.series;
+      return { functionResponse: { id: call.id, name, response: { output: result.summary } } };
+    } catch (error) {
+      return { functionResponse: { id: call.id, name, response: { error: (error as Error).message } } };
+    }
+  });
+  return { responseParts, chartData };
+};
+
+export const createGeminiProvider = (apiKey: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    sendMessage: async (request) => {
+      const { chat, parts } = prepareChat(ai, request);
+      let chartData: Message['chartData'];
+
+      let response = await chat.sendMessage({
+        message: parts
+      });
+      assertNotBlocked(response);
+
+      for (let round = 0; round < MAX_TOOL_ROUNDS && response.functionCalls?.length; round++) {
+        const executed = executeToolCalls(response.functionCalls, request.units);
+        chartData = executed.chartData || chartData;
+        response = await chat.sendMessage({ message: executed.responseParts });
+        assertNotBlocked(response);
+      }
+
+      return {
+        text: response.text || "",
+        // Extract grounding metadata if available (for Search Mode)
+        groundingMetadata: toGroundingMetadata(response.candidates?.[0]?.groundingMetadata),
+        chartData
+      };
+    },
+
+    streamMessage: async (request, { onChunk, signal } = {}) => {
+      const { chat, parts, config } = prepareChat(ai, request);
+      let text = '';
+      let groundingMetadata: GroundingMetadata | undefined;
+      let chartData: Message['chartData'];
+      let message: Part[] = parts;
+
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        // Per-request config does not inherit from the chat, so resend it with the abort signal
+        const stream = await chat.sendMessageStream({
+          message,
+          config: { ...config, abortSignal: signal }
+        });
+
+        const functionCalls: FunctionCall[] = [];
+        // Each tool round answers afresh, so its text starts a new paragraph
+        let roundStart = round > 0 && text.trim() !== '';
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          if (chunk.text) {
+            if (roundStart && chunk.text.trim() !== '') {
+              text = `${text.trimEnd()}\n\n${chunk.text.trimStart()}`;
+              roundStart = false;
+            } else {
+              text += chunk.text;
+            }
+            onChunk?.(text);
+          }
+          if (chunk.functionCalls) functionCalls.push(...chunk.functionCalls);
+          // Search grounding usually arrives with the final chunk
+          const chunkGrounding = chunk.candidates?.[0]?.groundingMetadata;
+          if (chunkGrounding) groundingMetadata = chunkGrounding;
+        }
+
+        if (functionCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+        const executed = executeToolCalls(functionCalls, request.units);
+        chartData = executed.chartData || chartData;
+        message = executed.responseParts;
+      }
+
+      return { text, groundingMetadata: toGroundingMetadata(groundingMetadata), chartData };
+    },
+  };
+};
@@ -1,135 +1,135 @@
-import { GoogleGenAI, Type } from "@google/genai";
 import { AppMode, Message } from "../types";
+import { LLMProvider, LLMStreamOptions } from "./llmProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { AIServiceError, ERROR_MESSAGES, classifyError, withRetry } from "./aiErrors";
+import { DEFAULT_UNIT_PREFERENCES, UnitPreferences } from "../utils/units";
 
-// Initialize the client
-// The API key is guaranteed to be available in process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const SYSTEM_INSTRUCTION = `
-You are DistillAI, an expert assistant for distillation device operations, maintenance, and troubleshooting.
-Your target audience operates distillation equipment but requires guidance on best practices, safety, and efficiency.
-
-STRICT GUIDELINES:
-1. **Conciseness**: Be extremely concise. Avoid fluff. Get straight to the answer.
-2. **Tone**: Professional and Academic, yet accessible.
-3. **Complexity**: Do not exceed High School Chemistry concepts. Explain complex phenomena simply.
-4. **Domain**: Focus on distillation (fractional, simple, steam, vacuum) with a specialized expertise in WATER DISTILLATION.
-5. **Capabilities**:
-    - Troubleshoot issues (leaks, purity problems, heating failures).
-    - Analyze uploaded graphs (temperature vs time, vapor pressure curves).
-    - Predict outputs based on input parameters.
-    - Provide maintenance checklists.
-    - Analyze raw data provided in JSON format (e.g. Temperature, Pressure, Time logs).
-
-When the user asks about predicting outputs, ask for: Mixture Type, Initial Volume, Temperature, and Pressure if not provided.
-`;
+// Provider Selection
+// LLM_PROVIDER=mock forces the offline provider; it is also used when no API key is configured
+const createDefaultProvider = (): LLMProvider => {
+  const apiKey = process.env.API_KEY;
+  if (process.env.LLM_PROVIDER === 'mock' || !apiKey) {
+    return createMockProvider();
+  }
+  return createGeminiProvider(apiKey);
+};
+
+let provider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!provider) provider = createDefaultProvider();
+  return provider;
+};
+
+// Swap the backend at runtime (e.g. scripted mock in development)
+export const setProvider = (next: LLMProvider) => {
+  provider = next;
+};
+
+// Builds a model message describing the failure so the chat can render a distinct error state
+const errorMessage = (error: unknown, partialText: string = ''): Message => {
+  console.error("Gemini API Error:", error);
+  const classified = classifyError(error);
+  return {
+    id: crypto.randomUUID(),
+    role: 'model',
+    text: partialText ? `${partialText}\n\n${classified.message}` : classified.message,
+    timestamp: Date.now(),
+    error: { kind: classified.kind, retryable: classified.retryable }
+  };
+};
+
+// Skip the network round trip entirely when the browser knows it is offline
+const assertOnline = () => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    throw new AIServiceError('offline', ERROR_MESSAGES.offline);
+  }
+};
+
+// Previous error bubbles are UI-only and never sent back to the model
+const withoutErrors = (history: Message[]) => history.filter(m => !m.error);
 
 export const sendMessageToGemini = async (
   history: Message[],
   newMessage: string,
   images: string[] = [],
-  mode: AppMode
+  mode: AppMode,
+  chartData?: Message['chartData'],
+  units: UnitPreferences = DEFAULT_UNIT_PREFERENCES
 ): Promise<Message> => {
   try {
-    const isSearchMode = mode === AppMode.SEARCH;
-    
-    // Model Selection based on Mode
-    // Search Mode -> gemini-2.5-flash (fast, supports search tool)
-    // Expert Mode -> gemini-3-pro-preview (reasoning, complex analysis)
-    const modelName = isSearchMode ? "gemini-2.5-flash" : "gemini-3-pro-preview";
-
-    const parts: any[] = [];
-    
-    // Add images if present
-    for (const img of images) {
-      // Expecting base64 string like "data:image/png;base64,..."
-      // We need to strip the prefix for the API
-      const base64Data = img.split(',')[1];
-      const mimeType = img.split(';')[0].split(':')[1];
-      
-      parts.push({
-        inlineData: {
-          mimeType: mimeType,
-          data: base64Data
-        }
-      });
-    }
-
-    parts.push({ text: newMessage });
-
-    // Prepare history
-    // We map history items. If a history item has chartData, we serialize it into the text
-    // so the model can "see" the data context.
-    const chatHistory = history.map(h => {
-      const partsArr: any[] = [];
-      
-      if (h.images && h.images.length > 0) {
-        h.images.forEach(img => {
-          partsArr.push({ 
-            inlineData: { 
-              mimeType: img.split(';')[0].split(':')[1], 
-              data: img.split(',')[1] 
-            } 
-          });
-        });
-      }
+    assertOnline();
+    const request = { history: withoutErrors(history), message: newMessage, images, mode, chartData, units };
+    const reply = await withRetry(() => getProvider().sendMessage(request));
 
-      let textContent = h.text;
-      if (h.chartData && h.chartData.length > 0) {
-        // Limit data to prevent token overflow, taking first 50 rows if relevant
-        // Using JSON.stringify for structured data representation
-        const dataSummary = JSON.stringify(h.chartData.slice(0, 50));
-        textContent += `\n[Attached Data for Analysis: ${dataSummary}...]`;
-      }
+    return {
+      id: crypto.randomUUID(),
+      role: 'model',
+      text: reply.text || "I couldn't generate a text response. Please check the inputs.",
+      timestamp: Date.now(),
+      groundingMetadata: reply.groundingMetadata,
+      chartData: reply.chartData
+    };
 
-      partsArr.push({ text: textContent });
+  } catch (error) {
+    return errorMessage(error);
+  }
+};
 
-      return {
-        role: h.role,
-        parts: partsArr
-      };
-    });
-    
-    const chat = ai.chats.create({
-      model: modelName,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.4, // Lower temperature for more academic/precise answers
-        tools: isSearchMode ? [{ googleSearch: {} }] : [],
-      },
-      history: chatHistory
-    });
+export interface StreamOptions extends LLMStreamOptions {
+  // Called before each automatic retry of a transient failure
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
 
-    const response = await chat.sendMessage({
-      message: {
-        role: 'user',
-        parts: parts
+export const streamMessageToGemini = async (
+  history: Message[],
+  newMessage: string,
+  images: string[] = [],
+  mode: AppMode,
+  chartData?: Message['chartData'],
+  units: UnitPreferences = DEFAULT_UNIT_PREFERENCES,
+  { onChunk, signal, onRetry }: StreamOptions = {}
+): Promise<Message> => {
+  // Track partial text here so a stop keeps whatever already arrived
+  let responseText = '';
+
+  const stoppedMessage = (): Message => ({
+    id: crypto.randomUUID(),
+    role: 'model',
+    text: responseText ? `${responseText}\n\n*Response stopped.*` : "*Response stopped.*",
+    timestamp: Date.now()
+  });
+
+  try {
+    assertOnline();
+    const request = { history: withoutErrors(history), message: newMessage, images, mode, chartData, units };
+    const reply = await withRetry(() => getProvider().streamMessage(request, {
+      signal,
+      onChunk: (text) => {
+        responseText = text;
+        onChunk?.(text);
       }
+    }), {
+      signal,
+      // Once tokens are on screen a retry would duplicate them
+      shouldRetry: () => responseText === '',
+      onRetry: (attempt, _error, delayMs) => onRetry?.(attempt, delayMs)
     });
 
-    const responseText = response.text || "I couldn't generate a text response. Please check the inputs.";
-    
-    // Extract grounding metadata if available (for Search Mode)
-    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    if (signal?.aborted) return { ...stoppedMessage(), groundingMetadata: reply.groundingMetadata };
 
     return {
       id: crypto.randomUUID(),
       role: 'model',
-      text: responseText,
+      text: reply.text || "I couldn't generate a text response. Please check the inputs.",
       timestamp: Date.now(),
-      groundingMetadata: groundingMetadata ? {
-        webSearchQueries: groundingMetadata.webSearchQueries,
-        groundingChunks: groundingMetadata.groundingChunks
-      } : undefined
+      groundingMetadata: reply.groundingMetadata,
+      chartData: reply.chartData
     };
 
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return {
-      id: crypto.randomUUID(),
-      role: 'model',
-      text: "An error occurred while communicating with the distillation expert system. Please try again.",
-      timestamp: Date.now()
-    };
+    if (signal?.aborted) return stoppedMessage();
+    return errorMessage(error, responseText);
   }
 };
\ No newline at end of file
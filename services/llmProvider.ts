@@ -0,0 +1,35 @@
+import { AppMode, Message } from "../types";
+import { UnitPreferences } from "../utils/units";
+
+// A single chat turn as handed to a provider
+export interface LLMRequest {
+  history: Message[];
+  message: string;
+  images: string[];
+  mode: AppMode;
+  chartData?: Message['chartData'];
+  // Calculation-tool results are converted to these units
+  units?: UnitPreferences;
+}
+
+export interface LLMReply {
+  text: string;
+  groundingMetadata?: Message['groundingMetadata'];
+  // Series produced by calculation tools during the turn
+  chartData?: Message['chartData'];
+}
+
+export interface LLMStreamOptions {
+  // Receives the accumulated reply text after every chunk
+  onChunk?: (text: string) => void;
+  // Aborting keeps the partial reply instead of discarding it
+  signal?: AbortSignal;
+}
+
+// Providers only talk to their backend; message ids, timestamps and
+// user-facing error text are handled by geminiService
+export interface LLMProvider {
+  name: string;
+  sendMessage: (request: LLMRequest) => Promise<LLMReply>;
+  streamMessage: (request: LLMRequest, options?: LLMStreamOptions) => Promise<LLMReply>;
+}
@@ -0,0 +1,88 @@
+import { AppMode, Message } from "../types";
+import { LLMProvider, LLMReply, LLMRequest } from "./llmProvider";
+import { runCalculationTool } from "./calculationTools";
+import { summarizeDataset } from "./contextBuilder";
+
+// Offline provider that replays scripted answers so the chat and
+// data-analysis flows work without network access or an API key.
+// Replies depend only on the request, never on time or randomness.
+
+export interface MockScriptEntry {
+  match: RegExp;
+  reply: string;
+  // Calculation tool to run, mimicking a model function call
+  tool?: { name: string; args: Record<string, unknown> };
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScriptEntry[] = [
+  {
+    match: /conductiv|purity|µs|us\/cm/i,
+    reply: "**High distillate conductivity** usually means carry-over or contamination.\n\n1. Check the boiler is not overfilled (foaming carries feed water into the condenser).\n2. Inspect the vent filter and storage tank for CO₂ absorption.\n3. Descale if the last acid wash was over a month ago.\n\nTarget: **< 2.0 µS/cm** after the first 10 minutes of collection.",
+  },
+  {
+    match: /descal|scale|citric/i,
+    reply: "**Descaling:** drain the boiler, fill with 10% citric acid, soak 4 hours, then flush 3 times with tap water. Hard feed water (> 150 mg/L CaCO₃) may need a monthly cycle.",
+  },
+  {
+    match: /leak|drip|gasket|seal/i,
+    reply: "**Leak check:** isolate power, let the unit cool below 60°C, then inspect feed lines, the boiler drain and condenser gaskets. Replace any brittle silicone seals before restarting.",
+  },
+  {
+    // Boil-time and production-rate questions only; "heat" or "output" alone says too little
+    match: /time to boil|heat-?up time|how long .*(boil|heat)|(predict|estimate).*(output|boil|heat-?up|distillate|yield)|(distillate|production|output) rate|how much distillate/i,
+    reply: "**Estimated output:** a 5 L water still on a 2 kW heater, losing ~240 W through the shell, boils after about **15 minutes** and then produces roughly **46 mL/min** (≈ 2.7 L/h).",
+    tool: { name: 'simulate_heating', args: { volumeLiters: 5, powerWatts: 2000, lossCoefficient: 3 } },
+  },
+];
+
+const FALLBACK_REPLY = "*(Offline mock provider)* I can answer scripted questions about conductivity, descaling, leaks and output estimates. Connect a Gemini API key for full answers.";
+
+const STREAM_DELAY_MS = 20;
+
+const buildReply = (request: LLMRequest, script: MockScriptEntry[]): LLMReply => {
+  if (request.chartData && request.chartData.length > 0) {
+    return { text: `**Data summary**\n\n\`\`\`\n${summarizeDataset(request.chartData)}\n\`\`\`` };
+  }
+  const entry = script.find(e => e.match.test(request.message));
+  let text = entry ? entry.reply : FALLBACK_REPLY;
+  let chartData: Message['chartData'];
+
+  // Tools only run in Expert mode, matching the Gemini provider
+  if (entry?.tool && request.mode === AppMode.EXPERT) {
+    const result = runCalculationTool(entry.tool.name, entry.tool.args, request.units);
+    const figures = Object.entries(result.summary).map(([k, v]) => `${k}: ${v}`).join(', ');
+    text += `\n\n**${entry.tool.name}** → ${figures}`;
+    chartData = result.series;
+  }
+
+  if (request.mode === AppMode.SEARCH) text += `\n\n*Web search is unavailable offline.*`;
+  return { text, chartData };
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+export const createMockProvider = (script: MockScriptEntry[] = DEFAULT_MOCK_SCRIPT): LLMProvider => ({
+  name: 'mock',
+
+  sendMessage: async (request) => buildReply(request, script),
+
+  streamMessage: async (request, { onChunk, signal } = {}) => {
+    const reply = buildReply(request, script);
+    // Replay word by word, keeping whitespace so the markdown is preserved
+    const tokens = reply.text.match(/\S+\s*/g) || [];
+    let text = '';
+    for (const token of tokens) {
+      await wait(STREAM_DELAY_MS, signal);
+      text += token;
+      onChunk?.(text);
+    }
+    return { ...reply, text };
+  },
+});
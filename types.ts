@@ -3,6 +3,7 @@ export enum AppView {
   MAINTENANCE = 'maintenance',
   PROCEDURES = 'procedures',
   CHAT = 'chat',
+  FLEET = 'fleet',
 }
 
 export enum AppMode {
@@ -10,6 +11,16 @@ export enum AppMode {
   EXPERT = 'expert',
 }
 
+export type AIErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'safety'
+  | 'payload_too_large'
+  | 'offline'
+  | 'network'
+  | 'server'
+  | 'unknown';
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
@@ -26,6 +37,10 @@ export interface Message {
       };
     }>;
   };
+  error?: {
+    kind: AIErrorKind;
+    retryable: boolean;
+  };
 }
 
 export interface ChatSession {
@@ -35,9 +50,74 @@ export interface ChatSession {
   lastModified: number;
 }
 
+export type AntoinePressureUnit = 'mmHg' | 'kPa' | 'bar';
+
+// log10(P) = A - B / (T + C), with T in °C and P in pressureUnit
 export interface AntoineParams {
   name: string;
   A: number;
   B: number;
   C: number;
-}
\ No newline at end of file
+  tMin: number;         // Lower bound of the fitted range (°C)
+  tMax: number;         // Upper bound of the fitted range (°C)
+  pressureUnit: AntoinePressureUnit;
+  molarMass: number;    // g/mol
+  source: string;
+  custom?: boolean;     // User-defined library entry
+}
+
+export type CalculatorModule =
+  | 'heating'
+  | 'antoine'
+  | 'conductivity'
+  | 'flow'
+  | 'power'
+  | 'mccabe'
+  | 'batch'
+  | 'vle'
+  | 'flash'
+  | 'vacuum'
+  | 'condenser';
+
+export type MaintenanceFrequency = 'Daily' | 'Weekly' | 'Monthly' | 'Quarterly';
+
+export type MaintenanceReadingKind = 'conductivity' | 'resistance';
+
+// A measurement taken while completing a task, checked against optional limits
+export interface MaintenanceReadingSpec {
+  key: string;
+  kind: MaintenanceReadingKind;
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+// Calendar tasks reset each period; day and hour intervals run from the last completion
+export type MaintenanceInterval =
+  | { kind: 'calendar'; frequency: MaintenanceFrequency }
+  | { kind: 'days'; days: number }
+  | { kind: 'hours'; hours: number }       // Heater-hours logged since the last completion
+  | { kind: 'liters'; liters: number };    // Distillate produced since the last completion
+
+export interface MaintenanceTask {
+  id: string;
+  interval: MaintenanceInterval;
+  title: string;
+  desc: string;
+  critical: boolean;
+  readings?: MaintenanceReadingSpec[];
+  sopIds?: string[];    // Linked standard procedures
+  retired?: boolean;    // Hidden from the checklist; kept so history keeps its titles
+  addedAt?: number;     // When added to the catalog; built-in tasks have none
+}
+
+// One distillation still in the fleet registry
+export interface StillUnit {
+  id: string;
+  name: string;
+  model: string;
+  heaterPowerW: number;
+  boilerVolumeL: number;
+  location: string;
+  createdAt: number;    // Calendar tasks never completed are scheduled from here
+}
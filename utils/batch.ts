@@ -0,0 +1,271 @@
+import { EquilibriumCurve, constantAlphaCurve } from './calculations';
+
+// --- Batch Distillation (Rayleigh) ---
+// Integrates the still balance d(W·x_W) = x_D·dW against the fraction distilled
+// s = 1 - W/F:  dx_W/ds = -(x_D - x_W) / (1 - s), with adaptive Cash-Karp RK45.
+// x_D comes from stepping the stages above the still, so the same model covers
+// simple (pot still), constant-reflux and constant-distillate-composition runs.
+
+export type BatchOperation = 'simple' | 'constantReflux' | 'constantComposition';
+
+export const BATCH_OPERATION_LABELS: Record<BatchOperation, string> = {
+  simple: 'Simple (no reflux)',
+  constantReflux: 'Constant reflux',
+  constantComposition: 'Constant x_D',
+};
+
+export type BatchStopCriterion = 'stillComposition' | 'distillatePurity' | 'distilledFraction';
+
+export const BATCH_STOP_LABELS: Record<BatchStopCriterion, string> = {
+  stillComposition: 'Still x_W',
+  distillatePurity: 'Avg. x_D',
+  distilledFraction: '% Distilled',
+};
+
+export const CUT_NAMES = ['Foreshots', 'Heads', 'Hearts', 'Tails'] as const;
+export type CutName = typeof CUT_NAMES[number];
+
+export interface BatchSpec {
+  operation: BatchOperation;
+  feedComposition: number;
+  stages: number;               // Theoretical stages above the still (ignored for simple)
+  refluxRatio: number;          // Constant-reflux operation
+  distillateComposition: number;// Held x_D for constant-composition operation
+  maxReflux: number;            // Constant-composition run ends when this is not enough
+  stop: { criterion: BatchStopCriterion; value: number };
+  // Cumulative fraction distilled where foreshots, heads and hearts end; tails run to the stop
+  cutPoints: [number, number, number];
+}
+
+export interface BatchPoint {
+  distilled: number;            // Fraction of the charge distilled, s
+  residue: number;              // Still composition x_W
+  distillate: number;           // Instantaneous x_D
+  averageDistillate: number;    // Accumulated distillate composition
+  refluxRatio: number;
+  boilup: number;               // Vapor generated per unit charge, ∫(R + 1) ds
+}
+
+export interface BatchCut {
+  name: CutName;
+  start: number;
+  end: number;
+  averageComposition: number;
+}
+
+export type BatchStopReason = 'target reached' | 'target unreachable' | 'reflux limit' | 'still exhausted';
+
+export interface BatchResult {
+  points: BatchPoint[];
+  cuts: BatchCut[];
+  stopReason: BatchStopReason;
+  final: BatchPoint;
+  steps: number;                // Accepted integrator steps
+}
+
+export const DEFAULT_BATCH_SPEC: BatchSpec = {
+  operation: 'simple',
+  feedComposition: 0.5,
+  stages: 3,
+  refluxRatio: 2,
+  distillateComposition: 0.9,
+  maxReflux: 20,
+  stop: { criterion: 'distilledFraction', value: 0.95 },
+  cutPoints: [0.02, 0.1, 0.6],
+};
+
+// Past this the still is effectively dry and 1/(1 - s) blows up
+const MAX_DISTILLED = 0.99;
+const TOLERANCE = 1e-7;
+const MAX_STEPS = 5000;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Still liquid reached by stepping down from a total condenser at x_D through
+// the stages and the still itself (one equilibrium step more than `stages`)
+export const stillComposition = (curve: EquilibriumCurve, distillate: number, refluxRatio: number, stages: number) => {
+  let x = curve.x(distillate);
+  for (let i = 0; i < stages; i++) {
+    x = curve.x(clamp01((refluxRatio * x + distillate) / (refluxRatio + 1)));
+  }
+  return x;
+};
+
+// Increasing in the bracketed variable when `increasing`, else decreasing
+const bisect = (f: (v: number) => number, lo: number, hi: number, increasing: boolean) => {
+  for (let i = 0; i < 60 && hi - lo > 1e-12; i++) {
+    const mid = (lo + hi) / 2;
+    if ((f(mid) > 0) === increasing) hi = mid; else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+interface Column {
+  distillate: number;
+  refluxRatio: number;
+  feasible: boolean;
+}
+
+const columnState = (curve: EquilibriumCurve, spec: BatchSpec, residue: number): Column => {
+  if (spec.operation === 'simple') return { distillate: curve.y(residue), refluxRatio: 0, feasible: true };
+
+  if (spec.operation === 'constantReflux') {
+    const distillate = bisect(xD => stillComposition(curve, xD, spec.refluxRatio, spec.stages) - residue, residue, 1, true);
+    return { distillate, refluxRatio: spec.refluxRatio, feasible: true };
+  }
+
+  // Constant x_D: the reflux needed rises as the still is stripped
+  const xD = spec.distillateComposition;
+  const reached = (R: number) => stillComposition(curve, xD, R, spec.stages) - residue;
+  if (reached(0) <= 0) return { distillate: xD, refluxRatio: 0, feasible: true };
+  if (reached(spec.maxReflux) > 0) return { distillate: xD, refluxRatio: spec.maxReflux, feasible: false };
+  return { distillate: xD, refluxRatio: bisect(reached, 0, spec.maxReflux, false), feasible: true };
+};
+
+// State: [x_W, boil-up]
+type State = [number, number];
+
+const derivative = (curve: EquilibriumCurve, spec: BatchSpec, s: number, [x]: State): State => {
+  const column = columnState(curve, spec, clamp01(x));
+  return [-(column.distillate - x) / (1 - s), column.refluxRatio + 1];
+};
+
+// Cash-Karp coefficients
+const A = [[], [1 / 5], [3 / 40, 9 / 40], [3 / 10, -9 / 10, 6 / 5], [-11 / 54, 5 / 2, -70 / 27, 35 / 27],
+  [1631 / 55296, 175 / 512, 575 / 13824, 44275 / 110592, 253 / 4096]];
+const C = [0, 1 / 5, 3 / 10, 3 / 5, 1, 7 / 8];
+const B5 = [37 / 378, 0, 250 / 621, 125 / 594, 0, 512 / 1771];
+const B4 = [2825 / 27648, 0, 18575 / 48384, 13525 / 55296, 277 / 14336, 1 / 4];
+
+const rkStep = (f: (s: number, y: State) => State, s: number, y: State, h: number): { next: State; error: number } => {
+  const k: State[] = [];
+  for (let i = 0; i < 6; i++) {
+    const yi = y.map((v, j) => v + h * A[i].reduce((sum, a, m) => sum + a * k[m][j], 0)) as State;
+    k.push(f(s + C[i] * h, yi));
+  }
+  const next = y.map((v, j) => v + h * B5.reduce((sum, b, i) => sum + b * k[i][j], 0)) as State;
+  const lower = y.map((v, j) => v + h * B4.reduce((sum, b, i) => sum + b * k[i][j], 0));
+  // Error control on the still composition; boil-up only accumulates
+  return { next, error: Math.abs(next[0] - lower[0]) };
+};
+
+export const simulateBatchDistillation = (equilibrium: number | EquilibriumCurve, spec: BatchSpec): BatchResult => {
+  const curve = typeof equilibrium === 'number' ? constantAlphaCurve(equilibrium) : equilibrium;
+  const xF = spec.feedComposition;
+  const f = (s: number, y: State) => derivative(curve, spec, s, y);
+
+  const point = (s: number, [x, boilup]: State): BatchPoint => {
+    const column = columnState(curve, spec, clamp01(x));
+    return {
+      distilled: s,
+      residue: clamp01(x),
+      distillate: column.distillate,
+      // Light component in the receiver is what left the still
+      averageDistillate: s > 0 ? clamp01((xF - (1 - s) * x) / s) : column.distillate,
+      refluxRatio: column.refluxRatio,
+      boilup,
+    };
+  };
+
+  // The average purity only falls, so its target counts once the receiver has been above it;
+  // a target above the first drop can never be met
+  let purityArmed = point(0, [xF, 0]).averageDistillate > spec.stop.value;
+
+  // Positive once the run should end
+  const overshoot = (p: BatchPoint): number => {
+    const { criterion, value } = spec.stop;
+    if (criterion === 'stillComposition') return value - p.residue;
+    if (criterion === 'distillatePurity') return p.distilled > 0 && purityArmed ? value - p.averageDistillate : -1;
+    return p.distilled - value;
+  };
+  const infeasible = (p: BatchPoint) => !columnState(curve, spec, p.residue).feasible;
+
+  const end = spec.stop.criterion === 'distilledFraction' ? Math.min(MAX_DISTILLED, spec.stop.value) : MAX_DISTILLED;
+  // The integrator lands exactly on each cut boundary so cut compositions are exact
+  const boundaries = [...spec.cutPoints.filter(c => c > 0 && c < end), end].sort((a, b) => a - b);
+
+  let s = 0;
+  let y: State = [xF, 0];
+  let h = 1e-3;
+  let steps = 0;
+  const points = [point(0, y)];
+  let stopReason: BatchStopReason = 'still exhausted';
+
+  if (infeasible(points[0])) stopReason = 'reflux limit';
+  else if (overshoot(points[0]) >= 0) stopReason = 'target reached';
+  else {
+    while (steps < MAX_STEPS) {
+      const target = boundaries.find(b => b > s + 1e-12) ?? end;
+      const step = Math.min(h, target - s);
+      const { next, error } = rkStep(f, s, y, step);
+      // Standard step-size controller, growth limited to 5x
+      const factor = error > 0 ? Math.min(5, Math.max(0.2, 0.9 * Math.pow(TOLERANCE / error, 0.2))) : 5;
+      if (error > TOLERANCE && step > 1e-9) { h = step * factor; continue; }
+      steps++;
+
+      const candidate = point(s + step, next);
+      const stopped = overshoot(candidate) >= 0 || infeasible(candidate);
+      if (stopped) {
+        // Locate the event inside the step by bisection on the step length
+        const event = (p: BatchPoint) => overshoot(p) >= 0 || infeasible(p);
+        let lo = 0;
+        let hi = step;
+        for (let i = 0; i < 40; i++) {
+          const mid = (lo + hi) / 2;
+          if (event(point(s + mid, rkStep(f, s, y, mid).next))) hi = mid; else lo = mid;
+        }
+        const last = point(s + hi, rkStep(f, s, y, hi).next);
+        points.push(last);
+        stopReason = overshoot(last) >= 0 ? 'target reached' : 'reflux limit';
+        s = last.distilled;
+        y = [last.residue, last.boilup];
+        break;
+      }
+
+      s += step;
+      y = next;
+      points.push(candidate);
+      if (candidate.averageDistillate > spec.stop.value) purityArmed = true;
+      h = step * factor;
+      if (s >= end - 1e-12) {
+        stopReason = spec.stop.criterion === 'distilledFraction' && spec.stop.value <= MAX_DISTILLED ? 'target reached' : 'still exhausted';
+        break;
+      }
+    }
+  }
+  if (spec.stop.criterion === 'distillatePurity' && !purityArmed) stopReason = 'target unreachable';
+
+  return { points, cuts: planCuts(points, spec.cutPoints, xF), stopReason, final: points[points.length - 1], steps };
+};
+
+// Light component collected by fraction distilled s, from the overall balance
+const collected = (p: BatchPoint, xF: number) => xF - (1 - p.distilled) * p.residue;
+
+// Splits the receiver into foreshots, heads, hearts and tails; cuts past the end of the run are empty
+export const planCuts = (points: BatchPoint[], cutPoints: [number, number, number], xF: number): BatchCut[] => {
+  const last = points[points.length - 1];
+  const at = (s: number) => points.find(p => Math.abs(p.distilled - s) < 1e-9) ?? last;
+  const edges = [0, ...cutPoints.map(c => Math.min(c, last.distilled)), last.distilled];
+  return CUT_NAMES.map((name, i) => {
+    const start = edges[i];
+    const end = Math.max(start, edges[i + 1]);
+    const from = i === 0 ? points[0] : at(start);
+    const to = at(end);
+    return {
+      name,
+      start,
+      end,
+      averageComposition: end - start > 1e-9 ? clamp01((collected(to, xF) - collected(from, xF)) / (end - start)) : 0,
+    };
+  });
+};
+
+// Chart rows; cut boundaries are integration points, so they appear in the series
+export const toBatchChartRows = (result: BatchResult) =>
+  result.points.map(p => ({
+    percentDistilled: Number((p.distilled * 100).toFixed(2)),
+    residueComposition: Number(p.residue.toFixed(4)),
+    distillateComposition: Number(p.distillate.toFixed(4)),
+    averageDistillate: Number(p.averageDistillate.toFixed(4)),
+    refluxRatio: Number(p.refluxRatio.toFixed(3)),
+  }));
@@ -0,0 +1,166 @@
+import { AntoineParams } from '../types';
+import { calculateBoilingPoint } from './calculations';
+import { heatOfVaporization } from './vacuum';
+
+// --- Boiler Energy Balance ---
+// Lumped single-node model of the still pot. Heat-up:
+//   m·cp·dT/dt = P − UA·(T − Tₐ)
+// which is first order with τ = m·cp / UA and asymptote Tₐ + P/UA. Once T reaches
+// the boiling point the temperature holds and the surplus heat boils liquid off:
+//   ṁ = (P − UA·(T_b − Tₐ)) / h_vap
+// The heater cuts out when the charge has boiled dry. All outputs are closed form,
+// so the Temperature, Flow and Power modules (and the fits) share one model.
+
+export interface BoilerSpec {
+  volumeLiters: number;     // Initial charge
+  density: number;          // kg/L, liquid and condensed distillate
+  heatCapacity: number;     // Liquid cp in kJ/(kg·K)
+  latentHeat: number;       // kJ/kg at the boiling point
+  boilingPoint: number;     // °C at the operating pressure
+  heaterWatts: number;
+  lossCoefficient: number;  // UA in W/K, shell losses to ambient
+  ambientC: number;
+  initialC: number;
+}
+
+export interface BoilerSummary {
+  timeToBoil: number;       // Minutes; Infinity when the losses outrun the heater
+  steadyFlowRate: number;   // mL/min while boiling
+  lossWatts: number;        // Shell losses at the boiling point
+  boilingEfficiency: number;// Share of heater power that boils liquid off
+  dryAfter: number;         // Minutes until the charge is gone; Infinity if never
+}
+
+// Boiling point and Clausius-Clapeyron latent heat (kJ/kg) from the substance's Antoine constants
+export const boilerPropertiesFor = (substance: AntoineParams, pressureMmHg: number = 760) => {
+  const boilingPoint = calculateBoilingPoint(pressureMmHg, substance);
+  return { boilingPoint, latentHeat: heatOfVaporization(boilingPoint, substance) / substance.molarMass };
+};
+
+// The Calculator's boiler inputs, by the names its scenarios and tools use
+export interface BoilerParams {
+  boilerVolume: number;     // L
+  liquidDensity: number;
+  heatCapacity: number;
+  powerWatts: number;
+  lossCoefficient: number;
+  ambientC: number;
+  t0: number;               // Initial liquid temperature
+}
+
+// Matches the Calculator's starting inputs: 4 L of water on a 2 kW heater
+export const DEFAULT_BOILER_PARAMS: BoilerParams = {
+  boilerVolume: 4,
+  liquidDensity: 1.0,
+  heatCapacity: 4.18,
+  powerWatts: 2000,
+  lossCoefficient: 3,
+  ambientC: 20,
+  t0: 20,
+};
+
+// Boils the given substance at 1 atm
+export const boilerSpecFrom = (params: BoilerParams, substance: AntoineParams): BoilerSpec => ({
+  ...boilerPropertiesFor(substance),
+  volumeLiters: params.boilerVolume,
+  density: params.liquidDensity,
+  heatCapacity: params.heatCapacity,
+  heaterWatts: params.powerWatts,
+  lossCoefficient: params.lossCoefficient,
+  ambientC: params.ambientC,
+  initialC: params.t0,
+});
+
+const massKg = (spec: BoilerSpec) => spec.volumeLiters * spec.density;
+
+// Seconds; heat capacity of the charge over the loss coefficient
+const timeConstant = (spec: BoilerSpec) => massKg(spec) * spec.heatCapacity * 1000 / spec.lossCoefficient;
+
+export const summarizeBoiler = (spec: BoilerSpec): BoilerSummary => {
+  const mcp = massKg(spec) * spec.heatCapacity * 1000;   // J/K
+  const rise = spec.boilingPoint - spec.initialC;
+  const lossWatts = spec.lossCoefficient * (spec.boilingPoint - spec.ambientC);
+  const surplus = spec.heaterWatts - lossWatts;
+
+  let timeToBoil: number;
+  if (rise <= 0) timeToBoil = 0;
+  else if (surplus <= 0) timeToBoil = Infinity;
+  else if (spec.lossCoefficient <= 0) timeToBoil = mcp * rise / spec.heaterWatts / 60;
+  else {
+    const asymptote = spec.heaterWatts / spec.lossCoefficient;
+    timeToBoil = timeConstant(spec) * Math.log((asymptote + spec.ambientC - spec.initialC) / (asymptote + spec.ambientC - spec.boilingPoint)) / 60;
+  }
+
+  // g/s → mL/min
+  const gramsPerSecond = surplus > 0 ? surplus / spec.latentHeat : 0;
+  const steadyFlowRate = gramsPerSecond * 60 / spec.density;
+  const boilOff = steadyFlowRate > 0 ? spec.volumeLiters * 1000 / steadyFlowRate : Infinity;
+
+  return {
+    timeToBoil,
+    steadyFlowRate,
+    lossWatts: Math.max(0, lossWatts),
+    boilingEfficiency: spec.heaterWatts > 0 ? Math.max(0, surplus) / spec.heaterWatts : 0,
+    dryAfter: timeToBoil + boilOff,
+  };
+};
+
+export const boilerTemperatureAt = (spec: BoilerSpec, t: number) => {
+  const { timeToBoil } = summarizeBoiler(spec);
+  if (t >= timeToBoil) return spec.boilingPoint;
+  const seconds = Math.max(0, t) * 60;
+  if (spec.lossCoefficient <= 0) return spec.initialC + spec.heaterWatts * seconds / (massKg(spec) * spec.heatCapacity * 1000);
+  const asymptote = spec.ambientC + spec.heaterWatts / spec.lossCoefficient;
+  return asymptote - (asymptote - spec.initialC) * Math.exp(-seconds / timeConstant(spec));
+};
+
+export const boilerFlowRateAt = (spec: BoilerSpec, t: number) => {
+  const { timeToBoil, steadyFlowRate, dryAfter } = summarizeBoiler(spec);
+  return t > timeToBoil && t < dryAfter ? steadyFlowRate : 0;
+};
+
+// Litres collected
+export const boilerVolumeAt = (spec: BoilerSpec, t: number) => {
+  const { timeToBoil, steadyFlowRate, dryAfter } = summarizeBoiler(spec);
+  if (t <= timeToBoil) return 0;
+  return steadyFlowRate * (Math.min(t, dryAfter) - timeToBoil) / 1000;
+};
+
+// Heater energy drawn in kWh; the heater cuts out at dry-out
+export const boilerEnergyAt = (spec: BoilerSpec, t: number) => {
+  const { dryAfter } = summarizeBoiler(spec);
+  return spec.heaterWatts * Math.max(0, Math.min(t, dryAfter)) / 60000;
+};
+
+// Shell losses in kWh: ∫UA(T − Tₐ)dt over heat-up plus the boiling plateau
+export const boilerLossAt = (spec: BoilerSpec, t: number) => {
+  const { timeToBoil, lossWatts, dryAfter } = summarizeBoiler(spec);
+  const heatUp = Math.max(0, Math.min(t, timeToBoil)) * 60;
+  let joules = 0;
+  if (spec.lossCoefficient > 0 && heatUp > 0) {
+    const tau = timeConstant(spec);
+    const excess = spec.heaterWatts / spec.lossCoefficient;
+    const start = spec.initialC - spec.ambientC;
+    joules = spec.lossCoefficient * (excess * heatUp - (excess - start) * tau * (1 - Math.exp(-heatUp / tau)));
+  }
+  if (t > timeToBoil) joules += lossWatts * (Math.min(t, dryAfter) - timeToBoil) * 60;
+  return joules / 3.6e6;
+};
+
+// One row per minute carrying every series the Temperature, Flow and Power modules plot
+export const generateBoilerData = (spec: BoilerSpec, costPerKwh: number, timeMinutes: number = 60) => {
+  const data = [];
+  for (let t = 0; t <= timeMinutes; t += 1) {
+    const energy = boilerEnergyAt(spec, t);
+    data.push({
+      time: t,
+      temperature: Number(boilerTemperatureAt(spec, t).toFixed(2)),
+      flowRate: Number(boilerFlowRateAt(spec, t).toFixed(1)),
+      totalVolume: Number(boilerVolumeAt(spec, t).toFixed(2)),
+      energy: Number(energy.toFixed(3)),
+      losses: Number(boilerLossAt(spec, t).toFixed(3)),
+      cost: Number((energy * costPerKwh).toFixed(2)),
+    });
+  }
+  return data;
+};
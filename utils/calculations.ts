@@ -1,23 +1,50 @@
-import { AntoineParams } from "../types";
+import { AntoineParams, AntoinePressureUnit } from "../types";
 
-// Common substances Antoine Constants (P in mmHg, T in Celsius)
+// Built-in substance library: Antoine constants (log10, P in mmHg, T in Celsius)
+// with the temperature range each set was fitted over
+const LANGE = "Lange's Handbook of Chemistry";
 export const SUBSTANCES: AntoineParams[] = [
-  { name: 'Water', A: 8.07131, B: 1730.63, C: 233.426 },
-  { name: 'Ethanol', A: 8.20417, B: 1642.89, C: 230.300 },
-  { name: 'Methanol', A: 7.9705, B: 1521.23, C: 233.97 },
-  { name: 'Acetone', A: 7.02447, B: 1161.0, C: 224.0 },
-  { name: 'Benzene', A: 6.90565, B: 1211.033, C: 220.790 },
-  { name: 'Toluene', A: 6.95334, B: 1343.943, C: 219.377 }
+  { name: 'Water', A: 8.07131, B: 1730.63, C: 233.426, tMin: 1, tMax: 100, pressureUnit: 'mmHg', molarMass: 18.015, source: LANGE },
+  { name: 'Water (high T)', A: 8.14019, B: 1810.94, C: 244.485, tMin: 99, tMax: 374, pressureUnit: 'mmHg', molarMass: 18.015, source: LANGE },
+  { name: 'Ethanol', A: 8.20417, B: 1642.89, C: 230.300, tMin: -57, tMax: 80, pressureUnit: 'mmHg', molarMass: 46.07, source: LANGE },
+  { name: 'Methanol', A: 7.9705, B: 1521.23, C: 233.97, tMin: -14, tMax: 65, pressureUnit: 'mmHg', molarMass: 32.04, source: LANGE },
+  { name: 'Isopropanol', A: 8.11778, B: 1580.92, C: 219.61, tMin: 0, tMax: 101, pressureUnit: 'mmHg', molarMass: 60.10, source: LANGE },
+  { name: '1-Propanol', A: 7.74416, B: 1437.686, C: 198.463, tMin: 60, tMax: 105, pressureUnit: 'mmHg', molarMass: 60.10, source: LANGE },
+  { name: '1-Butanol', A: 7.47680, B: 1362.39, C: 178.77, tMin: 15, tMax: 131, pressureUnit: 'mmHg', molarMass: 74.12, source: LANGE },
+  { name: 'Acetone', A: 7.02447, B: 1161.0, C: 224.0, tMin: -13, tMax: 55, pressureUnit: 'mmHg', molarMass: 58.08, source: LANGE },
+  { name: 'Methyl Ethyl Ketone', A: 7.06356, B: 1261.339, C: 221.969, tMin: 43, tMax: 88, pressureUnit: 'mmHg', molarMass: 72.11, source: LANGE },
+  { name: 'Ethyl Acetate', A: 7.10179, B: 1244.95, C: 217.88, tMin: 16, tMax: 76, pressureUnit: 'mmHg', molarMass: 88.11, source: LANGE },
+  { name: 'Acetic Acid', A: 7.38782, B: 1533.313, C: 222.309, tMin: 29.8, tMax: 126.5, pressureUnit: 'mmHg', molarMass: 60.05, source: LANGE },
+  { name: 'Diethyl Ether', A: 6.92032, B: 1064.07, C: 228.8, tMin: -40, tMax: 35, pressureUnit: 'mmHg', molarMass: 74.12, source: LANGE },
+  { name: 'Tetrahydrofuran', A: 6.99515, B: 1202.29, C: 226.254, tMin: 23, tMax: 100, pressureUnit: 'mmHg', molarMass: 72.11, source: LANGE },
+  { name: 'Acetonitrile', A: 7.33986, B: 1482.29, C: 250.523, tMin: -27, tMax: 81, pressureUnit: 'mmHg', molarMass: 41.05, source: LANGE },
+  { name: 'Dichloromethane', A: 7.0803, B: 1138.91, C: 231.45, tMin: -44, tMax: 59, pressureUnit: 'mmHg', molarMass: 84.93, source: LANGE },
+  { name: 'Chloroform', A: 6.95465, B: 1170.966, C: 226.232, tMin: -10, tMax: 60, pressureUnit: 'mmHg', molarMass: 119.38, source: LANGE },
+  { name: 'n-Hexane', A: 6.87601, B: 1171.17, C: 224.41, tMin: -25, tMax: 92, pressureUnit: 'mmHg', molarMass: 86.18, source: LANGE },
+  { name: 'n-Heptane', A: 6.89385, B: 1264.37, C: 216.636, tMin: -2, tMax: 124, pressureUnit: 'mmHg', molarMass: 100.20, source: LANGE },
+  { name: 'Cyclohexane', A: 6.84130, B: 1201.53, C: 222.65, tMin: 20, tMax: 81, pressureUnit: 'mmHg', molarMass: 84.16, source: LANGE },
+  { name: 'Benzene', A: 6.90565, B: 1211.033, C: 220.790, tMin: 8, tMax: 103, pressureUnit: 'mmHg', molarMass: 78.11, source: LANGE },
+  { name: 'Toluene', A: 6.95334, B: 1343.943, C: 219.377, tMin: 6, tMax: 137, pressureUnit: 'mmHg', molarMass: 92.14, source: LANGE },
+  { name: 'p-Xylene', A: 6.99052, B: 1453.43, C: 215.307, tMin: 27, tMax: 166, pressureUnit: 'mmHg', molarMass: 106.17, source: LANGE },
 ];
 
+export const MMHG_PER_UNIT: Record<AntoinePressureUnit, number> = { mmHg: 1, kPa: 7.50062, bar: 750.062 };
+
 // --- Antoine Equation ---
 // log10(P) = A - (B / (T + C))
-// Returns P in mmHg
+// Returns P in mmHg, whatever unit the constants were fitted in
 export const calculateVaporPressure = (tempC: number, params: AntoineParams): number => {
   const logP = params.A - (params.B / (tempC + params.C));
-  return Math.pow(10, logP);
+  return Math.pow(10, logP) * MMHG_PER_UNIT[params.pressureUnit];
 };
 
+// Inverse Antoine: T = B / (A - log10(P)) - C
+export const calculateBoilingPoint = (pressureMmHg: number, params: AntoineParams): number =>
+  params.B / (params.A - Math.log10(pressureMmHg / MMHG_PER_UNIT[params.pressureUnit])) - params.C;
+
+export const isInAntoineRange = (tempC: number, params: AntoineParams): boolean =>
+  tempC >= params.tMin && tempC <= params.tMax;
+
 export const generateAntoineData = (params: AntoineParams, minT: number, maxT: number) => {
   const data = [];
   const step = (maxT - minT) / 50; 
@@ -33,125 +60,220 @@ export const generateAntoineData = (params: AntoineParams, minT: number, maxT: n
 // --- VLE / McCabe-Thiele ---
 // Equilibrium: y = (alpha * x) / (1 + (alpha - 1) * x)
 // Rectifying Line: y = (R / (R + 1)) * x + (xD / (R + 1))
+// q-Line: y = (q / (q - 1)) * x - xF / (q - 1)   (vertical at x = xF when q = 1)
+// Stripping Line: from (xB, xB) through the rectifying/q-line intersection
 export const calculateEquilibriumY = (x: number, alpha: number) => {
   return (alpha * x) / (1 + (alpha - 1) * x);
 }
 
-export const generateMcCabeThieleData = (alpha: number, R: number, xD: number) => {
-  const data = [];
-  // Generate points from x=0 to x=1
-  for (let x = 0; x <= 1.0; x += 0.02) {
-    const yEq = calculateEquilibriumY(x, alpha);
-    
-    // Operating Line (Rectifying Section)
-    // Only valid up to x = xD (roughly, for simple visual check)
-    let yOp = null;
-    if (x <= xD) {
-      yOp = (R / (R + 1)) * x + (xD / (R + 1));
-    }
+// Inverse of the equilibrium curve: liquid in equilibrium with vapor y
+export const calculateEquilibriumX = (y: number, alpha: number) => {
+  return y / (alpha - (alpha - 1) * y);
+}
 
-    data.push({
-      x: Number(x.toFixed(2)),
-      yEq: Number(yEq.toFixed(3)),
-      yOp: yOp !== null ? Number(yOp.toFixed(3)) : null,
-      xLine: Number(x.toFixed(2)) // y=x line
-    });
+// An x-y equilibrium curve and its inverse. Constant relative volatility is the
+// closed-form case; activity-coefficient models (utils/vle.ts) provide tabulated ones.
+export interface EquilibriumCurve {
+  y: (x: number) => number;
+  x: (y: number) => number;
+}
+
+export const constantAlphaCurve = (alpha: number): EquilibriumCurve => ({
+  y: (x: number) => calculateEquilibriumY(x, alpha),
+  x: (y: number) => calculateEquilibriumX(y, alpha),
+});
+
+const toCurve = (equilibrium: number | EquilibriumCurve): EquilibriumCurve =>
+  typeof equilibrium === 'number' ? constantAlphaCurve(equilibrium) : equilibrium;
+
+// Local relative volatility y(1-x) / (x(1-y))
+const localAlpha = (curve: EquilibriumCurve, x: number) => {
+  const y = curve.y(x);
+  return (y * (1 - x)) / (x * (1 - y));
+};
+
+export interface XYPoint {
+  x: number;
+  y: number;
+}
+
+export interface McCabeThieleDesign {
+  feasible: boolean;
+  // Why no stage count could be computed (pinch, inconsistent specs)
+  reason?: string;
+  intersection: XYPoint;
+  rectifyingLine: XYPoint[];
+  strippingLine: XYPoint[];
+  qLine: XYPoint[];
+  // Staircase vertices starting at (xD, xD); every horizontal run is one stage
+  steps: XYPoint[];
+  stages: number;       // Theoretical stages including the reboiler
+  feedStage: number;    // Optimal feed stage, counted from the top
+  minReflux: number;    // Operating line pinched on the curve at the q-line
+  minStages: number;    // Fenske, total reflux
+}
+
+const MAX_STAGES = 100;
+// Keeps q = 1 handling out of the slope formula
+const Q_VERTICAL = 1e-6;
+
+const round3 = (p: XYPoint): XYPoint => ({ x: Number(p.x.toFixed(4)), y: Number(p.y.toFixed(4)) });
+
+// Where the q-line crosses the equilibrium curve
+const qLinePinch = (curve: EquilibriumCurve, xF: number, q: number): XYPoint => {
+  if (Math.abs(q - 1) < Q_VERTICAL) return { x: xF, y: curve.y(xF) };
+  if (Math.abs(q) < Q_VERTICAL) return { x: curve.x(xF), y: xF };
+  // Subcooled liquid (q > 1) meets the curve right of xF, everything else left of it
+  const qLineY = (x: number) => (q / (q - 1)) * x - xF / (q - 1);
+  let [lo, hi] = q > 1 ? [xF, 1] : [0, xF];
+  const f = (x: number) => curve.y(x) - qLineY(x);
+  for (let i = 0; i < 80; i++) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(f(mid)) === Math.sign(f(lo))) lo = mid; else hi = mid;
   }
-  return data;
+  const x = (lo + hi) / 2;
+  return { x, y: curve.y(x) };
 };
 
-// --- Heating Dynamics (Newton's Law of Heating) ---
-// T(t) = T_max - (T_max - T_0) * e^(-k * t)
-export const generateHeatingData = (t0: number, tMax: number, k: number, timeMinutes: number = 60) => {
-  const data = [];
-  for (let t = 0; t <= timeMinutes; t += 1) {
-    const temp = tMax - (tMax - t0) * Math.exp(-k * t);
-    data.push({
-      time: t,
-      temperature: Number(temp.toFixed(2))
-    });
+// Smallest R whose rectifying line stays under the curve between the q-line pinch and xD.
+// For constant alpha this is the q-line pinch itself; non-ideal curves can pinch tangentially higher up.
+const minimumReflux = (curve: EquilibriumCurve, xD: number, pinch: XYPoint): number => {
+  let maxSlope = (xD - pinch.y) / (xD - pinch.x);
+  for (let i = 1; i < 200; i++) {
+    const x = pinch.x + (xD - pinch.x) * (i / 200);
+    maxSlope = Math.max(maxSlope, (xD - curve.y(x)) / (xD - x));
   }
-  return data;
+  return maxSlope / (1 - maxSlope);
 };
 
-// --- Batch Distillation (Rayleigh Simulation) ---
-// Simulates the change in residue composition (x_w) as liquid is distilled off.
-export const generateRayleighData = (alpha: number, initialF: number, initialXf: number) => {
-  const data = [];
-  let W = initialF;
-  let x = initialXf;
-  const step = initialF / 50; // 50 simulation steps
-
-  // Initial Point
-  data.push({
-    percentDistilled: 0,
-    residueComposition: x,
-    distillateComposition: calculateEquilibriumY(x, alpha)
-  });
-
-  // Iterative Mass Balance (Euler method approximation for integral)
-  // Ln(F/W) = Integral(dx / (y-x))
-  for (let distilled = step; distilled < initialF * 0.95; distilled += step) {
-    // Current Y
-    const y = calculateEquilibriumY(x, alpha);
-    // Mass Balance: x_new * (W - step) = x * W - y * step
-    // x_new = (x * W - y * step) / (W - step)
-    const W_new = W - step;
-    const x_new = (x * W - y * step) / W_new;
-    
-    W = W_new;
-    x = Math.max(0, x_new); // Clamp to 0
+// "alpha" is a constant relative volatility or a full equilibrium curve
+export const designMcCabeThiele = (
+  alpha: number | EquilibriumCurve,
+  R: number,
+  xD: number,
+  xF: number = 0.5,
+  q: number = 1,
+  xB: number = 0.05
+): McCabeThieleDesign => {
+  const curve = toCurve(alpha);
+  const rectifyingY = (x: number) => (R / (R + 1)) * x + xD / (R + 1);
 
-    const percentDistilled = (distilled / initialF) * 100;
+  // Rectifying line meets the q-line
+  const intersection = Math.abs(q - 1) < Q_VERTICAL
+    ? { x: xF, y: rectifyingY(xF) }
+    : (() => {
+        const x = (xD / (R + 1) + xF / (q - 1)) / (q / (q - 1) - R / (R + 1));
+        return { x, y: rectifyingY(x) };
+      })();
+  const strippingSlope = (intersection.y - xB) / (intersection.x - xB);
+  const strippingY = (x: number) => xB + strippingSlope * (x - xB);
 
-    data.push({
-      percentDistilled: Number(percentDistilled.toFixed(1)),
-      residueComposition: Number(x.toFixed(3)),
-      distillateComposition: Number(y.toFixed(3))
-    });
+  const pinch = qLinePinch(curve, xF, q);
+  const minReflux = minimumReflux(curve, xD, pinch);
+  // Fenske with the geometric mean of the top and bottom volatilities
+  const alphaMean = typeof alpha === 'number' ? alpha : Math.sqrt(localAlpha(curve, xD) * localAlpha(curve, xB));
+  const minStages = Math.log((xD / (1 - xD)) * ((1 - xB) / xB)) / Math.log(alphaMean);
+
+  const design: McCabeThieleDesign = {
+    feasible: false,
+    intersection: round3(intersection),
+    rectifyingLine: [intersection, { x: xD, y: xD }].map(round3),
+    strippingLine: [{ x: xB, y: xB }, intersection].map(round3),
+    qLine: [{ x: xF, y: xF }, intersection].map(round3),
+    steps: [],
+    stages: NaN,
+    feedStage: NaN,
+    minReflux,
+    minStages,
+  };
+
+  if (!(xB < xF && xF < xD)) {
+    return { ...design, reason: 'Compositions must satisfy x_B < x_F < x_D.' };
+  }
+  // An azeotrope between the product specs cannot be crossed by stepping
+  for (let i = 1; i < 100; i++) {
+    const x = xB + (xD - xB) * (i / 100);
+    if (curve.y(x) <= x) {
+      return { ...design, reason: `The equilibrium curve crosses the diagonal near x = ${x.toFixed(2)} (azeotrope); x_D is not reachable.` };
+    }
+  }
+  if (R <= minReflux || intersection.y >= curve.y(intersection.x)) {
+    return { ...design, reason: `Reflux ratio is at or below the minimum (R_min = ${minReflux.toFixed(2)}); the lines pinch on the equilibrium curve.` };
   }
 
-  return data;
+  // Step off stages from the top, switching to the stripping line once past the intersection
+  const steps: XYPoint[] = [{ x: xD, y: xD }];
+  let x = xD;
+  let y = xD;
+  let stages = 0;
+  let feedStage = 0;
+  while (stages < MAX_STAGES) {
+    x = curve.x(y);
+    steps.push({ x, y });
+    stages++;
+    if (x <= xB) break;
+    const stripping = x < intersection.x;
+    if (stripping && feedStage === 0) feedStage = stages;
+    y = stripping ? strippingY(x) : rectifyingY(x);
+    steps.push({ x, y });
+  }
+  if (x > xB) {
+    return { ...design, reason: `More than ${MAX_STAGES} stages required.` };
+  }
+
+  return {
+    ...design,
+    feasible: true,
+    steps: steps.map(round3),
+    stages,
+    feedStage: feedStage || stages,
+  };
 };
 
-// --- Conductivity (Purity) ---
-// Models the cleanup of distillate over time
-// C(t) = C_final + (C_initial - C_final) * e^(-k * t)
-export const generateConductivityData = (initial: number, final: number, k: number, timeMinutes: number = 60) => {
+// Equilibrium curve and operating lines on a common x grid (null outside each line's section)
+export const generateMcCabeThieleData = (
+  alpha: number | EquilibriumCurve,
+  R: number,
+  xD: number,
+  xF: number = 0.5,
+  q: number = 1,
+  xB: number = 0.05
+) => {
+  const curve = toCurve(alpha);
+  const { intersection } = designMcCabeThiele(curve, R, xD, xF, q, xB);
+  const strippingSlope = (intersection.y - xB) / (intersection.x - xB);
   const data = [];
-  for (let t = 0; t <= timeMinutes; t += 1) {
-    const val = final + (initial - final) * Math.exp(-k * t);
+  // Generate points from x=0 to x=1
+  for (let i = 0; i <= 50; i++) {
+    const x = i / 50;
+    const yEq = curve.y(x);
+    const yOp = x >= intersection.x && x <= xD ? (R / (R + 1)) * x + (xD / (R + 1)) : null;
+    const yStrip = x >= xB && x <= intersection.x ? xB + strippingSlope * (x - xB) : null;
+
     data.push({
-      time: t,
-      conductivity: Number(val.toFixed(2))
+      x: Number(x.toFixed(2)),
+      yEq: Number(yEq.toFixed(3)),
+      yOp: yOp !== null ? Number(yOp.toFixed(3)) : null,
+      yStrip: yStrip !== null ? Number(yStrip.toFixed(3)) : null,
+      xLine: Number(x.toFixed(2)) // y=x line
     });
   }
   return data;
 };
 
-// --- Flow Rate & Production ---
-// Theoretical Water Distillation Rate based on Power
-// Energy required to vaporize 1g water = 2260 J (Latent heat) + Sensible heat (~334J) ≈ 2594 J/g
-// Rate (g/sec) = Power(W) * Efficiency / 2594
-// Rate (mL/min) = (grams/sec) * 60
-export const generateFlowData = (powerWatts: number, efficiency: number, timeMinutes: number = 60) => {
-  const joulesPerGram = 2594;
-  const gramsPerSecond = (powerWatts * efficiency) / joulesPerGram;
-  const mLPerMinute = gramsPerSecond * 60;
-  
+// --- Conductivity (Purity) ---
+// Models the cleanup of distillate over time
+// C(t) = C_final + (C_initial - C_final) * e^(-k * t)
+export const conductivityAt = (initial: number, final: number, k: number, t: number) =>
+  final + (initial - final) * Math.exp(-k * t);
+
+export const generateConductivityData = (initial: number, final: number, k: number, timeMinutes: number = 60) => {
   const data = [];
-  let totalVol = 0;
   for (let t = 0; t <= timeMinutes; t += 1) {
-    // Simple warm-up curve: flow * (1 - e^(-0.5t))
-    const currentFlow = t === 0 ? 0 : mLPerMinute * (1 - Math.exp(-0.5 * t));
-    
-    // Integrate volume
-    if (t > 0) totalVol += currentFlow;
-
+    const val = conductivityAt(initial, final, k, t);
     data.push({
       time: t,
-      flowRate: Number(currentFlow.toFixed(1)),
-      totalVolume: Number((totalVol / 1000).toFixed(2)) // Liters
+      conductivity: Number(val.toFixed(2))
     });
   }
   return data;
@@ -0,0 +1,125 @@
+// --- Condenser & Cooling Water ---
+// The vapor condenses at its saturation temperature, so the hot side is
+// isothermal and effectiveness-NTU reduces to ε = 1 − e^(−UA / C_w), where
+// C_w is the cooling water heat capacity rate. Flooding uses the Wallis
+// correlation for vapor rising against draining condensate in a vertical tube.
+
+const WATER_CP = 4186;          // J/(kg·K)
+const WATER_DENSITY = 1;        // kg/L
+const GAS_CONSTANT = 8.314;     // J/(mol·K)
+const GRAVITY = 9.81;
+const ATMOSPHERE_PA = 101325;
+// Wallis constant for sharp-edged tube ends
+const WALLIS_C = 0.725;
+
+export type CondenserGeometry = 'area' | 'coil';
+
+export interface CondenserSpec {
+  vaporLoadWatts: number;       // Latent heat arriving with the vapor
+  latentHeat: number;           // kJ/kg, converts the load to a vapor mass flow
+  saturationC: number;          // Condensing temperature
+  molarMass: number;            // g/mol, for the vapor density
+  liquidDensity: number;        // kg/L, condensate
+  coolantInletC: number;
+  coolantFlowLpm: number;
+  area: number;                 // m² of heat transfer surface
+  uValue: number;               // W/(m²·K)
+  tubeDiameterMm: number;       // Vapor passage for the flooding check
+}
+
+export type CondenserStatus = 'ok' | 'vapor escapes' | 'flooding';
+
+export interface CondenserResult {
+  duty: number;                 // W actually condensed
+  capacity: number;             // W the condenser could remove at this water flow
+  condensedFraction: number;
+  coolantOutletC: number;
+  lmtd: number;
+  requiredFlowLpm: number;      // Minimum water flow to condense all vapor; Infinity if the area is too small
+  requiredArea: number;         // m² needed at the current water flow
+  floodingRatio: number;        // ≥ 1 at or beyond the flooding point
+  status: CondenserStatus;
+}
+
+export const coilArea = (lengthM: number, diameterMm: number) => Math.PI * (diameterMm / 1000) * lengthM;
+
+// W/K
+const heatCapacityRate = (flowLpm: number) => flowLpm / 60 * WATER_DENSITY * WATER_CP;
+
+const condensingCapacity = (spec: CondenserSpec, flowLpm: number) => {
+  const C = heatCapacityRate(flowLpm);
+  if (C <= 0) return 0;
+  return C * (1 - Math.exp(-spec.uValue * spec.area / C)) * Math.max(0, spec.saturationC - spec.coolantInletC);
+};
+
+export const logMeanTemperatureDifference = (saturationC: number, inletC: number, outletC: number) => {
+  const dt1 = saturationC - inletC;
+  const dt2 = saturationC - outletC;
+  if (dt1 <= 0 || dt2 <= 0) return 0;
+  return Math.abs(dt1 - dt2) < 1e-9 ? dt1 : (dt1 - dt2) / Math.log(dt1 / dt2);
+};
+
+// Capacity rises with flow towards UA·(T_sat − T_in), so the minimum flow is found by bisection
+export const minimumCoolantFlow = (spec: CondenserSpec): number => {
+  const ceiling = spec.uValue * spec.area * (spec.saturationC - spec.coolantInletC);
+  if (spec.vaporLoadWatts <= 0) return 0;
+  if (spec.vaporLoadWatts >= ceiling) return Infinity;
+  let lo = 0;
+  let hi = 1;
+  while (condensingCapacity(spec, hi) < spec.vaporLoadWatts) hi *= 2;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (condensingCapacity(spec, mid) < spec.vaporLoadWatts) lo = mid; else hi = mid;
+  }
+  return hi;
+};
+
+// Wallis: √j_g* + √j_l* = C, with all condensate draining back down the tube
+export const floodingRatio = (spec: CondenserSpec) => {
+  const vaporKgPerS = spec.vaporLoadWatts / (spec.latentHeat * 1000);
+  const d = spec.tubeDiameterMm / 1000;
+  const crossSection = Math.PI * d * d / 4;
+  const rhoV = ATMOSPHERE_PA * (spec.molarMass / 1000) / (GAS_CONSTANT * (spec.saturationC + 273.15));
+  const rhoL = spec.liquidDensity * 1000;
+  const scale = (rho: number) => Math.sqrt(rho / (GRAVITY * d * (rhoL - rhoV)));
+  const jg = vaporKgPerS / (rhoV * crossSection) * scale(rhoV);
+  const jl = vaporKgPerS / (rhoL * crossSection) * scale(rhoL);
+  return (Math.sqrt(jg) + Math.sqrt(jl)) / WALLIS_C;
+};
+
+export const evaluateCondenser = (spec: CondenserSpec): CondenserResult => {
+  const capacity = condensingCapacity(spec, spec.coolantFlowLpm);
+  const duty = Math.min(spec.vaporLoadWatts, capacity);
+  const C = heatCapacityRate(spec.coolantFlowLpm);
+  const coolantOutletC = C > 0 ? spec.coolantInletC + duty / C : spec.coolantInletC;
+  const lmtd = logMeanTemperatureDifference(spec.saturationC, spec.coolantInletC, coolantOutletC);
+  const condensedFraction = spec.vaporLoadWatts > 0 ? duty / spec.vaporLoadWatts : 1;
+  const flooding = floodingRatio(spec);
+  return {
+    duty,
+    capacity,
+    condensedFraction,
+    coolantOutletC,
+    lmtd,
+    requiredFlowLpm: minimumCoolantFlow(spec),
+    requiredArea: lmtd > 0 ? spec.vaporLoadWatts / (spec.uValue * lmtd) : Infinity,
+    floodingRatio: flooding,
+    status: flooding >= 1 ? 'flooding' : condensedFraction < 0.999 ? 'vapor escapes' : 'ok',
+  };
+};
+
+// Condensing capacity and water outlet temperature across cooling water flows
+export const generateCondenserCurve = (spec: CondenserSpec, maxFlowLpm: number, points: number = 60) => {
+  const data = [];
+  for (let i = 1; i <= points; i++) {
+    const flow = maxFlowLpm * i / points;
+    const result = evaluateCondenser({ ...spec, coolantFlowLpm: flow });
+    data.push({
+      coolantFlow: Number(flow.toFixed(3)),
+      capacity: Math.round(result.capacity),
+      load: Math.round(spec.vaporLoadWatts),
+      outlet: Number(result.coolantOutletC.toFixed(2)),
+    });
+  }
+  return data;
+};
@@ -0,0 +1,337 @@
+// --- Data Import Pipeline ---
+// RFC 4180 delimited-text parser with delimiter, decimal separator and header
+// detection, unit extraction from column names and a validation report.
+// Spreadsheet workbooks (.xlsx/.xls) are intentionally not parsed; export as CSV.
+
+export type DataRow = Record<string, string | number>;
+
+export interface ColumnInfo {
+  key: string;          // Key used in the returned rows (the original header)
+  name: string;         // Header without the unit suffix, e.g. "Temp"
+  unit?: string;        // Unit extracted from "Temp (°C)" or "Temp [°C]"
+  type: 'number' | 'text';
+}
+
+export interface RejectedRow {
+  line: number;         // 1-based line in the source file
+  reason: string;
+}
+
+export interface RejectedColumn {
+  name: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  format: 'delimited' | 'json';
+  delimiter?: string;
+  decimalSeparator: '.' | ',';
+  hasHeader: boolean;
+  columns: ColumnInfo[];
+  rowCount: number;
+  rejectedRows: RejectedRow[];
+  rejectedColumns: RejectedColumn[];
+  warnings: string[];
+  // Fatal problems; rows is empty when present
+  errors: string[];
+}
+
+export interface ImportResult {
+  rows: DataRow[];
+  report: ImportReport;
+}
+
+export interface ParseOptions {
+  delimiter?: string;
+  decimalSeparator?: '.' | ',';
+  hasHeader?: boolean;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const SAMPLE_LINES = 20;
+// A column is numeric when most of its non-empty cells parse as numbers;
+// the remaining cells are reported as rejected rows
+const NUMERIC_THRESHOLD = 0.5;
+
+const emptyReport = (format: ImportReport['format']): ImportReport => ({
+  format,
+  decimalSeparator: '.',
+  hasHeader: true,
+  columns: [],
+  rowCount: 0,
+  rejectedRows: [],
+  rejectedColumns: [],
+  warnings: [],
+  errors: [],
+});
+
+// --- RFC 4180 Tokenizer ---
+// Handles quoted fields, doubled quotes, delimiters and line breaks inside
+// quotes, and CRLF/LF/CR line endings. Returns each record with its start line.
+export const parseDelimited = (text: string, delimiter: string): Array<{ line: number, fields: string[] }> => {
+  const records: Array<{ line: number, fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  // Blank lines carry no data
+  return records.filter(r => r.fields.some(f => f.trim() !== ''));
+};
+
+// Picks the candidate giving the most consistent multi-field split over the
+// first lines. A split whose data rows disagree with the first line's field
+// count loses to one where they agree: in "Zeit;Temp;Druck" over rows like
+// "0,5;20,5;1,2" the decimal commas split every row into four fields, yet the
+// header has one, so ";" wins.
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r\n|\n|\r/).slice(0, SAMPLE_LINES).join('\n');
+  let best = ',';
+  let bestScore = 0;
+  let bestMatchesFirst = false;
+  for (const delimiter of DELIMITERS) {
+    const counts = parseDelimited(sample, delimiter).map(r => r.fields.length);
+    if (counts.length === 0) continue;
+    // Most common field count across the sampled lines
+    const frequency = new Map<number, number>();
+    counts.forEach(c => frequency.set(c, (frequency.get(c) || 0) + 1));
+    const [mode, occurrences] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (mode < 2) continue;
+    const consistency = occurrences / counts.length;
+    const score = consistency * mode;
+    const matchesFirst = counts[0] === mode;
+    if ((matchesFirst && !bestMatchesFirst) || (matchesFirst === bestMatchesFirst && score > bestScore)) {
+      best = delimiter;
+      bestScore = score;
+      bestMatchesFirst = matchesFirst;
+    }
+  }
+  return best;
+};
+
+const DECIMAL_COMMA = /^[-+]?\d+,\d+$/;
+const DECIMAL_POINT = /^[-+]?\d*\.\d+([eE][-+]?\d+)?$/;
+
+// European exports write 1,5 where others write 1.5
+export const detectDecimalSeparator = (cells: string[]): '.' | ',' => {
+  let comma = 0;
+  let point = 0;
+  for (const cell of cells) {
+    const v = cell.trim();
+    if (DECIMAL_COMMA.test(v)) comma++;
+    else if (DECIMAL_POINT.test(v)) point++;
+  }
+  return comma > point ? ',' : '.';
+};
+
+// Returns null when the cell is not a number in the given locale
+export const parseLocaleNumber = (raw: string, decimalSeparator: '.' | ','): number | null => {
+  let v = raw.replace(/\s/g, '');
+  if (v === '') return null;
+  if (decimalSeparator === ',') {
+    if (/^[-+]?\d{1,3}(\.\d{3})+(,\d+)?$/.test(v)) v = v.replace(/\./g, '');
+    v = v.replace(',', '.');
+  } else if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(v)) {
+    v = v.replace(/,/g, '');
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(v)) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+// "Temp (°C)" / "Temp [°C]" -> { name: "Temp", unit: "°C" }
+export const extractUnit = (header: string): { name: string, unit?: string } => {
+  const match = header.match(/^(.*?)\s*(?:\(([^()]+)\)|\[([^\[\]]+)\])\s*$/);
+  if (!match) return { name: header.trim() };
+  const name = match[1].trim();
+  const unit = (match[2] || match[3] || '').trim();
+  return name && unit ? { name, unit } : { name: header.trim() };
+};
+
+export const parseDelimitedText = (input: string, options: ParseOptions = {}): ImportResult => {
+  const report = emptyReport('delimited');
+  const text = input.replace(/^\uFEFF/, '');
+
+  if (text.trim() === '') {
+    report.errors.push('The file is empty.');
+    return { rows: [], report };
+  }
+
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  report.delimiter = delimiter;
+  const records = parseDelimited(text, delimiter);
+
+  // Header: a first row with text cells followed by a row of mostly numbers
+  const firstRowNumeric = records[0].fields.filter(f => parseLocaleNumber(f, '.') !== null || parseLocaleNumber(f, ',') !== null).length;
+  const hasHeader = options.hasHeader ?? (records.length > 1 ? firstRowNumeric < records[0].fields.length : true);
+  report.hasHeader = hasHeader;
+
+  const dataRecords = hasHeader ? records.slice(1) : records;
+  if (dataRecords.length === 0) {
+    report.errors.push('No data rows found below the header.');
+    return { rows: [], report };
+  }
+
+  const decimalSeparator = options.decimalSeparator ?? detectDecimalSeparator(dataRecords.flatMap(r => r.fields));
+  report.decimalSeparator = decimalSeparator;
+
+  // Column headers, de-duplicated
+  const width = hasHeader ? records[0].fields.length : dataRecords.reduce((max, r) => Math.max(max, r.fields.length), 0);
+  const seen = new Map<string, number>();
+  const headers = Array.from({ length: width }, (_, i) => {
+    let header = hasHeader ? records[0].fields[i].trim() : `Column ${i + 1}`;
+    if (header === '') header = `Column ${i + 1}`;
+    const count = seen.get(header) || 0;
+    seen.set(header, count + 1);
+    if (count > 0) {
+      report.warnings.push(`Duplicate column "${header}" renamed to "${header} (${count + 1})".`);
+      header = `${header} (${count + 1})`;
+    }
+    return header;
+  });
+
+  // Drop rows whose field count does not match the header
+  const aligned = dataRecords.filter(r => {
+    if (r.fields.length === width) return true;
+    // Trailing delimiters produce empty extra fields; tolerate them
+    if (r.fields.length > width && r.fields.slice(width).every(f => f.trim() === '')) {
+      r.fields = r.fields.slice(0, width);
+      return true;
+    }
+    report.rejectedRows.push({ line: r.line, reason: `Expected ${width} fields, found ${r.fields.length}.` });
+    return false;
+  });
+
+  // Column typing
+  const columns: ColumnInfo[] = [];
+  const keep: boolean[] = headers.map((header, i) => {
+    const cells = aligned.map(r => r.fields[i].trim()).filter(c => c !== '');
+    if (cells.length === 0) {
+      report.rejectedColumns.push({ name: header, reason: 'Column has no values.' });
+      return false;
+    }
+    const numeric = cells.filter(c => parseLocaleNumber(c, decimalSeparator) !== null).length;
+    const { name, unit } = extractUnit(header);
+    columns.push({ key: header, name, unit, type: numeric / cells.length > NUMERIC_THRESHOLD ? 'number' : 'text' });
+    return true;
+  });
+  report.columns = columns;
+
+  const rows: DataRow[] = [];
+  for (const record of aligned) {
+    const row: DataRow = {};
+    let reason = '';
+    let colIdx = 0;
+    headers.forEach((header, i) => {
+      if (!keep[i]) return;
+      const column = columns[colIdx++];
+      const cell = record.fields[i].trim();
+      if (cell === '') return;
+      if (column.type === 'number') {
+        const n = parseLocaleNumber(cell, decimalSeparator);
+        if (n === null) reason = reason || `Non-numeric value "${cell}" in "${header}".`;
+        else row[header] = n;
+      } else {
+        row[header] = cell;
+      }
+    });
+    if (reason) report.rejectedRows.push({ line: record.line, reason });
+    else if (Object.keys(row).length > 0) rows.push(row);
+  }
+
+  report.rowCount = rows.length;
+  report.rejectedRows.sort((a, b) => a.line - b.line);
+  if (rows.length === 0) report.errors.push('Every data row was rejected.');
+  return { rows, report };
+};
+
+export const parseJsonData = (text: string): ImportResult => {
+  const report = emptyReport('json');
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (e) {
+    report.errors.push(`Invalid JSON: ${(e as Error).message}`);
+    return { rows: [], report };
+  }
+  if (!Array.isArray(data)) {
+    report.errors.push('Expected a JSON array of row objects.');
+    return { rows: [], report };
+  }
+
+  const rows: DataRow[] = [];
+  data.forEach((item, i) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      report.rejectedRows.push({ line: i + 1, reason: 'Entry is not an object.' });
+      return;
+    }
+    const row: DataRow = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (typeof value === 'number' && Number.isFinite(value)) row[key] = value;
+      else if (typeof value === 'string') row[key] = parseLocaleNumber(value, '.') ?? value;
+    }
+    rows.push(row);
+  });
+
+  const keys = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+  report.columns = keys.map(key => ({
+    key,
+    ...extractUnit(key),
+    type: rows.every(r => r[key] === undefined || typeof r[key] === 'number') ? 'number' : 'text',
+  }));
+  report.rowCount = rows.length;
+  if (rows.length === 0) report.errors.push('No rows found.');
+  return { rows, report };
+};
+
+export const importDataFile = async (file: File): Promise<ImportResult> => {
+  const name = file.name.toLowerCase();
+  if (/\.(xlsx|xlsm|xls|ods)$/.test(name)) {
+    const report = emptyReport('delimited');
+    report.errors.push('Spreadsheet workbooks are not supported. Export the sheet as CSV and import that file.');
+    return { rows: [], report };
+  }
+
+  const text = await file.text();
+  if (name.endsWith('.json')) return parseJsonData(text);
+  return parseDelimitedText(text, name.endsWith('.tsv') ? { delimiter: '\t' } : {});
+};
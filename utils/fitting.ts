@@ -0,0 +1,201 @@
+// --- Nonlinear Least Squares ---
+// Levenberg-Marquardt with a finite-difference Jacobian and box bounds.
+// Standard errors come from the covariance s²·(JᵀJ)⁻¹ at the solution, so the
+// confidence intervals are the usual linearised (asymptotic) ones.
+
+export interface DataPoint {
+  x: number;
+  y: number;
+}
+
+export interface FitParameter {
+  key: string;
+  label: string;
+  initial: number;
+  lower?: number;
+  upper?: number;
+}
+
+export interface FittedParameter {
+  key: string;
+  label: string;
+  value: number;
+  // NaN when the parameter is not identifiable from the data
+  stdError: number;
+  ciLow: number;
+  ciHigh: number;
+  // True when the optimum sits on a bound, where the interval is unreliable
+  atBound: boolean;
+}
+
+export interface FitResult {
+  parameters: FittedParameter[];
+  n: number;
+  dof: number;
+  sse: number;
+  rmse: number;
+  rSquared: number;
+  iterations: number;
+  converged: boolean;
+}
+
+export type FitModel = (params: number[], x: number) => number;
+
+export interface FitOptions {
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+type Matrix = number[][];
+
+// Gauss-Jordan inverse with partial pivoting; null when singular
+const invert = (m: Matrix): Matrix | null => {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-14) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      if (f !== 0) for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+};
+
+const clampTo = (value: number, p: FitParameter) =>
+  Math.min(p.upper ?? Infinity, Math.max(p.lower ?? -Infinity, value));
+
+const residuals = (model: FitModel, params: number[], points: DataPoint[]) =>
+  points.map(pt => pt.y - model(params, pt.x));
+
+const sumSquares = (r: number[]) => r.reduce((s, v) => s + v * v, 0);
+
+// Central differences, falling back to one-sided steps at a bound
+const jacobian = (model: FitModel, params: number[], points: DataPoint[], spec: FitParameter[]): Matrix => {
+  const columns = params.map((value, j) => {
+    const h = 1e-6 * Math.max(Math.abs(value), 1e-3);
+    const up = [...params];
+    const down = [...params];
+    up[j] = clampTo(value + h, spec[j]);
+    down[j] = clampTo(value - h, spec[j]);
+    const width = up[j] - down[j];
+    return points.map(pt => width === 0 ? 0 : (model(up, pt.x) - model(down, pt.x)) / width);
+  });
+  return points.map((_, i) => columns.map(col => col[i]));
+};
+
+// JᵀJ and Jᵀr
+const normalEquations = (J: Matrix, r: number[]) => {
+  const p = J[0].length;
+  const JtJ = Array.from({ length: p }, () => new Array(p).fill(0));
+  const Jtr = new Array(p).fill(0);
+  J.forEach((row, i) => {
+    for (let a = 0; a < p; a++) {
+      Jtr[a] += row[a] * r[i];
+      for (let b = 0; b < p; b++) JtJ[a][b] += row[a] * row[b];
+    }
+  });
+  return { JtJ, Jtr };
+};
+
+// Two-sided 95% Student-t critical value (Cornish-Fisher expansion around z = 1.96)
+export const tCritical95 = (dof: number): number => {
+  if (dof <= 0) return NaN;
+  if (dof === 1) return 12.706;
+  if (dof === 2) return 4.303;
+  const z = 1.959964;
+  const g1 = (z ** 3 + z) / 4;
+  const g2 = (5 * z ** 5 + 16 * z ** 3 + 3 * z) / 96;
+  const g3 = (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / 384;
+  return z + g1 / dof + g2 / dof ** 2 + g3 / dof ** 3;
+};
+
+// Returns null when there are not more points than parameters
+export const fitLeastSquares = (
+  model: FitModel,
+  points: DataPoint[],
+  spec: FitParameter[],
+  { maxIterations = 200, tolerance = 1e-10 }: FitOptions = {}
+): FitResult | null => {
+  const n = points.length;
+  const p = spec.length;
+  if (n <= p) return null;
+
+  let params = spec.map(s => clampTo(s.initial, s));
+  let sse = sumSquares(residuals(model, params, points));
+  if (!Number.isFinite(sse)) return null;
+
+  let lambda = 1e-3;
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations && !converged) {
+    iterations++;
+    const r = residuals(model, params, points);
+    const { JtJ, Jtr } = normalEquations(jacobian(model, params, points, spec), r);
+
+    // Retry the step with more damping until it lowers the error
+    let improved = false;
+    while (!improved && lambda < 1e12) {
+      const damped = JtJ.map((row, i) => row.map((v, j) => (i === j ? v + lambda * Math.max(v, 1e-12) : v)));
+      const inv = invert(damped);
+      if (!inv) { lambda *= 10; continue; }
+      const step = inv.map(row => row.reduce((s, v, j) => s + v * Jtr[j], 0));
+      const candidate = params.map((v, i) => clampTo(v + step[i], spec[i]));
+      const candidateSse = sumSquares(residuals(model, candidate, points));
+
+      if (Number.isFinite(candidateSse) && candidateSse < sse) {
+        const relChange = (sse - candidateSse) / Math.max(sse, 1e-300);
+        const maxStep = Math.max(...candidate.map((v, i) => Math.abs(v - params[i]) / Math.max(Math.abs(v), 1e-9)));
+        params = candidate;
+        sse = candidateSse;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = true;
+        if (relChange < tolerance || maxStep < tolerance) converged = true;
+      } else {
+        lambda *= 10;
+      }
+    }
+    // No downhill step left at any damping: we are at the minimum
+    if (!improved) converged = true;
+  }
+
+  const dof = n - p;
+  const s2 = sse / dof;
+  const { JtJ } = normalEquations(jacobian(model, params, points, spec), residuals(model, params, points));
+  const covariance = invert(JtJ);
+  const t = tCritical95(dof);
+
+  const meanY = points.reduce((s, pt) => s + pt.y, 0) / n;
+  const sst = points.reduce((s, pt) => s + (pt.y - meanY) ** 2, 0);
+
+  return {
+    parameters: spec.map((s, i) => {
+      const variance = covariance ? covariance[i][i] * s2 : NaN;
+      const stdError = variance >= 0 ? Math.sqrt(variance) : NaN;
+      const value = params[i];
+      return {
+        key: s.key,
+        label: s.label,
+        value,
+        stdError,
+        ciLow: value - t * stdError,
+        ciHigh: value + t * stdError,
+        atBound: value === s.lower || value === s.upper,
+      };
+    }),
+    n,
+    dof,
+    sse,
+    rmse: Math.sqrt(sse / n),
+    rSquared: sst === 0 ? NaN : 1 - sse / sst,
+    iterations,
+    converged,
+  };
+};
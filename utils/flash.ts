@@ -0,0 +1,130 @@
+import { AntoineParams } from '../types';
+import { calculateBoilingPoint, calculateVaporPressure, isInAntoineRange } from './calculations';
+
+// --- Multicomponent Bubble / Dew / Flash ---
+// Ideal K-values from Raoult's law, K_i = Psat_i(T) / P. Bubble and dew points
+// lie between the lightest and heaviest pure boiling points, so both are
+// solved by bisection on that bracket; the flash uses Rachford-Rice.
+
+export interface MixtureComponent {
+  substance: AntoineParams;
+  z: number;            // Feed mole fraction (normalized before use)
+}
+
+export interface ComponentSplit {
+  name: string;
+  z: number;
+  x: number;            // Liquid mole fraction
+  y: number;            // Vapor mole fraction
+  K: number;
+}
+
+export type PhaseState = 'subcooled liquid' | 'two-phase' | 'superheated vapor';
+
+export interface FlashResult {
+  temperature: number;
+  vaporFraction: number;
+  state: PhaseState;
+  components: ComponentSplit[];
+}
+
+export interface PhasePoint {
+  temperature: number;
+  // Equilibrium composition of the incipient phase (vapor at the bubble point, liquid at the dew point)
+  components: ComponentSplit[];
+}
+
+const kValues = (mixture: MixtureComponent[], tempC: number, pressureMmHg: number) =>
+  mixture.map(c => calculateVaporPressure(tempC, c.substance) / pressureMmHg);
+
+export const normalizeMixture = (mixture: MixtureComponent[]): MixtureComponent[] => {
+  const total = mixture.reduce((s, c) => s + Math.max(0, c.z), 0);
+  return total > 0 ? mixture.map(c => ({ ...c, z: Math.max(0, c.z) / total })) : mixture;
+};
+
+const bracket = (mixture: MixtureComponent[], pressureMmHg: number): [number, number] => {
+  const tb = mixture.map(c => calculateBoilingPoint(pressureMmHg, c.substance));
+  return [Math.min(...tb), Math.max(...tb)];
+};
+
+// f must increase with T and change sign on [lo, hi]
+const bisect = (f: (T: number) => number, lo: number, hi: number) => {
+  for (let i = 0; i < 100 && hi - lo > 1e-9; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) > 0) hi = mid; else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// Σ z_i·K_i = 1
+export const bubblePointTemperature = (mixture: MixtureComponent[], pressureMmHg: number): PhasePoint => {
+  const feed = normalizeMixture(mixture);
+  const [lo, hi] = bracket(feed, pressureMmHg);
+  const T = bisect(t => Math.log(kValues(feed, t, pressureMmHg).reduce((s, K, i) => s + feed[i].z * K, 0)), lo, hi);
+  const K = kValues(feed, T, pressureMmHg);
+  return {
+    temperature: T,
+    components: feed.map((c, i) => ({ name: c.substance.name, z: c.z, x: c.z, y: c.z * K[i], K: K[i] })),
+  };
+};
+
+// Σ z_i / K_i = 1
+export const dewPointTemperature = (mixture: MixtureComponent[], pressureMmHg: number): PhasePoint => {
+  const feed = normalizeMixture(mixture);
+  const [lo, hi] = bracket(feed, pressureMmHg);
+  const T = bisect(t => -Math.log(kValues(feed, t, pressureMmHg).reduce((s, K, i) => s + feed[i].z / K, 0)), lo, hi);
+  const K = kValues(feed, T, pressureMmHg);
+  return {
+    temperature: T,
+    components: feed.map((c, i) => ({ name: c.substance.name, z: c.z, x: c.z / K[i], y: c.z, K: K[i] })),
+  };
+};
+
+// Rachford-Rice: Σ z_i(K_i - 1) / (1 + V(K_i - 1)) = 0, decreasing in V
+export const solveRachfordRice = (z: number[], K: number[]): number => {
+  const g = (V: number) => z.reduce((s, zi, i) => s + zi * (K[i] - 1) / (1 + V * (K[i] - 1)), 0);
+  if (g(0) <= 0) return 0;
+  if (g(1) >= 0) return 1;
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 100 && hi - lo > 1e-12; i++) {
+    const mid = (lo + hi) / 2;
+    if (g(mid) > 0) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+export const isothermalFlash = (mixture: MixtureComponent[], tempC: number, pressureMmHg: number): FlashResult => {
+  const feed = normalizeMixture(mixture);
+  const z = feed.map(c => c.z);
+  const K = kValues(feed, tempC, pressureMmHg);
+  const V = solveRachfordRice(z, K);
+
+  const components = feed.map((c, i) => {
+    const x = c.z / (1 + V * (K[i] - 1));
+    return { name: c.substance.name, z: c.z, x, y: K[i] * x, K: K[i] };
+  });
+  // Outside the envelope only one phase exists; report it as the feed
+  const state: PhaseState = V <= 0 ? 'subcooled liquid' : V >= 1 ? 'superheated vapor' : 'two-phase';
+  return { temperature: tempC, vaporFraction: V, state, components };
+};
+
+// Vapor fraction and phase compositions across the bubble-dew range
+export const generateFlashCurve = (mixture: MixtureComponent[], pressureMmHg: number, points: number = 40) => {
+  const bubble = bubblePointTemperature(mixture, pressureMmHg).temperature;
+  const dew = dewPointTemperature(mixture, pressureMmHg).temperature;
+  const data = [];
+  for (let i = 0; i <= points; i++) {
+    const T = bubble + (dew - bubble) * (i / points);
+    const flash = isothermalFlash(mixture, T, pressureMmHg);
+    data.push({
+      temperature: Number(T.toFixed(2)),
+      vaporFraction: Number(flash.vaporFraction.toFixed(4)),
+    });
+  }
+  return data;
+};
+
+// Components whose Antoine constants are extrapolated at this temperature
+export const outOfRangeComponents = (mixture: MixtureComponent[], tempC: number): string[] =>
+  mixture.filter(c => !isInAntoineRange(tempC, c.substance)).map(c => c.substance.name);
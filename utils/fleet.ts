@@ -0,0 +1,75 @@
+import { StillUnit } from '../types';
+
+// --- Fleet Registry ---
+// The stills a team operates. Maintenance logs, operating runs, calculator
+// scenarios and chat sessions are stored per unit under a suffixed key; the
+// first unit keeps the unsuffixed keys so data saved before the registry
+// existed stays with it.
+
+const FLEET_KEY = 'distillai_fleet_units';
+const ACTIVE_UNIT_KEY = 'distillai_fleet_active_unit';
+
+export const DEFAULT_UNIT_ID = 'default';
+
+// Matches the Calculator's heating defaults
+export const DEFAULT_UNIT: Omit<StillUnit, 'createdAt'> = {
+  id: DEFAULT_UNIT_ID,
+  name: 'Main Still',
+  model: '',
+  heaterPowerW: 2000,
+  boilerVolumeL: 4,
+  location: '',
+};
+
+export const unitStorageKey = (base: string, unitId: string) =>
+  unitId === DEFAULT_UNIT_ID ? base : `${base}:${unitId}`;
+
+export const createUnit = (fields: Omit<StillUnit, 'id' | 'createdAt'>): StillUnit => ({ id: crypto.randomUUID(), ...fields, createdAt: Date.now() });
+
+const isUnit = (raw: unknown): raw is StillUnit => {
+  if (!raw || typeof raw !== 'object') return false;
+  const u = raw as Record<string, unknown>;
+  return typeof u.id === 'string' && typeof u.name === 'string' && typeof u.heaterPowerW === 'number' && typeof u.boilerVolumeL === 'number';
+};
+
+export const loadFleet = (): StillUnit[] => {
+  try {
+    const saved = localStorage.getItem(FLEET_KEY);
+    const fleet: StillUnit[] = saved ? JSON.parse(saved).filter(isUnit) : [];
+    // Units saved before creation times were kept start their schedules now
+    return fleet.length > 0
+      ? fleet.map(u => ({ ...u, model: u.model ?? '', location: u.location ?? '', createdAt: u.createdAt ?? Date.now() }))
+      : [{ ...DEFAULT_UNIT, createdAt: Date.now() }];
+  } catch {
+    return [{ ...DEFAULT_UNIT, createdAt: Date.now() }];
+  }
+};
+
+export const saveFleet = (fleet: StillUnit[]) => {
+  localStorage.setItem(FLEET_KEY, JSON.stringify(fleet));
+};
+
+export const loadActiveUnitId = (fleet: StillUnit[]) => {
+  const saved = localStorage.getItem(ACTIVE_UNIT_KEY);
+  return fleet.some(u => u.id === saved) ? saved! : fleet[0].id;
+};
+
+export const saveActiveUnitId = (unitId: string) => {
+  localStorage.setItem(ACTIVE_UNIT_KEY, unitId);
+};
+
+// The default unit owns the unsuffixed keys, which also hold data saved before
+// the registry, so it stays in the fleet and its data is never cleared
+export const canRemoveUnit = (unitId: string) => unitId !== DEFAULT_UNIT_ID;
+
+// Drops every per-unit key (log, runs, scenarios, chats) of a removed unit
+export const clearUnitData = (unitId: string) => {
+  if (!canRemoveUnit(unitId)) return;
+  const suffix = `:${unitId}`;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith('distillai_') && key.endsWith(suffix)) keys.push(key);
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+};
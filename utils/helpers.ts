@@ -1,3 +1,5 @@
+import { importDataFile } from './dataImport';
+
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -7,41 +9,40 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+// Downscales a photo to a JPEG data URL small enough to keep in localStorage
+export const resizeImage = async (file: File, maxDimension: number = 1024, quality: number = 0.8): Promise<string> => {
+  const source = await fileToBase64(file);
+  const image = new Image();
+  await new Promise((resolve, reject) => {
+    image.onload = resolve;
+    image.onerror = reject;
+    image.src = source;
+  });
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
 export const formatTime = (timestamp: number) => {
   return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 };
 
+// Rows only; use importDataFile from ./dataImport when the validation report is needed
 export const parseDataFile = async (file: File): Promise<Array<Record<string, string | number>>> => {
-  const text = await file.text();
-  
-  if (file.name.toLowerCase().endsWith('.json')) {
-    try {
-      const data = JSON.parse(text);
-      return Array.isArray(data) ? data : [];
-    } catch (e) {
-      console.error("Invalid JSON", e);
-      return [];
-    }
-  }
-
-  if (file.name.toLowerCase().endsWith('.csv')) {
-    const rows = text.split('\n').map(r => r.trim()).filter(r => r);
-    if (rows.length < 2) return [];
-
-    const headers = rows[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    
-    return rows.slice(1).map(row => {
-      // Handle simple CSV splitting (doesn't account for commas in quotes completely, but sufficient for simple data)
-      const values = row.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-      return headers.reduce((obj, header, index) => {
-        const val = values[index];
-        // Try to convert to number if possible
-        const numVal = Number(val);
-        obj[header] = !isNaN(numVal) && val !== '' ? numVal : val;
-        return obj;
-      }, {} as Record<string, string | number>);
-    });
-  }
+  const { rows, report } = await importDataFile(file);
+  if (report.errors.length > 0) console.error("Data import failed", report.errors);
+  return rows;
+};
 
-  return [];
-};
\ No newline at end of file
+// Derives a short chat title from the first user prompt
+export const generateSessionTitle = (text: string, maxLength: number = 40): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return 'New Chat';
+  if (clean.length <= maxLength) return clean;
+  const cut = clean.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+};
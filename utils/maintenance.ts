@@ -0,0 +1,367 @@
+import { MaintenanceFrequency, MaintenanceInterval, MaintenanceReadingKind, MaintenanceReadingSpec, MaintenanceTask, StillUnit } from '../types';
+import { DEFAULT_UNIT_ID, unitStorageKey } from './fleet';
+import { OperatingRun, loadRuns, usageSince } from './usage';
+
+// --- Maintenance Scheduling ---
+// Calendar tasks recur on the day, the Monday-based week, the month and the
+// quarter. Such a task is done for the period once it has been completed since
+// the period began; missing a whole period makes it overdue until the next
+// completion. A task never completed counts from when the unit (or the task)
+// was added, so it too falls overdue after a missed period. Interval tasks
+// fall due a fixed time after their last completion, usage tasks once enough
+// heater-hours or liters are logged after it.
+
+export const FREQUENCIES: MaintenanceFrequency[] = ['Daily', 'Weekly', 'Monthly', 'Quarterly'];
+
+// Checklist sections: one per calendar frequency, then all interval tasks
+export type ScheduleGroup = MaintenanceFrequency | 'Interval';
+
+export const SCHEDULE_GROUPS: ScheduleGroup[] = [...FREQUENCIES, 'Interval'];
+
+export const scheduleGroup = (task: MaintenanceTask): ScheduleGroup =>
+  task.interval.kind === 'calendar' ? task.interval.frequency : 'Interval';
+
+export const describeInterval = (interval: MaintenanceInterval) => {
+  switch (interval.kind) {
+    case 'calendar': return interval.frequency;
+    case 'days': return interval.days === 1 ? 'Every day' : `Every ${interval.days} days`;
+    case 'hours': return `Every ${interval.hours} heater-hours`;
+    case 'liters': return `Every ${interval.liters} L produced`;
+  }
+};
+
+export const PERIOD_NAMES: Record<MaintenanceFrequency, string> = {
+  Daily: 'today',
+  Weekly: 'this week',
+  Monthly: 'this month',
+  Quarterly: 'this quarter',
+};
+
+const HOUR_MS = 3600 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long before the period closes an open task is flagged as due soon
+const DUE_SOON_MS: Record<MaintenanceFrequency, number> = {
+  Daily: 4 * HOUR_MS,
+  Weekly: 2 * DAY_MS,
+  Monthly: 5 * DAY_MS,
+  Quarterly: 14 * DAY_MS,
+};
+
+// Interval tasks are flagged this fraction of the interval before they fall due
+const INTERVAL_DUE_SOON = 0.2;
+
+// Completion timestamps per task ID, oldest first
+export type CompletionHistory = Record<string, number[]>;
+
+const LOG_KEY = 'distillai_maintenance_log';
+const OPERATOR_KEY = 'distillai_maintenance_operator';
+// Completion timestamps saved before the log existed; migrated on first load
+const COMPLETIONS_KEY = 'distillai_maintenance_completions';
+// The old checklist stored bare task IDs with no date, so its ticks cannot be scheduled
+const LEGACY_CHECKED_KEY = 'distillai_maintenance_checked';
+
+export const periodStart = (frequency: MaintenanceFrequency, date: Date): Date => {
+  const y = date.getFullYear();
+  const m = date.getMonth();
+  switch (frequency) {
+    case 'Daily': return new Date(y, m, date.getDate());
+    case 'Weekly': return new Date(y, m, date.getDate() - (date.getDay() + 6) % 7);
+    case 'Monthly': return new Date(y, m, 1);
+    case 'Quarterly': return new Date(y, m - m % 3, 1);
+  }
+};
+
+export const nextPeriodStart = (frequency: MaintenanceFrequency, date: Date): Date => {
+  const start = periodStart(frequency, date);
+  const y = start.getFullYear();
+  const m = start.getMonth();
+  switch (frequency) {
+    case 'Daily': return new Date(y, m, start.getDate() + 1);
+    case 'Weekly': return new Date(y, m, start.getDate() + 7);
+    case 'Monthly': return new Date(y, m + 1, 1);
+    case 'Quarterly': return new Date(y, m + 3, 1);
+  }
+};
+
+const previousPeriodStart = (frequency: MaintenanceFrequency, date: Date) =>
+  periodStart(frequency, new Date(periodStart(frequency, date).getTime() - 1));
+
+export type TaskStatus = 'overdue' | 'dueSoon' | 'ok';
+
+export interface TaskSchedule {
+  status: TaskStatus;
+  doneThisPeriod: boolean;      // Nothing to do until the task comes round again
+  lastCompleted: number | null;
+  dueAt: number | null;         // When the next completion is due; null for usage tasks
+  usage?: { used: number, limit: number, unit: 'h' | 'L' };
+}
+
+export const lastCompletion = (history: CompletionHistory, taskId: string) => {
+  const completions = history[taskId] ?? [];
+  return completions.length > 0 ? completions[completions.length - 1] : null;
+};
+
+// A calendar task that has never been completed is measured from its start, as if completed then
+const scheduleCalendarTask = (frequency: MaintenanceFrequency, lastCompleted: number | null, start: number | null, now: number): TaskSchedule => {
+  const today = new Date(now);
+  const periodEnd = nextPeriodStart(frequency, today);
+  const doneThisPeriod = lastCompleted !== null && lastCompleted >= periodStart(frequency, today).getTime();
+
+  if (doneThisPeriod) {
+    return { status: 'ok', doneThisPeriod, lastCompleted, dueAt: nextPeriodStart(frequency, periodEnd).getTime() };
+  }
+  const reference = lastCompleted ?? start;
+  const missedPrevious = reference !== null && reference < previousPeriodStart(frequency, today).getTime();
+  const status: TaskStatus = missedPrevious ? 'overdue' : periodEnd.getTime() - now <= DUE_SOON_MS[frequency] ? 'dueSoon' : 'ok';
+  return { status, doneThisPeriod, lastCompleted, dueAt: periodEnd.getTime() };
+};
+
+// An interval task that has never been completed is due now; it reopens for sign-off once due soon
+const scheduleDayInterval = (days: number, lastCompleted: number | null, now: number): TaskSchedule => {
+  if (lastCompleted === null) return { status: 'dueSoon', doneThisPeriod: false, lastCompleted, dueAt: now };
+  const dueAt = lastCompleted + days * DAY_MS;
+  const status: TaskStatus = now >= dueAt ? 'overdue' : dueAt - now <= days * DAY_MS * INTERVAL_DUE_SOON ? 'dueSoon' : 'ok';
+  return { status, doneThisPeriod: status === 'ok', lastCompleted, dueAt };
+};
+
+// A usage task that has never been completed counts every logged run
+const scheduleUsage = (used: number, limit: number, unit: 'h' | 'L', lastCompleted: number | null): TaskSchedule => {
+  const status: TaskStatus = used >= limit ? 'overdue' : limit - used <= limit * INTERVAL_DUE_SOON ? 'dueSoon' : 'ok';
+  return { status, doneThisPeriod: lastCompleted !== null && status === 'ok', lastCompleted, dueAt: null, usage: { used, limit, unit } };
+};
+
+// The later of the unit's and the task's addition; null when neither is known
+const scheduleStart = (task: MaintenanceTask, trackedSince: number | null) => {
+  const starts = [trackedSince, task.addedAt ?? null].filter((t): t is number => t !== null);
+  return starts.length > 0 ? Math.max(...starts) : null;
+};
+
+export const scheduleTask = (
+  task: MaintenanceTask,
+  history: CompletionHistory,
+  now: number = Date.now(),
+  runs: OperatingRun[] = [],
+  trackedSince: number | null = null
+): TaskSchedule => {
+  const lastCompleted = lastCompletion(history, task.id);
+  switch (task.interval.kind) {
+    case 'calendar': return scheduleCalendarTask(task.interval.frequency, lastCompleted, scheduleStart(task, trackedSince), now);
+    case 'days': return scheduleDayInterval(task.interval.days, lastCompleted, now);
+    case 'hours': return scheduleUsage(usageSince(runs, lastCompleted).heaterHours, task.interval.hours, 'h', lastCompleted);
+    case 'liters': return scheduleUsage(usageSince(runs, lastCompleted).liters, task.interval.liters, 'L', lastCompleted);
+  }
+};
+
+export interface PeriodCompliance {
+  group: ScheduleGroup;
+  total: number;
+  done: number;
+  overdue: number;
+  resetsAt: number | null;      // Start of the next calendar period; null for interval tasks
+}
+
+// Completion of each group's active tasks within the current period (or interval)
+export const periodCompliance = (
+  tasks: MaintenanceTask[],
+  history: CompletionHistory,
+  now: number = Date.now(),
+  runs: OperatingRun[] = [],
+  trackedSince: number | null = null
+): PeriodCompliance[] =>
+  SCHEDULE_GROUPS.map(group => {
+    const schedules = tasks.filter(t => !t.retired && scheduleGroup(t) === group).map(t => scheduleTask(t, history, now, runs, trackedSince));
+    return {
+      group,
+      total: schedules.length,
+      done: schedules.filter(s => s.doneThisPeriod).length,
+      overdue: schedules.filter(s => s.status === 'overdue').length,
+      resetsAt: group === 'Interval' ? null : nextPeriodStart(group, new Date(now)).getTime(),
+    };
+  });
+
+// --- Completion Log ---
+// Completions and withdrawals are appended and never edited, so the log is a
+// full audit trail. Schedules are derived from the completions still standing.
+
+export const READING_UNITS: Record<MaintenanceReadingKind, string> = {
+  conductivity: 'µS/cm',
+  resistance: 'Ω',
+};
+
+export interface ReadingResult {
+  key: string;
+  kind: MaintenanceReadingKind;
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  pass: boolean;
+}
+
+export interface MaintenanceRecord {
+  id: string;
+  taskId: string;
+  taskTitle: string;            // As it read when recorded
+  recordedAt: number;
+  operator: string;
+  notes: string;
+  photo?: string;               // Downscaled JPEG data URL
+  readings: ReadingResult[];
+  withdraws?: string;           // Set on withdrawals: the completion being withdrawn
+}
+
+export const readingPasses = (spec: MaintenanceReadingSpec, value: number) =>
+  Number.isFinite(value) && (spec.min === undefined || value >= spec.min) && (spec.max === undefined || value <= spec.max);
+
+export const readingResult = (spec: MaintenanceReadingSpec, value: number): ReadingResult => ({
+  key: spec.key, kind: spec.kind, label: spec.label, value, min: spec.min, max: spec.max, pass: readingPasses(spec, value),
+});
+
+export const formatLimits = (spec: Pick<MaintenanceReadingSpec, 'kind' | 'min' | 'max'>) => {
+  const unit = READING_UNITS[spec.kind];
+  if (spec.min !== undefined && spec.max !== undefined) return `${spec.min}–${spec.max} ${unit}`;
+  if (spec.max !== undefined) return `≤ ${spec.max} ${unit}`;
+  if (spec.min !== undefined) return `≥ ${spec.min} ${unit}`;
+  return unit;
+};
+
+export const recordPassed = (record: MaintenanceRecord) => record.readings.every(r => r.pass);
+
+export const withdrawnIds = (log: MaintenanceRecord[]) =>
+  new Set(log.flatMap(r => r.withdraws ? [r.withdraws] : []));
+
+// Completions that have not been withdrawn, in the order they were recorded
+export const standingCompletions = (log: MaintenanceRecord[]) => {
+  const withdrawn = withdrawnIds(log);
+  return log.filter(r => !r.withdraws && !withdrawn.has(r.id));
+};
+
+export const completionHistory = (log: MaintenanceRecord[]): CompletionHistory => {
+  const history: CompletionHistory = {};
+  standingCompletions(log)
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+    .forEach(r => { (history[r.taskId] ??= []).push(r.recordedAt); });
+  return history;
+};
+
+export const latestCompletion = (log: MaintenanceRecord[], taskId: string) =>
+  standingCompletions(log).filter(r => r.taskId === taskId).sort((a, b) => b.recordedAt - a.recordedAt)[0] ?? null;
+
+export const withdrawalOf = (record: MaintenanceRecord, operator: string, reason: string, at: number = Date.now()): MaintenanceRecord => ({
+  id: crypto.randomUUID(),
+  taskId: record.taskId,
+  taskTitle: record.taskTitle,
+  recordedAt: at,
+  operator,
+  notes: reason,
+  readings: [],
+  withdraws: record.id,
+});
+
+// Task IDs were numbers before the catalog became editable
+const LEGACY_TASK_IDS: Record<number, string> = {
+  1: 'leak-inspection',
+  2: 'purity-check',
+  3: 'boiler-blowdown',
+  4: 'vent-filter',
+  5: 'descaling',
+  6: 'gasket-check',
+  7: 'heater-test',
+};
+
+export const migrateTaskId = (id: unknown) => typeof id === 'number' ? LEGACY_TASK_IDS[id] ?? String(id) : String(id);
+
+// Readings are shown and judged as stored, so each needs the fields recordPassed and the log read
+const isReadingResult = (raw: unknown): raw is ReadingResult => {
+  if (!raw || typeof raw !== 'object') return false;
+  const r = raw as Record<string, unknown>;
+  return typeof r.key === 'string' && typeof r.kind === 'string' && r.kind in READING_UNITS && typeof r.label === 'string'
+    && typeof r.value === 'number' && typeof r.pass === 'boolean';
+};
+
+const isRecord = (raw: unknown): raw is MaintenanceRecord => {
+  if (!raw || typeof raw !== 'object') return false;
+  const r = raw as Record<string, unknown>;
+  return typeof r.id === 'string' && (typeof r.taskId === 'string' || typeof r.taskId === 'number') && typeof r.recordedAt === 'number'
+    && typeof r.taskTitle === 'string' && typeof r.operator === 'string' && typeof r.notes === 'string'
+    && Array.isArray(r.readings) && r.readings.every(isReadingResult);
+};
+
+export const loadMaintenanceLog = (unitId: string = DEFAULT_UNIT_ID): MaintenanceRecord[] => {
+  localStorage.removeItem(LEGACY_CHECKED_KEY);
+  const key = unitStorageKey(LOG_KEY, unitId);
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    const log: MaintenanceRecord[] = Array.isArray(parsed)
+      ? parsed.filter(isRecord).map(r => ({ ...r, taskId: migrateTaskId(r.taskId) }))
+      : [];
+    const legacy = unitId === DEFAULT_UNIT_ID ? localStorage.getItem(COMPLETIONS_KEY) : null;
+    if (legacy) {
+      Object.entries(JSON.parse(legacy) as Record<string, unknown>).forEach(([id, times]) => {
+        if (!Array.isArray(times)) return;
+        times.filter((t): t is number => typeof t === 'number').forEach(t => log.push({
+          id: crypto.randomUUID(), taskId: migrateTaskId(Number(id)), taskTitle: '', recordedAt: t, operator: '', notes: 'Recorded before the completion log', readings: [],
+        }));
+      });
+      localStorage.setItem(key, JSON.stringify(log));
+      localStorage.removeItem(COMPLETIONS_KEY);
+    }
+    return log;
+  } catch {
+    return [];
+  }
+};
+
+// False when the browser's storage quota is exhausted (e.g. by photos); the log stays in memory
+export const saveMaintenanceLog = (log: MaintenanceRecord[], unitId: string = DEFAULT_UNIT_ID) => {
+  try {
+    localStorage.setItem(unitStorageKey(LOG_KEY, unitId), JSON.stringify(log));
+    return true;
+  } catch (e) {
+    console.error("Failed to persist maintenance log", e);
+    return false;
+  }
+};
+
+export interface UnitStatus {
+  overdueCritical: MaintenanceTask[];
+  overdue: number;
+  dueSoon: number;
+  lastService: number | null;
+}
+
+// Maintenance standing of one unit against the shared task catalog, for the fleet overview
+export const unitStatus = (unit: StillUnit, tasks: MaintenanceTask[], now: number = Date.now()): UnitStatus => {
+  const log = loadMaintenanceLog(unit.id);
+  const completions = completionHistory(log);
+  const runs = loadRuns(unit.id);
+  const schedules = tasks.filter(t => !t.retired).map(task => ({ task, schedule: scheduleTask(task, completions, now, runs, unit.createdAt) }));
+  const overdue = schedules.filter(s => s.schedule.status === 'overdue');
+  const services = standingCompletions(log).map(r => r.recordedAt);
+  return {
+    overdueCritical: overdue.filter(s => s.task.critical).map(s => s.task),
+    overdue: overdue.length,
+    dueSoon: schedules.filter(s => s.schedule.status === 'dueSoon').length,
+    lastService: services.length > 0 ? Math.max(...services) : null,
+  };
+};
+
+export const loadOperator = () => localStorage.getItem(OPERATOR_KEY) ?? '';
+
+export const saveOperator = (operator: string) => {
+  localStorage.setItem(OPERATOR_KEY, operator);
+};
+
+// "today", "tomorrow" or a short date for the day containing a timestamp
+export const formatDay = (at: number, now: number = Date.now()) => {
+  const day = periodStart('Daily', new Date(at)).getTime();
+  const days = Math.round((day - periodStart('Daily', new Date(now)).getTime()) / DAY_MS);
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return new Date(day).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+// A period ending at dueAt is due by the end of its last day
+export const formatDueDate = (dueAt: number, now: number = Date.now()) => formatDay(dueAt - 1, now);
@@ -0,0 +1,185 @@
+import { MaintenanceFrequency, MaintenanceInterval, MaintenanceReadingSpec, MaintenanceTask } from '../types';
+import { FREQUENCIES, READING_UNITS } from './maintenance';
+
+// --- Maintenance Task Catalog ---
+// The checklist each site runs, kept in localStorage and editable in the
+// Maintenance Hub. A catalog can be exported to and imported from a JSON file
+// so several units can share one standard.
+
+const CATALOG_KEY = 'distillai_maintenance_catalog';
+const EXPORT_FORMAT = 'distillai-maintenance-catalog';
+
+export const DEFAULT_TASKS: MaintenanceTask[] = [
+  {
+    id: 'leak-inspection',
+    interval: { kind: 'calendar', frequency: 'Daily' },
+    title: 'Visual Leak Inspection',
+    desc: 'Inspect feed lines, cooling connections, and boiler drain for moisture.',
+    critical: true,
+    sopIds: ['startup'],
+  },
+  {
+    id: 'purity-check',
+    interval: { kind: 'calendar', frequency: 'Daily' },
+    title: 'Distillate Purity Check',
+    desc: 'Verify conductivity meter reads < 2.0 µS/cm.',
+    critical: false,
+    readings: [{ key: 'conductivity', kind: 'conductivity', label: 'Conductivity', max: 2.0 }],
+  },
+  {
+    id: 'boiler-blowdown',
+    interval: { kind: 'calendar', frequency: 'Weekly' },
+    title: 'Boiler Blowdown',
+    desc: 'Drain boiler completely to remove concentrated sludge and mineral deposits.',
+    critical: true,
+    sopIds: ['shutdown'],
+  },
+  {
+    id: 'vent-filter',
+    interval: { kind: 'calendar', frequency: 'Weekly' },
+    title: 'Vent Filter Inspection',
+    desc: 'Check the sterile air vent filter on the storage tank for blockage.',
+    critical: false,
+  },
+  {
+    id: 'descaling',
+    interval: { kind: 'calendar', frequency: 'Monthly' },
+    title: 'Descaling Cycle',
+    desc: 'Perform acid wash using 10% Citric Acid solution. Soak for 4 hours.',
+    critical: true,
+    sopIds: ['cleaning'],
+  },
+  {
+    id: 'gasket-check',
+    interval: { kind: 'calendar', frequency: 'Monthly' },
+    title: 'Gasket & Seal Check',
+    desc: 'Inspect silicone gaskets on the boiler head and condenser for brittleness.',
+    critical: false,
+  },
+  {
+    id: 'heater-test',
+    interval: { kind: 'calendar', frequency: 'Quarterly' },
+    title: 'Heater Element Testing',
+    desc: 'Measure resistance across heating elements to ensure even load distribution.',
+    critical: true,
+    // 2 kW at 230 V is about 26 Ω; readings outside ±25% point to a failing or mismatched element
+    readings: [{ key: 'elementResistance', kind: 'resistance', label: 'Element Resistance', min: 20, max: 33 }],
+    sopIds: ['shutdown'],
+  },
+];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPositive = (v: unknown): v is number => isNumber(v) && v > 0;
+
+const parseInterval = (raw: unknown): MaintenanceInterval | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const i = raw as Record<string, unknown>;
+  if (i.kind === 'calendar' && FREQUENCIES.includes(i.frequency as MaintenanceFrequency)) return { kind: 'calendar', frequency: i.frequency as MaintenanceFrequency };
+  if (i.kind === 'days' && isPositive(i.days)) return { kind: 'days', days: i.days };
+  if (i.kind === 'hours' && isPositive(i.hours)) return { kind: 'hours', hours: i.hours };
+  if (i.kind === 'liters' && isPositive(i.liters)) return { kind: 'liters', liters: i.liters };
+  return null;
+};
+
+const parseReading = (raw: unknown): MaintenanceReadingSpec | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.key !== 'string' || !r.key || typeof r.label !== 'string' || !(typeof r.kind === 'string' && r.kind in READING_UNITS)) return null;
+  return {
+    key: r.key,
+    kind: r.kind as MaintenanceReadingSpec['kind'],
+    label: r.label,
+    ...(isNumber(r.min) ? { min: r.min } : {}),
+    ...(isNumber(r.max) ? { max: r.max } : {}),
+  };
+};
+
+// Returns a list of problems; empty when the task is usable
+export const validateTask = (task: MaintenanceTask): string[] => {
+  const errors: string[] = [];
+  if (!task.title.trim()) errors.push('Title is required.');
+  if (task.interval.kind === 'days' && !isPositive(task.interval.days)) errors.push('Interval must be a positive number of days.');
+  if (task.interval.kind === 'hours' && !isPositive(task.interval.hours)) errors.push('Interval must be a positive number of hours.');
+  if (task.interval.kind === 'liters' && !isPositive(task.interval.liters)) errors.push('Interval must be a positive number of liters.');
+  task.readings?.forEach(r => {
+    if (!r.label.trim()) errors.push('Every reading needs a label.');
+    if (r.min !== undefined && r.max !== undefined && r.min > r.max) errors.push(`${r.label || 'Reading'}: the lower limit is above the upper limit.`);
+  });
+  return errors;
+};
+
+const parseTask = (raw: unknown): MaintenanceTask | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const t = raw as Record<string, unknown>;
+  const interval = parseInterval(t.interval);
+  if (typeof t.id !== 'string' || !t.id || typeof t.title !== 'string' || !interval) return null;
+  const task: MaintenanceTask = {
+    id: t.id,
+    interval,
+    title: t.title,
+    desc: typeof t.desc === 'string' ? t.desc : '',
+    critical: t.critical === true,
+    readings: Array.isArray(t.readings) ? t.readings.flatMap(r => parseReading(r) ?? []) : [],
+    sopIds: Array.isArray(t.sopIds) ? t.sopIds.filter((id): id is string => typeof id === 'string') : [],
+    retired: t.retired === true,
+    ...(typeof t.addedAt === 'number' ? { addedAt: t.addedAt } : {}),
+  };
+  return validateTask(task).length === 0 ? task : null;
+};
+
+export const loadCatalog = (): MaintenanceTask[] => {
+  try {
+    const saved = localStorage.getItem(CATALOG_KEY);
+    if (!saved) return DEFAULT_TASKS;
+    const parsed: unknown = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.flatMap(t => parseTask(t) ?? []) : DEFAULT_TASKS;
+  } catch {
+    return DEFAULT_TASKS;
+  }
+};
+
+export const saveCatalog = (tasks: MaintenanceTask[]) => {
+  localStorage.setItem(CATALOG_KEY, JSON.stringify(tasks));
+};
+
+export const exportCatalog = (tasks: MaintenanceTask[]) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: 1, tasks }, null, 2);
+
+// Accepts the export format or a bare array; invalid entries are reported, not imported
+export const parseCatalogFile = (text: string): { tasks: MaintenanceTask[], errors: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { tasks: [], errors: ['File is not valid JSON.'] };
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { tasks?: unknown })?.tasks;
+  if (!Array.isArray(list)) return { tasks: [], errors: ['No tasks found in the file.'] };
+  const tasks = list.flatMap(t => parseTask(t) ?? []);
+  const skipped = list.length - tasks.length;
+  return { tasks, errors: skipped > 0 ? [`${skipped} entr${skipped === 1 ? 'y' : 'ies'} skipped (missing id, title or a valid interval).`] : [] };
+};
+
+// The imported catalog takes over in its own order; local tasks it does not
+// contain are retired rather than dropped, so their history keeps its titles.
+// Schedules keep counting from when each task was added here, which for a
+// task new to this site is the import.
+export const applyImportedCatalog = (existing: MaintenanceTask[], imported: MaintenanceTask[], now: number = Date.now()): MaintenanceTask[] => [
+  ...imported.map(t => {
+    const local = existing.find(e => e.id === t.id);
+    return { ...t, addedAt: local ? local.addedAt : now };
+  }),
+  ...existing.filter(t => !imported.some(i => i.id === t.id)).map(t => ({ ...t, retired: true })),
+];
+
+// Swaps a task with its nearest neighbour of the same status, so retired tasks never block a move
+export const moveTask = (tasks: MaintenanceTask[], id: string, offset: -1 | 1) => {
+  const index = tasks.findIndex(t => t.id === id);
+  if (index < 0) return tasks;
+  let target = index + offset;
+  while (target >= 0 && target < tasks.length && !!tasks[target].retired !== !!tasks[index].retired) target += offset;
+  if (target < 0 || target >= tasks.length) return tasks;
+  const next = [...tasks];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
@@ -0,0 +1,189 @@
+import { ColumnInfo, DataRow, ImportReport } from './dataImport';
+import { systemUnitDefs } from './units';
+
+// --- Measured Run Logs ---
+// Maps imported log columns onto a Calculator module's axes and compares the
+// measured series against the model curve (interpolated at each sample).
+
+export type LogModule = 'heating' | 'conductivity' | 'flow' | 'power';
+
+// A unit a log may record a series in: value = canonical × scale + offset
+export interface MeasuredUnit {
+  label: string;
+  scale: number;
+  offset?: number;
+  aliases?: string[];
+}
+
+export interface ModelSeries {
+  key: string;      // Key in the generator output, e.g. "temperature"
+  label: string;
+  match: RegExp;    // Used to guess the matching log column
+  units: MeasuredUnit[];  // Canonical unit first
+}
+
+const withAliases = (units: MeasuredUnit[], aliases: Record<string, string[]>) =>
+  units.map(u => ({ ...u, aliases: aliases[u.label] }));
+
+export const TEMPERATURE_UNITS = withAliases(
+  [...systemUnitDefs('temperature'), { label: 'K', scale: 1, offset: 273.15 }],
+  { '°C': ['C', 'degC', 'deg C', 'celsius'], '°F': ['F', 'degF', 'deg F', 'fahrenheit'], K: ['kelvin'] }
+);
+export const FLOW_RATE_UNITS: MeasuredUnit[] = [
+  ...systemUnitDefs('flowRate'),
+  { label: 'mL/h', scale: 60, aliases: ['ml/hr'] },
+  { label: 'L/min', scale: 0.001, aliases: ['lpm'] },
+  { label: 'L/h', scale: 0.06, aliases: ['l/hr', 'lph'] },
+];
+export const VOLUME_UNITS = withAliases(
+  [...systemUnitDefs('volume'), { label: 'mL', scale: 1000 }],
+  { L: ['l', 'liter', 'liters', 'litre', 'litres'], gal: ['gallon', 'gallons'] }
+);
+export const ENERGY_UNITS: MeasuredUnit[] = [{ label: 'kWh', scale: 1 }, { label: 'Wh', scale: 1000 }, { label: 'MJ', scale: 3.6 }];
+
+// Model series each module can be compared against (x is always "time" in minutes)
+export const MODULE_SERIES: Record<LogModule, ModelSeries[]> = {
+  heating: [{ key: 'temperature', label: 'Temperature (°C)', match: /temp|°c|deg/i, units: TEMPERATURE_UNITS }],
+  conductivity: [{
+    key: 'conductivity', label: 'Conductivity (µS/cm)', match: /cond|µs|us\/cm|purity/i,
+    units: [{ label: 'µS/cm', scale: 1, aliases: ['us/cm', 'μS/cm'] }, { label: 'mS/cm', scale: 0.001, aliases: ['ms/cm'] }],
+  }],
+  flow: [
+    { key: 'flowRate', label: 'Flow Rate (mL/min)', match: /flow|rate|ml\/min/i, units: FLOW_RATE_UNITS },
+    { key: 'totalVolume', label: 'Total Volume (L)', match: /vol|total|litre|liter/i, units: VOLUME_UNITS },
+  ],
+  power: [
+    { key: 'energy', label: 'Energy (kWh)', match: /energy|kwh/i, units: ENERGY_UNITS },
+    { key: 'cost', label: 'Cost ($)', match: /cost|\$/i, units: [{ label: '$', scale: 1, aliases: ['usd'] }] },
+  ],
+};
+
+const normalizeUnit = (unit: string) => unit.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^deg(?=[cf]$)/, '°').replace(/^μ|^u(?=s\/)/, 'µ');
+
+// The unit a header names, when it is one the list accepts
+export const findUnit = (units: MeasuredUnit[], unit?: string): MeasuredUnit | null => {
+  if (!unit) return null;
+  const wanted = normalizeUnit(unit);
+  return units.find(u => [u.label, ...(u.aliases ?? [])].some(l => normalizeUnit(l) === wanted)) ?? null;
+};
+
+export const toCanonical = (unit: MeasuredUnit, value: number) => (value - (unit.offset ?? 0)) / unit.scale;
+
+export const seriesFor = (module: LogModule, seriesKey: string) =>
+  MODULE_SERIES[module].find(s => s.key === seriesKey) ?? MODULE_SERIES[module][0];
+
+export interface LogMapping {
+  xColumn: string;
+  yColumn: string;
+  seriesKey: string;
+  // Multiplier converting the log's time column to minutes
+  timeScale: number;
+  // Unit the measured column is recorded in; null until detected or chosen
+  yUnit: string | null;
+}
+
+export interface RunLog {
+  fileName: string;
+  rows: DataRow[];
+  report: ImportReport;
+  // Null when the file has fewer than two numeric columns
+  mapping: LogMapping | null;
+}
+
+export interface MeasuredPoint {
+  x: number;        // Minutes
+  y: number;
+}
+
+export interface ResidualStats {
+  n: number;
+  rmse: number;
+  meanResidual: number;
+  maxAbsResidual: number;
+}
+
+// Converts a time column to minutes using its unit, defaulting to minutes
+export const timeScaleForUnit = (unit?: string): number => {
+  const u = (unit || '').trim().toLowerCase();
+  if (['s', 'sec', 'secs', 'second', 'seconds'].includes(u)) return 1 / 60;
+  if (['h', 'hr', 'hrs', 'hour', 'hours'].includes(u)) return 60;
+  return 1;
+};
+
+// First-guess mapping from column names; the user can override every field
+export const guessMapping = (module: LogModule, columns: ColumnInfo[]): LogMapping | null => {
+  const numeric = columns.filter(c => c.type === 'number');
+  if (numeric.length < 2) return null;
+
+  const x = numeric.find(c => /time|min|sec|hour|elapsed/i.test(c.name)) || numeric[0];
+  const others = numeric.filter(c => c !== x);
+  const series = MODULE_SERIES[module];
+  let best = series[0];
+  let y = others[0];
+  for (const s of series) {
+    const hit = others.find(c => s.match.test(c.key));
+    if (hit) { best = s; y = hit; break; }
+  }
+  return { xColumn: x.key, yColumn: y.key, seriesKey: best.key, timeScale: timeScaleForUnit(x.unit), yUnit: findUnit(best.units, y.unit)?.label ?? null };
+};
+
+// Points in minutes and the series' canonical unit; empty while the measured unit is unknown
+export const extractMeasured = (module: LogModule, rows: DataRow[], mapping: LogMapping): MeasuredPoint[] => {
+  const unit = seriesFor(module, mapping.seriesKey).units.find(u => u.label === mapping.yUnit);
+  if (!unit) return [];
+  return rows
+    .map(r => ({ x: r[mapping.xColumn], y: r[mapping.yColumn] }))
+    .filter((p): p is { x: number, y: number } => typeof p.x === 'number' && typeof p.y === 'number')
+    .map(p => ({ x: p.x * mapping.timeScale, y: toCanonical(unit, p.y) }))
+    .sort((a, b) => a.x - b.x);
+};
+
+// Linear interpolation on a model series sorted by x; null outside its range
+export const interpolateAt = (data: Array<Record<string, number>>, xKey: string, yKey: string, x: number): number | null => {
+  if (data.length === 0 || x < data[0][xKey] || x > data[data.length - 1][xKey]) return null;
+  let lo = 0;
+  let hi = data.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (data[mid][xKey] <= x) lo = mid; else hi = mid;
+  }
+  const x0 = data[lo][xKey];
+  const x1 = data[hi][xKey];
+  if (x1 === x0) return data[lo][yKey];
+  return data[lo][yKey] + (data[hi][yKey] - data[lo][yKey]) * (x - x0) / (x1 - x0);
+};
+
+// Merges model and measured points into one x-sorted array for a shared chart.
+// Measured rows carry "measured" and "residual" (measured - model).
+export const overlayMeasured = (
+  model: Array<Record<string, number>>,
+  measured: MeasuredPoint[],
+  yKey: string,
+  xKey: string = 'time'
+): { data: Array<Record<string, number>>, stats: ResidualStats | null } => {
+  const residuals: number[] = [];
+  const measuredRows = measured.map(p => {
+    const modelY = interpolateAt(model, xKey, yKey, p.x);
+    const row: Record<string, number> = { [xKey]: Number(p.x.toFixed(3)), measured: p.y };
+    if (modelY !== null) {
+      const residual = p.y - modelY;
+      row.residual = Number(residual.toFixed(3));
+      residuals.push(residual);
+    }
+    return row;
+  });
+
+  const data = [...model, ...measuredRows].sort((a, b) => a[xKey] - b[xKey]);
+  if (residuals.length === 0) return { data, stats: null };
+
+  const n = residuals.length;
+  return {
+    data,
+    stats: {
+      n,
+      rmse: Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / n),
+      meanResidual: residuals.reduce((s, r) => s + r, 0) / n,
+      maxAbsResidual: residuals.reduce((m, r) => Math.max(m, Math.abs(r)), 0),
+    },
+  };
+};
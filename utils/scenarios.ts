@@ -0,0 +1,456 @@
+import { AntoineParams, CalculatorModule } from '../types';
+import { SUBSTANCES, calculateBoilingPoint, designMcCabeThiele, generateAntoineData, generateConductivityData } from './calculations';
+import { BATCH_OPERATION_LABELS, BATCH_STOP_LABELS, BatchOperation, BatchSpec, BatchStopCriterion, simulateBatchDistillation } from './batch';
+import { boilerSpecFrom, generateBoilerData, summarizeBoiler } from './boiler';
+import { CondenserGeometry, coilArea, evaluateCondenser, generateCondenserCurve } from './condenser';
+import { bubblePointTemperature, dewPointTemperature, generateFlashCurve, isothermalFlash } from './flash';
+import { ATMOSPHERIC_MMHG, batchEnergy, generateBoilingCurve, sizeVacuumPump } from './vacuum';
+import { ACTIVITY_MODEL_LABELS, ActivityModel, BINARY_PAIRS, VleSpec, buildVleSystem } from './vle';
+import { Quantity } from './units';
+import { DEFAULT_UNIT_ID, unitStorageKey } from './fleet';
+
+// --- Calculator Scenarios ---
+// Named parameter sets saved per module and still in localStorage, shared as a URL hash
+// or a JSON file, and re-evaluated here so several can be overlaid on one chart.
+
+export interface CalculatorParams {
+  substance: string;            // Library name of the Pressure module's substance
+  pressureTempRange: number;
+  t0: number;
+  boilerVolume: number;
+  liquidDensity: number;
+  heatCapacity: number;
+  lossCoefficient: number;
+  ambientC: number;
+  powerWatts: number;
+  powerCost: number;
+  condInit: number;
+  condFinal: number;
+  condRate: number;
+  vacuumPressure: number;
+  chargeKg: number;
+  evaporatedPct: number;
+  systemVolume: number;
+  pumpDownMinutes: number;
+  leakRate: number;
+  coolantInlet: number;
+  coolantFlow: number;
+  condenserGeometry: CondenserGeometry;
+  condenserArea: number;
+  coilLength: number;
+  coilDiameter: number;
+  uValue: number;
+  vaporPassage: number;
+  mixture: Array<{ name: string; z: number }>;
+  flashPressure: number;
+  flashTemp: number | null;     // Null follows the midpoint of the bubble-dew range
+  vleSpec: VleSpec;
+  vleView: 'txy' | 'xy';
+  equilibriumSource: 'alpha' | 'vle';
+  alpha: number;
+  refluxRatio: number;
+  distillatePurity: number;
+  feedComposition: number;
+  feedQuality: number;
+  bottomsPurity: number;
+  batchAlpha: number;
+  batchSpec: BatchSpec;
+  batchCharge: number;
+}
+
+type ParamKey = keyof CalculatorParams;
+
+const BOILER_PARAMS: ParamKey[] = ['substance', 't0', 'boilerVolume', 'liquidDensity', 'heatCapacity', 'lossCoefficient', 'ambientC', 'powerWatts'];
+
+// Parameters each module's results depend on; only these are saved and restored
+export const MODULE_PARAMS: Record<CalculatorModule, ParamKey[]> = {
+  heating: BOILER_PARAMS,
+  flow: BOILER_PARAMS,
+  power: [...BOILER_PARAMS, 'powerCost'],
+  antoine: ['substance', 'pressureTempRange'],
+  conductivity: ['condInit', 'condFinal', 'condRate'],
+  vacuum: ['substance', 'vacuumPressure', 'chargeKg', 'evaporatedPct', 'heatCapacity', 'powerWatts', 'powerCost', 'systemVolume', 'pumpDownMinutes', 'leakRate', 't0'],
+  condenser: [...BOILER_PARAMS, 'coolantInlet', 'coolantFlow', 'condenserGeometry', 'condenserArea', 'coilLength', 'coilDiameter', 'uValue', 'vaporPassage'],
+  flash: ['mixture', 'flashPressure', 'flashTemp'],
+  vle: ['vleSpec', 'vleView'],
+  mccabe: ['equilibriumSource', 'vleSpec', 'alpha', 'refluxRatio', 'distillatePurity', 'feedComposition', 'feedQuality', 'bottomsPurity'],
+  batch: ['equilibriumSource', 'vleSpec', 'batchAlpha', 'batchSpec', 'batchCharge'],
+};
+
+export const MODULE_NAMES: Record<CalculatorModule, string> = {
+  heating: 'Temperature',
+  antoine: 'Pressure',
+  conductivity: 'Conductivity',
+  flow: 'Flow Rate',
+  power: 'Power Use',
+  mccabe: 'McCabe-Thiele',
+  batch: 'Batch Distillation',
+  vle: 'Phase Equilibrium',
+  flash: 'Mixture Flash',
+  vacuum: 'Vacuum Distillation',
+  condenser: 'Condenser',
+};
+
+export interface Scenario {
+  id: string;
+  name: string;
+  module: CalculatorModule;
+  createdAt: number;
+  params: Partial<CalculatorParams>;
+}
+
+const SCENARIOS_KEY = 'distillai_calculator_scenarios';
+const EXPORT_FORMAT = 'distillai-scenarios';
+const SHARE_PARAM = 'scenario';
+
+const MODULES = Object.keys(MODULE_PARAMS) as CalculatorModule[];
+
+export const pickParams = (module: CalculatorModule, params: CalculatorParams): Partial<CalculatorParams> =>
+  Object.fromEntries(MODULE_PARAMS[module].map(key => [key, params[key]]));
+
+// --- Parameter Validation ---
+// Shared links, files and storage are untrusted. Flat values must match the live
+// value's type (and allowed values, for enums); nested specs are merged field by
+// field over the live spec, so a partial or malformed object cannot reach state.
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const oneOf = <T extends string>(allowed: readonly T[], v: unknown, fallback: T): T =>
+  allowed.includes(v as T) ? v as T : fallback;
+const numberOr = (v: unknown, fallback: number) => isFiniteNumber(v) ? v : fallback;
+
+const ENUM_PARAMS: Partial<Record<ParamKey, readonly string[]>> = {
+  condenserGeometry: ['area', 'coil'] satisfies CondenserGeometry[],
+  vleView: ['txy', 'xy'],
+  equilibriumSource: ['alpha', 'vle'],
+};
+
+const sanitizeVleSpec = (raw: Record<string, unknown>, reference: VleSpec): VleSpec => ({
+  pairId: oneOf(BINARY_PAIRS.map(p => p.id), raw.pairId, reference.pairId),
+  model: oneOf(Object.keys(ACTIVITY_MODEL_LABELS) as ActivityModel[], raw.model, reference.model),
+  pressureMmHg: isFiniteNumber(raw.pressureMmHg) && raw.pressureMmHg > 0 ? raw.pressureMmHg : reference.pressureMmHg,
+});
+
+const sanitizeBatchSpec = (raw: Record<string, unknown>, reference: BatchSpec): BatchSpec => {
+  const stop = isObject(raw.stop) ? raw.stop : {};
+  const cutPoints = Array.isArray(raw.cutPoints) && raw.cutPoints.length === 3 && raw.cutPoints.every(isFiniteNumber)
+    ? raw.cutPoints as [number, number, number]
+    : reference.cutPoints;
+  return {
+    operation: oneOf(Object.keys(BATCH_OPERATION_LABELS) as BatchOperation[], raw.operation, reference.operation),
+    feedComposition: numberOr(raw.feedComposition, reference.feedComposition),
+    stages: numberOr(raw.stages, reference.stages),
+    refluxRatio: numberOr(raw.refluxRatio, reference.refluxRatio),
+    distillateComposition: numberOr(raw.distillateComposition, reference.distillateComposition),
+    maxReflux: numberOr(raw.maxReflux, reference.maxReflux),
+    stop: {
+      criterion: oneOf(Object.keys(BATCH_STOP_LABELS) as BatchStopCriterion[], stop.criterion, reference.stop.criterion),
+      value: numberOr(stop.value, reference.stop.value),
+    },
+    cutPoints,
+  };
+};
+
+// Entries without a name or a finite, non-negative amount are dropped
+const sanitizeMixture = (raw: unknown[]): CalculatorParams['mixture'] =>
+  raw.flatMap(e => isObject(e) && typeof e.name === 'string' && isFiniteNumber(e.z) && e.z >= 0 ? [{ name: e.name, z: e.z }] : []);
+
+// Returns undefined when the value cannot be used
+const sanitizeParam = (key: ParamKey, value: unknown, reference: CalculatorParams): unknown => {
+  if (value === undefined) return undefined;
+  const allowed = ENUM_PARAMS[key];
+  if (allowed) return allowed.includes(value as string) ? value : undefined;
+  switch (key) {
+    case 'flashTemp': return value === null || isFiniteNumber(value) ? value : undefined;
+    case 'vleSpec': return isObject(value) ? sanitizeVleSpec(value, reference.vleSpec) : undefined;
+    case 'batchSpec': return isObject(value) ? sanitizeBatchSpec(value, reference.batchSpec) : undefined;
+    case 'mixture': {
+      const mixture = Array.isArray(value) ? sanitizeMixture(value) : [];
+      return mixture.length > 0 ? mixture : undefined;
+    }
+  }
+  if (typeof reference[key] === 'number') return isFiniteNumber(value) ? value : undefined;
+  return typeof value === typeof reference[key] ? value : undefined;
+};
+
+// Keeps only the module's keys that pass validation, so a stale, hand-edited or
+// crafted scenario cannot push the wrong shape into component state
+export const sanitizeParams = (module: CalculatorModule, raw: unknown, reference: CalculatorParams): Partial<CalculatorParams> => {
+  if (!isObject(raw)) return {};
+  return Object.fromEntries(MODULE_PARAMS[module].flatMap(key => {
+    const value = sanitizeParam(key, raw[key], reference);
+    return value === undefined ? [] : [[key, value]];
+  }));
+};
+
+const parseScenario = (raw: unknown, reference: CalculatorParams): Scenario | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const s = raw as Record<string, unknown>;
+  if (typeof s.name !== 'string' || !s.name.trim() || !MODULES.includes(s.module as CalculatorModule)) return null;
+  const module = s.module as CalculatorModule;
+  return {
+    id: typeof s.id === 'string' ? s.id : crypto.randomUUID(),
+    name: s.name.trim(),
+    module,
+    createdAt: typeof s.createdAt === 'number' ? s.createdAt : Date.now(),
+    params: sanitizeParams(module, s.params, reference),
+  };
+};
+
+export const loadScenarios = (reference: CalculatorParams, unitId: string = DEFAULT_UNIT_ID): Scenario[] => {
+  try {
+    const saved = localStorage.getItem(unitStorageKey(SCENARIOS_KEY, unitId));
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.flatMap(s => parseScenario(s, reference) ?? []) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveScenarios = (scenarios: Scenario[], unitId: string = DEFAULT_UNIT_ID) => {
+  localStorage.setItem(unitStorageKey(SCENARIOS_KEY, unitId), JSON.stringify(scenarios));
+};
+
+export const exportScenarios = (scenarios: Scenario[]) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: 1, scenarios }, null, 2);
+
+export const parseScenarioFile = (text: string, reference: CalculatorParams): { scenarios: Scenario[], errors: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { scenarios: [], errors: ['File is not valid JSON.'] };
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { scenarios?: unknown })?.scenarios;
+  if (!Array.isArray(list)) return { scenarios: [], errors: ['No scenarios found in the file.'] };
+  const scenarios = list.flatMap(s => parseScenario(s, reference) ?? []);
+  const skipped = list.length - scenarios.length;
+  return { scenarios, errors: skipped > 0 ? [`${skipped} entr${skipped === 1 ? 'y' : 'ies'} skipped (missing name, module or parameters).`] : [] };
+};
+
+// Imported scenarios replace saved ones with the same id
+export const mergeScenarios = (existing: Scenario[], incoming: Scenario[]) => [
+  ...existing.filter(s => !incoming.some(i => i.id === s.id)),
+  ...incoming,
+];
+
+// URL-safe base64 of the UTF-8 JSON
+const encodeBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const scenarioShareUrl = (scenario: Scenario, baseUrl: string) =>
+  `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${encodeBase64Url(JSON.stringify(scenario))}`;
+
+// Reads a scenario from a location hash such as "#scenario=…"; null when absent or unreadable
+export const readSharedScenario = (hash: string, reference: CalculatorParams): Scenario | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  if (!encoded) return null;
+  try {
+    return parseScenario(JSON.parse(decodeBase64Url(encoded)), reference);
+  } catch {
+    return null;
+  }
+};
+
+// --- Comparison ---
+
+export interface ScenarioMetric {
+  label: string;
+  value: number;                // NaN when the metric does not apply
+  quantity?: Quantity;          // Converted to the preferred units for display
+  unit?: string;                // Fixed unit otherwise
+  digits?: number;
+}
+
+export interface ScenarioEvaluation {
+  xLabel: string;
+  yLabel: string;
+  xQuantity?: Quantity;
+  yQuantity?: Quantity;
+  series: Array<{ x: number; y: number }>;
+  metrics: ScenarioMetric[];
+}
+
+const finite = (v: number) => Number.isFinite(v) ? v : NaN;
+
+// Primary curve and headline figures for a module, from parameters alone
+export const evaluateScenario = (module: CalculatorModule, params: CalculatorParams, library: AntoineParams[] = SUBSTANCES): ScenarioEvaluation => {
+  const substance = library.find(s => s.name === params.substance) ?? SUBSTANCES[0];
+  const boiler = boilerSpecFrom(params, substance);
+  const vleSystem = params.equilibriumSource === 'vle' || module === 'vle' ? buildVleSystem(params.vleSpec) : null;
+
+  if (module === 'heating' || module === 'flow' || module === 'power') {
+    const summary = summarizeBoiler(boiler);
+    const data = generateBoilerData(boiler, params.powerCost, 60);
+    const last = data[data.length - 1];
+    const y = module === 'heating' ? 'temperature' : module === 'flow' ? 'flowRate' : 'energy';
+    return {
+      xLabel: 'Time (min)',
+      yLabel: module === 'heating' ? 'Temperature' : module === 'flow' ? 'Flow Rate' : 'Energy (kWh)',
+      yQuantity: module === 'heating' ? 'temperature' : module === 'flow' ? 'flowRate' : undefined,
+      series: data.map(r => ({ x: r.time, y: r[y] })),
+      metrics: module === 'power' ? [
+        { label: 'Energy (60 min)', value: last.energy, unit: 'kWh', digits: 2 },
+        { label: 'Cost (60 min)', value: last.cost, unit: '$', digits: 2 },
+        { label: 'Shell Losses', value: last.losses, unit: 'kWh', digits: 2 },
+      ] : [
+        { label: 'Time to Boil', value: finite(summary.timeToBoil), unit: 'min', digits: 1 },
+        { label: 'Output Rate', value: summary.steadyFlowRate, quantity: 'flowRate' },
+        { label: 'Volume (60 min)', value: last.totalVolume, quantity: 'volume' },
+        { label: 'Efficiency', value: summary.boilingEfficiency * 100, unit: '%', digits: 0 },
+      ],
+    };
+  }
+
+  if (module === 'conductivity') {
+    const data = generateConductivityData(params.condInit, params.condFinal, params.condRate, 60);
+    const final = data[data.length - 1].conductivity;
+    return {
+      xLabel: 'Time (min)',
+      yLabel: 'Conductivity (µS/cm)',
+      series: data.map(r => ({ x: r.time, y: r.conductivity })),
+      metrics: [
+        { label: 'Final Purity', value: final, unit: 'µS', digits: 2 },
+        { label: 'Reduction', value: (1 - params.condFinal / params.condInit) * 100, unit: '%', digits: 0 },
+      ],
+    };
+  }
+
+  if (module === 'antoine') {
+    const data = generateAntoineData(substance, 0, params.pressureTempRange);
+    return {
+      xLabel: 'Temperature',
+      yLabel: 'Vapor Pressure',
+      xQuantity: 'temperature',
+      yQuantity: 'pressure',
+      series: data.map(r => ({ x: r.temperature, y: r.pressure })),
+      metrics: [
+        { label: 'Boiling Point', value: calculateBoilingPoint(ATMOSPHERIC_MMHG, substance), quantity: 'temperature' },
+        { label: 'Max Pressure', value: data[data.length - 1]?.pressure ?? NaN, quantity: 'pressure' },
+      ],
+    };
+  }
+
+  if (module === 'vacuum') {
+    const input = { chargeKg: params.chargeKg, evaporatedFraction: params.evaporatedPct / 100, heatCapacity: params.heatCapacity, ambientC: params.t0, heaterWatts: params.powerWatts };
+    const atmospheric = batchEnergy(substance, ATMOSPHERIC_MMHG, input);
+    const vacuum = batchEnergy(substance, params.vacuumPressure, input);
+    return {
+      xLabel: 'Pressure',
+      yLabel: 'Boiling Point',
+      xQuantity: 'pressure',
+      yQuantity: 'temperature',
+      series: generateBoilingCurve(substance, 5, ATMOSPHERIC_MMHG).map(r => ({ x: r.pressure, y: r.boilingPoint })),
+      metrics: [
+        { label: 'Boiling Point', value: vacuum.boilingPoint, quantity: 'temperature' },
+        { label: 'Batch Energy', value: vacuum.totalKwh, unit: 'kWh', digits: 2 },
+        { label: 'Energy Saving', value: (1 - vacuum.totalKwh / atmospheric.totalKwh) * 100, unit: '%', digits: 1 },
+        { label: 'Pump Speed', value: sizeVacuumPump(params.systemVolume, params.vacuumPressure, params.pumpDownMinutes, params.leakRate).requiredSpeed, quantity: 'pumpSpeed' },
+      ],
+    };
+  }
+
+  if (module === 'condenser') {
+    const spec = {
+      vaporLoadWatts: params.powerWatts * summarizeBoiler(boiler).boilingEfficiency,
+      latentHeat: boiler.latentHeat,
+      saturationC: boiler.boilingPoint,
+      molarMass: substance.molarMass,
+      liquidDensity: params.liquidDensity,
+      coolantInletC: params.coolantInlet,
+      coolantFlowLpm: params.coolantFlow,
+      area: params.condenserGeometry === 'coil' ? coilArea(params.coilLength, params.coilDiameter) : params.condenserArea,
+      uValue: params.uValue,
+      tubeDiameterMm: params.vaporPassage,
+    };
+    const result = evaluateCondenser(spec);
+    return {
+      xLabel: 'Cooling Water Flow',
+      yLabel: 'Condensing Capacity (W)',
+      xQuantity: 'coolantFlow',
+      series: generateCondenserCurve(spec, Math.max(5, params.coolantFlow * 1.5)).map(r => ({ x: r.coolantFlow, y: r.capacity })),
+      metrics: [
+        { label: 'Min Water Flow', value: finite(result.requiredFlowLpm), quantity: 'coolantFlow' },
+        { label: 'Water Outlet', value: result.coolantOutletC, quantity: 'temperature' },
+        { label: 'Condensed', value: result.condensedFraction * 100, unit: '%', digits: 0 },
+        { label: 'Flooding', value: result.floodingRatio * 100, unit: '%', digits: 0 },
+      ],
+    };
+  }
+
+  if (module === 'flash') {
+    const feed = params.mixture.flatMap(e => {
+      const s = library.find(l => l.name === e.name);
+      return s ? [{ substance: s, z: e.z }] : [];
+    });
+    if (!feed.some(c => c.z > 0)) return { xLabel: 'Temperature', yLabel: 'Vapor Fraction', xQuantity: 'temperature', series: [], metrics: [] };
+    const bubble = bubblePointTemperature(feed, params.flashPressure).temperature;
+    const dew = dewPointTemperature(feed, params.flashPressure).temperature;
+    const flashT = params.flashTemp ?? (bubble + dew) / 2;
+    return {
+      xLabel: 'Temperature',
+      yLabel: 'Vapor Fraction (V/F)',
+      xQuantity: 'temperature',
+      series: generateFlashCurve(feed, params.flashPressure).map(r => ({ x: r.temperature, y: r.vaporFraction })),
+      metrics: [
+        { label: 'Bubble Point', value: bubble, quantity: 'temperature' },
+        { label: 'Dew Point', value: dew, quantity: 'temperature' },
+        { label: 'Vapor Fraction', value: isothermalFlash(feed, flashT, params.flashPressure).vaporFraction * 100, unit: '%', digits: 1 },
+      ],
+    };
+  }
+
+  if (module === 'vle') {
+    if (!vleSystem) return { xLabel: 'x (light)', yLabel: 'Temperature', yQuantity: 'temperature', series: [], metrics: [] };
+    return {
+      xLabel: `x (${vleSystem.light.name})`,
+      yLabel: 'Bubble Temperature',
+      yQuantity: 'temperature',
+      series: vleSystem.points.map(p => ({ x: p.x, y: p.temperature })),
+      metrics: [
+        { label: 'Azeotrope x', value: vleSystem.azeotrope?.x ?? NaN, digits: 3 },
+        { label: 'Azeotrope T', value: vleSystem.azeotrope?.temperature ?? NaN, quantity: 'temperature' },
+        { label: `${vleSystem.heavy.name} bp`, value: vleSystem.points[0].temperature, quantity: 'temperature' },
+      ],
+    };
+  }
+
+  const equilibrium = params.equilibriumSource === 'vle' && vleSystem ? vleSystem.curve : null;
+
+  if (module === 'mccabe') {
+    const design = designMcCabeThiele(equilibrium ?? params.alpha, params.refluxRatio, params.distillatePurity, params.feedComposition, params.feedQuality, params.bottomsPurity);
+    return {
+      xLabel: 'x (Liquid Phase)',
+      yLabel: 'y (Vapor Phase)',
+      series: design.steps.map(p => ({ x: p.x, y: p.y })),
+      metrics: [
+        { label: 'Stages', value: design.feasible ? design.stages : NaN, digits: 0 },
+        { label: 'Feed Stage', value: design.feasible ? design.feedStage : NaN, digits: 0 },
+        { label: 'Min Reflux', value: design.minReflux, digits: 2 },
+        { label: 'Min Stages', value: design.minStages, digits: 1 },
+      ],
+    };
+  }
+
+  const result = simulateBatchDistillation(equilibrium ?? params.batchAlpha, params.batchSpec);
+  return {
+    xLabel: '% Distilled',
+    yLabel: 'Still Composition (x_W)',
+    series: result.points.map(p => ({ x: p.distilled * 100, y: p.residue })),
+    metrics: [
+      { label: 'Final Still x_W', value: result.final.residue, digits: 3 },
+      { label: 'Avg. Distillate', value: result.final.averageDistillate, digits: 3 },
+      { label: 'Distilled', value: result.final.distilled * params.batchCharge, quantity: 'volume' },
+      { label: 'Boil-up / Charge', value: result.final.boilup, digits: 2 },
+    ],
+  };
+};
@@ -0,0 +1,220 @@
+import { AntoineParams, CalculatorModule } from '../types';
+import { SUBSTANCES } from './calculations';
+import { BatchSpec } from './batch';
+import { CalculatorParams, evaluateScenario } from './scenarios';
+import { Quantity } from './units';
+
+// --- Sensitivity & Parameter Sweeps ---
+// A module is re-evaluated with one or two inputs moved across their slider
+// range. Every run goes through the scenario evaluator, so sweeps report the
+// same headline metrics as the comparison table.
+
+export interface SweepParameter {
+  id: string;
+  label: string;
+  min: number;                  // Slider range, canonical units
+  max: number;
+  quantity?: Quantity;          // Converted to the preferred units for display
+  unit?: string;
+  integer?: boolean;
+  applies?: (params: CalculatorParams) => boolean;   // Hidden when the current setup ignores it
+  get: (params: CalculatorParams) => number;
+  set: (params: CalculatorParams, value: number) => CalculatorParams;
+}
+
+type NumericKey = { [K in keyof CalculatorParams]: CalculatorParams[K] extends number ? K : never }[keyof CalculatorParams];
+type BatchNumericKey = 'feedComposition' | 'stages' | 'refluxRatio' | 'distillateComposition' | 'maxReflux';
+
+type ParameterOptions = Pick<SweepParameter, 'quantity' | 'unit' | 'integer' | 'applies'>;
+
+const field = (key: NumericKey, label: string, min: number, max: number, options: ParameterOptions = {}): SweepParameter => ({
+  id: key, label, min, max, ...options,
+  get: (p) => p[key],
+  set: (p, value) => ({ ...p, [key]: value }),
+});
+
+const batchField = (key: BatchNumericKey, label: string, min: number, max: number, options: ParameterOptions = {}): SweepParameter => ({
+  id: `batchSpec.${key}`, label, min, max, ...options,
+  get: (p) => p.batchSpec[key],
+  set: (p, value) => ({ ...p, batchSpec: { ...p.batchSpec, [key]: value } as BatchSpec }),
+});
+
+const usesAlpha = (p: CalculatorParams) => p.equilibriumSource === 'alpha';
+const usesVle = (p: CalculatorParams) => p.equilibriumSource === 'vle';
+
+const vlePressure = (applies?: (p: CalculatorParams) => boolean): SweepParameter => ({
+  id: 'vleSpec.pressureMmHg', label: 'VLE Pressure', min: 100, max: 1520, quantity: 'pressure', applies,
+  get: (p) => p.vleSpec.pressureMmHg,
+  set: (p, value) => ({ ...p, vleSpec: { ...p.vleSpec, pressureMmHg: value } }),
+});
+
+const HEATER_POWER = field('powerWatts', 'Heater Power', 500, 5000, { unit: 'W' });
+const LOSS_COEFFICIENT = field('lossCoefficient', 'Heat Loss (UA)', 0, 20, { quantity: 'lossCoefficient' });
+const HEAT_CAPACITY = field('heatCapacity', 'Liquid cp', 1.5, 4.2, { quantity: 'specificHeat' });
+
+const BOILER_SWEEPS: SweepParameter[] = [
+  HEATER_POWER,
+  LOSS_COEFFICIENT,
+  field('t0', 'Initial Temp (T₀)', 0, 100, { quantity: 'temperature' }),
+  field('boilerVolume', 'Boiler Volume', 0.5, 50, { quantity: 'volume' }),
+  field('ambientC', 'Ambient Temp (Tₐ)', -10, 40, { quantity: 'temperature' }),
+  HEAT_CAPACITY,
+  field('liquidDensity', 'Liquid Density', 0.6, 1.6, { quantity: 'density' }),
+];
+
+// Inputs that move each module's metrics, with the same ranges as the sliders
+export const SWEEP_PARAMETERS: Record<CalculatorModule, SweepParameter[]> = {
+  heating: BOILER_SWEEPS,
+  flow: BOILER_SWEEPS,
+  power: [...BOILER_SWEEPS, field('powerCost', 'Elec. Cost', 0.05, 0.5, { unit: '$/kWh' })],
+  antoine: [field('pressureTempRange', 'Max Temp', 50, 250, { quantity: 'temperature' })],
+  conductivity: [
+    field('condInit', 'Initial Conductivity', 50, 500, { unit: 'µS' }),
+    field('condFinal', 'Steady State', 0, 10, { unit: 'µS' }),
+    field('condRate', 'Cleaning Rate (k)', 0.05, 0.5, { unit: '1/min' }),
+  ],
+  vacuum: [
+    field('vacuumPressure', 'Operating Pressure', 5, 760, { quantity: 'pressure' }),
+    field('chargeKg', 'Charge', 1, 50, { quantity: 'mass' }),
+    field('evaporatedPct', 'Boiled Off', 10, 100, { unit: '%' }),
+    HEAT_CAPACITY,
+    HEATER_POWER,
+    field('systemVolume', 'System Volume', 1, 200, { quantity: 'volume' }),
+    field('pumpDownMinutes', 'Pump-Down Time', 1, 60, { unit: 'min' }),
+    field('leakRate', 'Leak Rate', 0.01, 2, { unit: 'mbar·L/s' }),
+  ],
+  condenser: [
+    HEATER_POWER,
+    LOSS_COEFFICIENT,
+    field('coolantInlet', 'Cooling Water Inlet', 2, 35, { quantity: 'temperature' }),
+    field('coolantFlow', 'Cooling Water Flow', 0.1, 20, { quantity: 'coolantFlow' }),
+    field('coilLength', 'Coil Length', 0.5, 20, { quantity: 'length', applies: (p) => p.condenserGeometry === 'coil' }),
+    field('coilDiameter', 'Coil Tube OD', 4, 25, { quantity: 'diameter', applies: (p) => p.condenserGeometry === 'coil' }),
+    field('condenserArea', 'Transfer Area', 0.01, 2, { quantity: 'area', applies: (p) => p.condenserGeometry === 'area' }),
+    field('uValue', 'U Value', 100, 2000, { quantity: 'heatTransfer' }),
+    field('vaporPassage', 'Vapor Inlet Bore', 6, 80, { quantity: 'diameter' }),
+  ],
+  flash: [field('flashPressure', 'System Pressure', 50, 1520, { quantity: 'pressure' })],
+  vle: [vlePressure()],
+  mccabe: [
+    field('alpha', 'Relative Volatility (α)', 1.1, 5, { applies: usesAlpha }),
+    vlePressure(usesVle),
+    field('refluxRatio', 'Reflux Ratio (R)', 0.5, 10),
+    field('distillatePurity', 'Distillate Purity (x_D)', 0.5, 0.99),
+    field('feedComposition', 'Feed Composition (x_F)', 0.1, 0.9),
+    field('feedQuality', 'Feed Condition (q)', -0.5, 1.5),
+    field('bottomsPurity', 'Bottoms Purity (x_B)', 0.01, 0.3),
+  ],
+  batch: [
+    field('batchAlpha', 'Relative Volatility (α)', 1.5, 8, { applies: usesAlpha }),
+    vlePressure(usesVle),
+    batchField('feedComposition', 'Initial Feed (x_F)', 0.1, 0.9),
+    field('batchCharge', 'Charge', 1, 100, { quantity: 'volume' }),
+    batchField('stages', 'Stages Above Still', 1, 15, { integer: true, applies: (p) => p.batchSpec.operation !== 'simple' }),
+    batchField('refluxRatio', 'Reflux Ratio (R)', 0.5, 15, { applies: (p) => p.batchSpec.operation === 'constantReflux' }),
+    batchField('distillateComposition', 'Distillate Purity (x_D)', 0.5, 0.99, { applies: (p) => p.batchSpec.operation === 'constantComposition' }),
+    batchField('maxReflux', 'Max Reflux Ratio', 2, 50, { applies: (p) => p.batchSpec.operation === 'constantComposition' }),
+  ],
+};
+
+export const sweepParameters = (module: CalculatorModule, params: CalculatorParams) =>
+  SWEEP_PARAMETERS[module].filter(p => !p.applies || p.applies(params));
+
+const metricValues = (module: CalculatorModule, params: CalculatorParams, library: AntoineParams[]) =>
+  evaluateScenario(module, params, library).metrics.map(m => m.value);
+
+const clampTo = (parameter: SweepParameter, value: number) => {
+  const clamped = Math.min(parameter.max, Math.max(parameter.min, value));
+  return parameter.integer ? Math.round(clamped) : clamped;
+};
+
+// Evenly spaced inputs across the slider range; integer inputs drop repeats
+export const sweepRange = (parameter: SweepParameter, steps: number) => {
+  const values = Array.from({ length: steps }, (_, i) => clampTo(parameter, parameter.min + (parameter.max - parameter.min) * i / (steps - 1)));
+  return parameter.integer ? Array.from(new Set(values)) : values;
+};
+
+// --- One-way ---
+
+export interface SweepPoint {
+  value: number;
+  metrics: number[];            // Same order as the module's evaluation metrics; NaN when infeasible
+}
+
+export const oneWaySweep = (
+  module: CalculatorModule,
+  params: CalculatorParams,
+  parameter: SweepParameter,
+  steps: number = 25,
+  library: AntoineParams[] = SUBSTANCES
+): SweepPoint[] =>
+  sweepRange(parameter, steps).map(value => ({ value, metrics: metricValues(module, parameter.set(params, value), library) }));
+
+// --- Tornado ---
+
+export interface TornadoEntry {
+  parameter: SweepParameter;
+  low: number;                  // Inputs either side of the current value
+  high: number;
+  lowMetrics: number[];
+  highMetrics: number[];
+}
+
+// Each input moves ±swing of its current value (of its range when the value is zero), clamped to the slider
+export const tornadoAnalysis = (
+  module: CalculatorModule,
+  params: CalculatorParams,
+  swing: number = 0.2,
+  library: AntoineParams[] = SUBSTANCES
+): TornadoEntry[] =>
+  sweepParameters(module, params).map(parameter => {
+    const base = parameter.get(params);
+    const delta = base !== 0 ? Math.abs(base) * swing : (parameter.max - parameter.min) * swing;
+    const low = clampTo(parameter, base - delta);
+    const high = clampTo(parameter, base + delta);
+    return {
+      parameter,
+      low,
+      high,
+      lowMetrics: metricValues(module, parameter.set(params, low), library),
+      highMetrics: metricValues(module, parameter.set(params, high), library),
+    };
+  });
+
+// Largest swing of one metric first; entries where it does not move are dropped
+export const rankTornado = (entries: TornadoEntry[], metricIndex: number, baseValue: number) => {
+  const spread = (e: TornadoEntry) => {
+    const values = [e.lowMetrics[metricIndex], e.highMetrics[metricIndex]].filter(Number.isFinite);
+    return values.length === 0 ? 0 : Math.max(...values.map(v => Math.abs(v - baseValue)));
+  };
+  return entries
+    .map(entry => ({ entry, spread: spread(entry) }))
+    .filter(e => e.spread > 1e-9)
+    .sort((a, b) => b.spread - a.spread)
+    .map(e => e.entry);
+};
+
+// --- Two-way ---
+
+export interface SweepGrid {
+  xs: number[];
+  ys: number[];
+  cells: number[][][];          // [y][x][metric]
+}
+
+export const twoWaySweep = (
+  module: CalculatorModule,
+  params: CalculatorParams,
+  xParameter: SweepParameter,
+  yParameter: SweepParameter,
+  steps: number = 12,
+  library: AntoineParams[] = SUBSTANCES
+): SweepGrid => {
+  const xs = sweepRange(xParameter, steps);
+  const ys = sweepRange(yParameter, steps);
+  const cells = ys.map(y => {
+    const row = yParameter.set(params, y);
+    return xs.map(x => metricValues(module, xParameter.set(row, x), library));
+  });
+  return { xs, ys, cells };
+};
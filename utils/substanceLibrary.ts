@@ -0,0 +1,98 @@
+import { AntoineParams, AntoinePressureUnit } from '../types';
+import { MMHG_PER_UNIT, SUBSTANCES } from './calculations';
+
+// --- Substance Library ---
+// Built-in Antoine sets plus user-defined substances kept in localStorage.
+// Custom entries can be exported to and imported from a JSON file.
+
+const CUSTOM_SUBSTANCES_KEY = 'distillai_custom_substances';
+const EXPORT_FORMAT = 'distillai-substances';
+
+const PRESSURE_UNITS = Object.keys(MMHG_PER_UNIT) as AntoinePressureUnit[];
+
+export const loadCustomSubstances = (): AntoineParams[] => {
+  try {
+    const saved = localStorage.getItem(CUSTOM_SUBSTANCES_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(s => validateSubstance(s).length === 0).map(s => ({ ...s, custom: true })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomSubstances = (substances: AntoineParams[]) => {
+  localStorage.setItem(CUSTOM_SUBSTANCES_KEY, JSON.stringify(substances));
+};
+
+export const getAllSubstances = (): AntoineParams[] => [...SUBSTANCES, ...loadCustomSubstances()];
+
+export const findSubstance = (name: string): AntoineParams | undefined => {
+  const key = name.trim().toLowerCase();
+  return getAllSubstances().find(s => s.name.toLowerCase() === key);
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Returns a list of problems; empty when the entry is usable
+export const validateSubstance = (value: unknown): string[] => {
+  if (!value || typeof value !== 'object') return ['Entry is not an object.'];
+  const s = value as Partial<AntoineParams>;
+  const errors: string[] = [];
+  if (typeof s.name !== 'string' || s.name.trim() === '') errors.push('Name is required.');
+  (['A', 'B', 'C', 'tMin', 'tMax', 'molarMass'] as const).forEach(key => {
+    if (!isNumber(s[key])) errors.push(`${key} must be a number.`);
+  });
+  if (isNumber(s.tMin) && isNumber(s.tMax) && s.tMin >= s.tMax) errors.push('tMin must be below tMax.');
+  if (isNumber(s.tMin) && isNumber(s.C) && s.tMin + s.C <= 0) errors.push('T + C must stay positive over the range.');
+  if (isNumber(s.molarMass) && s.molarMass <= 0) errors.push('Molar mass must be positive.');
+  if (!PRESSURE_UNITS.includes(s.pressureUnit as AntoinePressureUnit)) errors.push(`Pressure unit must be one of ${PRESSURE_UNITS.join(', ')}.`);
+  return errors;
+};
+
+export const exportSubstances = (substances: AntoineParams[]): string =>
+  JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: 1,
+    substances: substances.map(({ custom, ...s }) => s),
+  }, null, 2);
+
+// Accepts the export format or a bare array; invalid entries are reported, not imported
+export const parseSubstanceFile = (text: string): { substances: AntoineParams[], errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { substances: [], errors: [`Invalid JSON: ${(e as Error).message}`] };
+  }
+  const list = Array.isArray(data) ? data : (data as { substances?: unknown })?.substances;
+  if (!Array.isArray(list)) return { substances: [], errors: ['Expected a list of substances.'] };
+
+  const substances: AntoineParams[] = [];
+  const errors: string[] = [];
+  list.forEach((entry, i) => {
+    const problems = validateSubstance(entry);
+    if (problems.length > 0) {
+      const name = (entry as { name?: unknown })?.name;
+      errors.push(`Entry ${i + 1}${typeof name === 'string' ? ` (${name})` : ''}: ${problems.join(' ')}`);
+      return;
+    }
+    const s = entry as AntoineParams;
+    substances.push({
+      name: s.name.trim(), A: s.A, B: s.B, C: s.C, tMin: s.tMin, tMax: s.tMax,
+      pressureUnit: s.pressureUnit, molarMass: s.molarMass, source: typeof s.source === 'string' ? s.source : '', custom: true,
+    });
+  });
+  return { substances, errors };
+};
+
+// Imported entries replace custom substances with the same name; built-in names are rejected
+export const mergeCustomSubstances = (existing: AntoineParams[], incoming: AntoineParams[]): { merged: AntoineParams[], skipped: string[] } => {
+  const builtIn = new Set(SUBSTANCES.map(s => s.name.toLowerCase()));
+  const skipped: string[] = [];
+  const byName = new Map(existing.map(s => [s.name.toLowerCase(), s]));
+  incoming.forEach(s => {
+    if (builtIn.has(s.name.toLowerCase())) skipped.push(s.name);
+    else byName.set(s.name.toLowerCase(), s);
+  });
+  return { merged: [...byName.values()], skipped };
+};
@@ -0,0 +1,190 @@
+import { MMHG_PER_UNIT } from './calculations';
+
+// --- Units ---
+// Every model computes in canonical units (°C, mmHg, L, mL/min, kg, m, W, kWh).
+// The user's preference is applied only at the edges: slider inputs, chart
+// axes, metrics, exported data and calculation-tool results.
+
+export type UnitSystem = 'si' | 'imperial';
+export type PressureUnit = 'mmHg' | 'kPa' | 'bar' | 'psi';
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  pressure: PressureUnit;
+}
+
+export type Quantity =
+  | 'temperature'
+  | 'temperatureDelta'
+  | 'pressure'
+  | 'volume'
+  | 'flowRate'
+  | 'coolantFlow'
+  | 'mass'
+  | 'length'
+  | 'diameter'
+  | 'area'
+  | 'heatTransfer'
+  | 'lossCoefficient'
+  | 'specificHeat'
+  | 'latentHeat'
+  | 'density'
+  | 'pumpSpeed';
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = { system: 'si', pressure: 'mmHg' };
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = { si: 'SI', imperial: 'Imperial' };
+export const PRESSURE_UNITS: PressureUnit[] = ['mmHg', 'kPa', 'bar', 'psi'];
+
+const UNIT_PREFERENCES_KEY = 'distillai_unit_preferences';
+const MMHG_PER_PSI = 51.7149;
+
+// display = canonical × scale + offset; digits is the default display precision
+export interface UnitDef {
+  label: string;
+  scale: number;
+  offset?: number;
+  digits: number;
+}
+
+type LinearQuantity = Exclude<Quantity, 'pressure'>;
+
+const UNITS: Record<UnitSystem, Record<LinearQuantity, UnitDef>> = {
+  si: {
+    temperature: { label: '°C', scale: 1, digits: 1 },
+    temperatureDelta: { label: 'K', scale: 1, digits: 1 },
+    volume: { label: 'L', scale: 1, digits: 2 },
+    flowRate: { label: 'mL/min', scale: 1, digits: 1 },
+    coolantFlow: { label: 'L/min', scale: 1, digits: 2 },
+    mass: { label: 'kg', scale: 1, digits: 1 },
+    length: { label: 'm', scale: 1, digits: 1 },
+    diameter: { label: 'mm', scale: 1, digits: 0 },
+    area: { label: 'm²', scale: 1, digits: 3 },
+    heatTransfer: { label: 'W/m²·K', scale: 1, digits: 0 },
+    lossCoefficient: { label: 'W/K', scale: 1, digits: 1 },
+    specificHeat: { label: 'kJ/kg·K', scale: 1, digits: 2 },
+    latentHeat: { label: 'kJ/kg', scale: 1, digits: 0 },
+    density: { label: 'kg/L', scale: 1, digits: 2 },
+    pumpSpeed: { label: 'm³/h', scale: 1, digits: 1 },
+  },
+  imperial: {
+    temperature: { label: '°F', scale: 1.8, offset: 32, digits: 1 },
+    temperatureDelta: { label: '°F', scale: 1.8, digits: 1 },
+    volume: { label: 'gal', scale: 0.264172, digits: 2 },
+    flowRate: { label: 'gal/h', scale: 0.0158503, digits: 2 },
+    coolantFlow: { label: 'gal/min', scale: 0.264172, digits: 2 },
+    mass: { label: 'lb', scale: 2.20462, digits: 1 },
+    length: { label: 'ft', scale: 3.28084, digits: 1 },
+    diameter: { label: 'in', scale: 0.0393701, digits: 2 },
+    area: { label: 'ft²', scale: 10.7639, digits: 2 },
+    heatTransfer: { label: 'BTU/h·ft²·°F', scale: 0.17611, digits: 0 },
+    lossCoefficient: { label: 'W/°F', scale: 1 / 1.8, digits: 2 },
+    specificHeat: { label: 'BTU/lb·°F', scale: 0.238846, digits: 3 },
+    latentHeat: { label: 'BTU/lb', scale: 0.429923, digits: 0 },
+    density: { label: 'lb/gal', scale: 8.3454, digits: 2 },
+    pumpSpeed: { label: 'CFM', scale: 0.588578, digits: 1 },
+  },
+};
+
+const PRESSURE: Record<PressureUnit, UnitDef> = {
+  mmHg: { label: 'mmHg', scale: 1, digits: 0 },
+  kPa: { label: 'kPa', scale: 1 / MMHG_PER_UNIT.kPa, digits: 1 },
+  bar: { label: 'bar', scale: 1 / MMHG_PER_UNIT.bar, digits: 3 },
+  psi: { label: 'psi', scale: 1 / MMHG_PER_PSI, digits: 2 },
+};
+
+const unitOf = (quantity: Quantity, prefs: UnitPreferences): UnitDef =>
+  quantity === 'pressure' ? PRESSURE[prefs.pressure] : UNITS[prefs.system][quantity];
+
+export const unitLabel = (quantity: Quantity, prefs: UnitPreferences) => unitOf(quantity, prefs).label;
+
+// The SI and imperial units of a quantity, for reading values a file labels in either
+export const systemUnitDefs = (quantity: LinearQuantity): UnitDef[] => [UNITS.si[quantity], UNITS.imperial[quantity]];
+
+export const unitDigits = (quantity: Quantity, prefs: UnitPreferences) => unitOf(quantity, prefs).digits;
+
+export const isCanonical = (prefs: UnitPreferences) =>
+  prefs.system === DEFAULT_UNIT_PREFERENCES.system && prefs.pressure === DEFAULT_UNIT_PREFERENCES.pressure;
+
+export const toDisplay = (quantity: Quantity, value: number, prefs: UnitPreferences) => {
+  const unit = unitOf(quantity, prefs);
+  return value * unit.scale + (unit.offset ?? 0);
+};
+
+export const fromDisplay = (quantity: Quantity, value: number, prefs: UnitPreferences) => {
+  const unit = unitOf(quantity, prefs);
+  return (value - (unit.offset ?? 0)) / unit.scale;
+};
+
+// Differences (residuals, temperature drops) scale without the offset
+export const toDisplayDelta = (quantity: Quantity, value: number, prefs: UnitPreferences) => value * unitOf(quantity, prefs).scale;
+
+export const formatQuantity = (quantity: Quantity, value: number, prefs: UnitPreferences, digits?: number) => {
+  const unit = unitOf(quantity, prefs);
+  return `${toDisplay(quantity, value, prefs).toFixed(digits ?? unit.digits)} ${unit.label}`;
+};
+
+// Slider step in display units, snapped to 1, 2 or 5 × 10ⁿ so thumbs land on round values
+export const displayStep = (quantity: Quantity, step: number, prefs: UnitPreferences) => {
+  const scale = unitOf(quantity, prefs).scale;
+  if (scale === 1) return step;
+  const raw = step * scale;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const mantissa = raw / magnitude;
+  const snapped = mantissa < 1.5 ? 1 : mantissa < 3.5 ? 2 : mantissa < 7.5 ? 5 : 10;
+  return Number((snapped * magnitude).toPrecision(1));
+};
+
+// Converts the listed columns of chart rows; other columns pass through untouched
+export const convertRows = <T extends object>(
+  rows: T[],
+  columns: Partial<Record<string, Quantity>>,
+  prefs: UnitPreferences
+): T[] => {
+  if (isCanonical(prefs)) return rows;
+  return rows.map(row => {
+    const out = { ...row } as Record<string, unknown>;
+    Object.entries(columns).forEach(([key, quantity]) => {
+      const value = out[key];
+      if (quantity && typeof value === 'number') out[key] = Number(toDisplay(quantity, value, prefs).toFixed(4));
+    });
+    return out as T;
+  });
+};
+
+export const loadUnitPreferences = (): UnitPreferences => {
+  try {
+    const saved = localStorage.getItem(UNIT_PREFERENCES_KEY);
+    const parsed = saved ? JSON.parse(saved) : {};
+    return {
+      system: parsed.system === 'imperial' ? 'imperial' : 'si',
+      pressure: PRESSURE_UNITS.includes(parsed.pressure) ? parsed.pressure : DEFAULT_UNIT_PREFERENCES.pressure,
+    };
+  } catch {
+    return DEFAULT_UNIT_PREFERENCES;
+  }
+};
+
+export const saveUnitPreferences = (prefs: UnitPreferences) => {
+  localStorage.setItem(UNIT_PREFERENCES_KEY, JSON.stringify(prefs));
+};
+
+// One line for the AI system instruction
+export const describeUnitPreferences = (prefs: UnitPreferences) => {
+  const sample: Quantity[] = ['temperature', 'pressure', 'volume', 'flowRate', 'mass'];
+  return `${UNIT_SYSTEM_LABELS[prefs.system]} (${sample.map(q => unitLabel(q, prefs)).join(', ')})`;
+};
+
+// CSV of display rows; quantity columns carry their unit in the header
+export const rowsToCsv = (rows: object[], columns: Partial<Record<string, Quantity>>, prefs: UnitPreferences) => {
+  const keys = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+  const cell = (v: unknown) => {
+    const text = v === undefined || v === null ? '' : String(v);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = keys.map(k => {
+    const quantity = columns[k];
+    return cell(quantity ? `${k} (${unitLabel(quantity, prefs)})` : k);
+  });
+  return [header.join(','), ...rows.map(r => keys.map(k => cell((r as Record<string, unknown>)[k])).join(','))].join('\n');
+};
@@ -0,0 +1,132 @@
+import { StillUnit } from '../types';
+import { SUBSTANCES } from './calculations';
+import { DEFAULT_BOILER_PARAMS, boilerEnergyAt, boilerSpecFrom, boilerVolumeAt } from './boiler';
+import { ColumnInfo, DataRow, ImportReport } from './dataImport';
+import { DEFAULT_UNIT_ID, unitStorageKey } from './fleet';
+import { ENERGY_UNITS, FLOW_RATE_UNITS, MeasuredUnit, VOLUME_UNITS, findUnit, timeScaleForUnit, toCanonical } from './runLog';
+
+// --- Operating Runs ---
+// Each distillation run a unit logs: how long the heater ran, the energy it
+// drew and the distillate collected. Summed since a task's last completion,
+// they drive maintenance that comes due with use rather than with time.
+
+export type RunSource = 'model' | 'import' | 'manual';
+
+export interface OperatingRun {
+  id: string;
+  startedAt: number;
+  durationMin: number;      // Heater on-time
+  energyKWh: number;
+  liters: number;           // Distillate produced
+  source: RunSource;
+  notes?: string;
+}
+
+export interface UsageTotals {
+  heaterHours: number;
+  liters: number;
+  energyKWh: number;
+  runs: number;
+}
+
+const RUNS_KEY = 'distillai_operating_runs';
+
+const isRun = (raw: unknown): raw is OperatingRun => {
+  if (!raw || typeof raw !== 'object') return false;
+  const r = raw as Record<string, unknown>;
+  return typeof r.id === 'string' && typeof r.startedAt === 'number' && typeof r.durationMin === 'number'
+    && typeof r.energyKWh === 'number' && typeof r.liters === 'number';
+};
+
+export const loadRuns = (unitId: string = DEFAULT_UNIT_ID): OperatingRun[] => {
+  try {
+    const saved = localStorage.getItem(unitStorageKey(RUNS_KEY, unitId));
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isRun) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRuns = (runs: OperatingRun[], unitId: string = DEFAULT_UNIT_ID) => {
+  localStorage.setItem(unitStorageKey(RUNS_KEY, unitId), JSON.stringify(runs));
+};
+
+// Runs started after a timestamp (all runs when null)
+export const usageSince = (runs: OperatingRun[], since: number | null): UsageTotals => {
+  const counted = since === null ? runs : runs.filter(r => r.startedAt > since);
+  return {
+    heaterHours: counted.reduce((sum, r) => sum + r.durationMin, 0) / 60,
+    liters: counted.reduce((sum, r) => sum + r.liters, 0),
+    energyKWh: counted.reduce((sum, r) => sum + r.energyKWh, 0),
+    runs: counted.length,
+  };
+};
+
+// Energy and distillate the Flow and Power models predict for a run of this
+// length: the Calculator's default water charge on the unit's heater and boiler
+export const modelRun = (still: StillUnit, durationMin: number) => {
+  const spec = boilerSpecFrom({ ...DEFAULT_BOILER_PARAMS, boilerVolume: still.boilerVolumeL, powerWatts: still.heaterPowerW }, SUBSTANCES[0]);
+  return { energyKWh: boilerEnergyAt(spec, durationMin), liters: boilerVolumeAt(spec, durationMin) };
+};
+
+// Trapezoidal integral of a per-minute rate over time in minutes
+const integrate = (points: { t: number, v: number }[]) =>
+  points.slice(1).reduce((sum, p, i) => sum + (p.t - points[i].t) * (p.v + points[i].v) / 2, 0);
+
+// What a cumulative counter added over the run; its starting value predates the run
+const increase = (points: { t: number, v: number }[]) => points[points.length - 1].v - points[0].v;
+
+const findColumn = (columns: ColumnInfo[], match: RegExp) => columns.find(c => c.type === 'number' && match.test(c.key));
+
+// Heater power in W
+const POWER_UNITS: MeasuredUnit[] = [{ label: 'W', scale: 1, aliases: ['watt', 'watts'] }, { label: 'kW', scale: 0.001 }];
+
+// Duration, energy and distillate of one run from a time-series log (the same
+// files the Calculator overlays). Cumulative columns are preferred and counted
+// from their first reading; flow rate and power are integrated when those are
+// all the log has. Values are read in their header's unit; a column whose unit
+// is missing or unknown is skipped.
+export const runFromLog = (rows: DataRow[], report: ImportReport): { run: Partial<OperatingRun>, errors: string[] } => {
+  const columns = report.columns;
+  // Matched on the name so a "Flow (mL/min)" header is not taken for the time axis
+  const time = columns.find(c => c.type === 'number' && /time|elapsed|^(t|min|mins|minutes|sec|seconds|hours?)$/i.test(c.name));
+  if (!time) return { run: {}, errors: ['The log needs a time column.'] };
+
+  const scale = timeScaleForUnit(time.unit);
+  const series = (column: ColumnInfo) => rows
+    .filter(r => typeof r[time.key] === 'number' && typeof r[column.key] === 'number')
+    .map(r => ({ t: (r[time.key] as number) * scale, v: r[column.key] as number }))
+    .sort((a, b) => a.t - b.t);
+  const times = series(time);
+  if (times.length < 2) return { run: {}, errors: ['The log needs at least two timed rows.'] };
+  const run: Partial<OperatingRun> = { durationMin: times[times.length - 1].t - times[0].t };
+
+  const errors: string[] = [];
+  // Series converted to the unit's canonical form (L, mL/min, kWh or W)
+  const measured = (column: ColumnInfo | undefined, units: MeasuredUnit[]) => {
+    if (!column) return null;
+    const unit = findUnit(units, column.unit);
+    if (!unit) {
+      const problem = column.unit ? `its unit "${column.unit}" is not recognised` : 'its header names no unit';
+      errors.push(`Skipped ${column.name}: ${problem} (expected ${units.map(u => u.label).join(', ')}).`);
+      return null;
+    }
+    const points = series(column).map(p => ({ t: p.t, v: toCanonical(unit, p.v) }));
+    return points.length > 0 ? points : null;
+  };
+
+  const volume = measured(findColumn(columns, /vol|litre|liter|distillate/i), VOLUME_UNITS);
+  const flow = volume ? null : measured(findColumn(columns, /flow|ml\/min/i), FLOW_RATE_UNITS);
+  if (volume) run.liters = increase(volume);
+  else if (flow) run.liters = integrate(flow) / 1000;
+
+  const energy = measured(findColumn(columns, /energy|kwh/i), ENERGY_UNITS);
+  const power = energy ? null : measured(findColumn(columns, /power|watt/i), POWER_UNITS);
+  if (energy) run.energyKWh = increase(energy);
+  else if (power) run.energyKWh = integrate(power) / 60000;
+
+  const missing = [run.liters === undefined && 'distillate volume or flow rate', run.energyKWh === undefined && 'energy or power'].filter(Boolean);
+  if (missing.length > 0) errors.push(`No ${missing.join(' or ')} column found; enter it by hand.`);
+  return { run, errors };
+};
@@ -0,0 +1,91 @@
+import { AntoineParams } from '../types';
+import { calculateBoilingPoint, generatePowerData } from './calculations';
+
+// --- Vacuum Distillation ---
+// Boiling point at reduced pressure (inverse Antoine), the batch energy at
+// that boiling point versus atmospheric operation, and vacuum pump sizing.
+
+const R = 8.314;              // J/(mol·K)
+const MBAR_PER_MMHG = 1.33322;
+export const ATMOSPHERIC_MMHG = 760;
+
+// Boiling point against pressure on a log-spaced grid (low pressures change fastest)
+export const generateBoilingCurve = (params: AntoineParams, minMmHg: number, maxMmHg: number, points: number = 60) => {
+  const data = [];
+  for (let i = 0; i <= points; i++) {
+    const pressure = minMmHg * Math.pow(maxMmHg / minMmHg, i / points);
+    data.push({
+      pressure: Number(pressure.toFixed(1)),
+      boilingPoint: Number(calculateBoilingPoint(pressure, params).toFixed(2)),
+    });
+  }
+  return data;
+};
+
+// Clausius-Clapeyron on the Antoine slope: ΔHvap = R·T²·ln(10)·B / (t + C)², in J/mol
+export const heatOfVaporization = (tempC: number, params: AntoineParams): number =>
+  R * (tempC + 273.15) ** 2 * Math.LN10 * params.B / (tempC + params.C) ** 2;
+
+export interface BatchEnergyInput {
+  chargeKg: number;
+  evaporatedFraction: number;   // 0-1 of the charge boiled off
+  heatCapacity: number;         // Liquid cp in kJ/(kg·K)
+  ambientC: number;
+  heaterWatts: number;
+}
+
+export interface BatchEnergy {
+  pressureMmHg: number;
+  boilingPoint: number;
+  sensibleKwh: number;
+  latentKwh: number;
+  totalKwh: number;
+  runMinutes: number;
+}
+
+// Heat-up to the boiling point plus vaporization of the boiled-off fraction
+export const batchEnergy = (params: AntoineParams, pressureMmHg: number, input: BatchEnergyInput): BatchEnergy => {
+  const boilingPoint = calculateBoilingPoint(pressureMmHg, params);
+  const sensibleKj = input.chargeKg * input.heatCapacity * Math.max(0, boilingPoint - input.ambientC);
+  const latentKj = input.chargeKg * input.evaporatedFraction * heatOfVaporization(boilingPoint, params) / params.molarMass;
+  const totalKwh = (sensibleKj + latentKj) / 3600;
+  return {
+    pressureMmHg,
+    boilingPoint,
+    sensibleKwh: sensibleKj / 3600,
+    latentKwh: latentKj / 3600,
+    totalKwh,
+    runMinutes: totalKwh * 1000 / input.heaterWatts * 60,
+  };
+};
+
+// Cumulative heater energy and cost for the vacuum run against the atmospheric one
+export const generateEnergyComparison = (atmospheric: BatchEnergy, vacuum: BatchEnergy, heaterWatts: number, costPerKwh: number) => {
+  const duration = Math.ceil(Math.max(atmospheric.runMinutes, vacuum.runMinutes));
+  const curve = generatePowerData(heaterWatts, costPerKwh, duration);
+  return curve.map(p => ({
+    time: p.time,
+    atmospheric: p.time <= atmospheric.runMinutes ? p.energy : Number(atmospheric.totalKwh.toFixed(3)),
+    vacuum: p.time <= vacuum.runMinutes ? p.energy : Number(vacuum.totalKwh.toFixed(3)),
+  }));
+};
+
+export interface PumpSizing {
+  pumpDownSpeed: number;    // m³/h to reach the target in the given time
+  leakSpeed: number;        // m³/h to hold the target against the leak rate
+  requiredSpeed: number;    // m³/h, sum of both
+}
+
+// Pump-down: S = (V / t)·ln(P0 / P); leak: S = Q / P, with Q in mbar·L/s
+export const sizeVacuumPump = (
+  volumeLiters: number,
+  targetMmHg: number,
+  pumpDownMinutes: number,
+  leakRateMbarLs: number
+): PumpSizing => {
+  const pumpDown = targetMmHg < ATMOSPHERIC_MMHG
+    ? (volumeLiters / (pumpDownMinutes * 60)) * Math.log(ATMOSPHERIC_MMHG / targetMmHg) * 3.6
+    : 0;
+  const leak = leakRateMbarLs / (targetMmHg * MBAR_PER_MMHG) * 3.6;
+  return { pumpDownSpeed: pumpDown, leakSpeed: leak, requiredSpeed: pumpDown + leak };
+};
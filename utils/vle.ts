@@ -0,0 +1,273 @@
+import { AntoineParams } from '../types';
+import { EquilibriumCurve, SUBSTANCES, calculateBoilingPoint, calculateVaporPressure } from './calculations';
+
+// --- Binary Vapor-Liquid Equilibrium ---
+// Modified Raoult's law: y_i·P = x_i·γ_i·Psat_i(T), with Psat from the Antoine
+// constants and γ from an activity coefficient model. Component 1 is the
+// light (lower boiling) component throughout.
+
+export type ActivityModel = 'ideal' | 'vanLaar' | 'wilson' | 'nrtl';
+
+export const ACTIVITY_MODEL_LABELS: Record<ActivityModel, string> = {
+  ideal: 'Ideal (Raoult)',
+  vanLaar: 'Van Laar',
+  wilson: 'Wilson',
+  nrtl: 'NRTL',
+};
+
+// ln γ1 = A12·(A21·x2 / (A12·x1 + A21·x2))²
+export interface VanLaarParams { A12: number; A21: number; }
+
+// Λ12 = (V2/V1)·exp(-a12/RT), a in cal/mol, V in cm³/mol
+export interface WilsonParams { a12: number; a21: number; V1: number; V2: number; }
+
+// τ12 = b12/RT, G12 = exp(-α·τ12), b in cal/mol
+export interface NrtlParams { b12: number; b21: number; alpha: number; }
+
+export interface BinaryPair {
+  id: string;
+  light: string;        // Substance names in the library
+  heavy: string;
+  vanLaar?: VanLaarParams;
+  wilson?: WilsonParams;
+  nrtl?: NrtlParams;
+  source: string;
+}
+
+const R_CAL = 1.98721;  // cal/(mol·K)
+const SVNA = 'Smith, Van Ness & Abbott, Intro. to Chemical Engineering Thermodynamics';
+
+export const BINARY_PAIRS: BinaryPair[] = [
+  {
+    id: 'ethanol-water',
+    light: 'Ethanol',
+    heavy: 'Water',
+    vanLaar: { A12: 1.6798, A21: 0.9227 },
+    source: "Perry's Chemical Engineers' Handbook",
+  },
+  {
+    id: 'methanol-water',
+    light: 'Methanol',
+    heavy: 'Water',
+    wilson: { a12: 107.38, a21: 469.55, V1: 40.73, V2: 18.07 },
+    nrtl: { b12: -253.88, b21: 845.21, alpha: 0.2994 },
+    source: SVNA,
+  },
+  {
+    id: 'acetone-water',
+    light: 'Acetone',
+    heavy: 'Water',
+    wilson: { a12: 291.27, a21: 1448.01, V1: 74.05, V2: 18.07 },
+    nrtl: { b12: 631.05, b21: 1197.41, alpha: 0.5343 },
+    source: SVNA,
+  },
+  {
+    id: '1-propanol-water',
+    light: '1-Propanol',
+    heavy: 'Water',
+    wilson: { a12: 775.48, a21: 1351.90, V1: 75.14, V2: 18.07 },
+    nrtl: { b12: 500.40, b21: 1636.57, alpha: 0.5081 },
+    source: SVNA,
+  },
+  {
+    id: 'benzene-toluene',
+    light: 'Benzene',
+    heavy: 'Toluene',
+    source: 'Near-ideal mixture',
+  },
+];
+
+export const availableModels = (pair: BinaryPair): ActivityModel[] => [
+  'ideal',
+  ...(pair.vanLaar ? ['vanLaar' as const] : []),
+  ...(pair.wilson ? ['wilson' as const] : []),
+  ...(pair.nrtl ? ['nrtl' as const] : []),
+];
+
+// Activity coefficients [γ1, γ2] at liquid composition x1 and temperature T (°C)
+export const activityCoefficients = (pair: BinaryPair, model: ActivityModel, x1: number, tempC: number): [number, number] => {
+  const x2 = 1 - x1;
+  const T = tempC + 273.15;
+
+  if (model === 'vanLaar' && pair.vanLaar) {
+    const { A12, A21 } = pair.vanLaar;
+    const d = A12 * x1 + A21 * x2;
+    return [Math.exp(A12 * (A21 * x2 / d) ** 2), Math.exp(A21 * (A12 * x1 / d) ** 2)];
+  }
+
+  if (model === 'wilson' && pair.wilson) {
+    const { a12, a21, V1, V2 } = pair.wilson;
+    const L12 = (V2 / V1) * Math.exp(-a12 / (R_CAL * T));
+    const L21 = (V1 / V2) * Math.exp(-a21 / (R_CAL * T));
+    const term = L12 / (x1 + L12 * x2) - L21 / (x2 + L21 * x1);
+    return [
+      Math.exp(-Math.log(x1 + L12 * x2) + x2 * term),
+      Math.exp(-Math.log(x2 + L21 * x1) - x1 * term),
+    ];
+  }
+
+  if (model === 'nrtl' && pair.nrtl) {
+    const { b12, b21, alpha } = pair.nrtl;
+    const t12 = b12 / (R_CAL * T);
+    const t21 = b21 / (R_CAL * T);
+    const G12 = Math.exp(-alpha * t12);
+    const G21 = Math.exp(-alpha * t21);
+    return [
+      Math.exp(x2 ** 2 * (t21 * (G21 / (x1 + x2 * G21)) ** 2 + t12 * G12 / (x2 + x1 * G12) ** 2)),
+      Math.exp(x1 ** 2 * (t12 * (G12 / (x2 + x1 * G12)) ** 2 + t21 * G21 / (x1 + x2 * G21) ** 2)),
+    ];
+  }
+
+  return [1, 1];
+};
+
+export interface VlePoint {
+  x: number;            // Liquid mole fraction of the light component
+  y: number;            // Vapor mole fraction in equilibrium
+  temperature: number;  // Bubble point (°C)
+}
+
+export interface Azeotrope {
+  x: number;
+  temperature: number;
+  kind: 'minimum-boiling' | 'maximum-boiling';
+}
+
+export interface VleSystem {
+  pair: BinaryPair;
+  model: ActivityModel;
+  pressureMmHg: number;
+  light: AntoineParams;
+  heavy: AntoineParams;
+  points: VlePoint[];
+  azeotrope: Azeotrope | null;
+  // Tabulated x-y curve for the McCabe-Thiele and Rayleigh modules
+  curve: EquilibriumCurve;
+}
+
+export interface VleSpec {
+  pairId: string;
+  model: ActivityModel;
+  pressureMmHg: number;
+}
+
+export const DEFAULT_VLE_SPEC: VleSpec = { pairId: 'ethanol-water', model: 'vanLaar', pressureMmHg: 760 };
+
+const findLibrarySubstance = (name: string) => SUBSTANCES.find(s => s.name === name);
+
+// Solves Σ x_i·γ_i·Psat_i(T) = P for T by bisection, bracketing around the pure boiling points
+export const bubblePoint = (
+  pair: BinaryPair,
+  model: ActivityModel,
+  light: AntoineParams,
+  heavy: AntoineParams,
+  x1: number,
+  pressureMmHg: number
+): VlePoint => {
+  const tb1 = calculateBoilingPoint(pressureMmHg, light);
+  const tb2 = calculateBoilingPoint(pressureMmHg, heavy);
+  const excess = (T: number) => {
+    const [g1, g2] = activityCoefficients(pair, model, x1, T);
+    return x1 * g1 * calculateVaporPressure(T, light) + (1 - x1) * g2 * calculateVaporPressure(T, heavy) - pressureMmHg;
+  };
+  let lo = Math.min(tb1, tb2) - 60;
+  let hi = Math.max(tb1, tb2) + 40;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (excess(mid) > 0) hi = mid; else lo = mid;
+  }
+  const T = (lo + hi) / 2;
+  const [g1] = activityCoefficients(pair, model, x1, T);
+  const y = Math.min(1, Math.max(0, x1 * g1 * calculateVaporPressure(T, light) / pressureMmHg));
+  return { x: x1, y, temperature: T };
+};
+
+// Dense near the pure-component ends, where non-ideal curves are steepest
+const compositionGrid = (): number[] => {
+  const grid = new Set<number>();
+  for (let i = 0; i <= 100; i++) grid.add(i / 100);
+  for (let i = 1; i < 20; i++) { grid.add(i / 2000); grid.add(1 - i / 2000); }
+  return [...grid].sort((a, b) => a - b);
+};
+
+// Piecewise-linear x-y curve; the inverse assumes y increases with x, which holds for these systems
+export const tabulatedCurve = (points: Array<{ x: number, y: number }>): EquilibriumCurve => {
+  const interpolate = (value: number, from: 'x' | 'y', to: 'x' | 'y') => {
+    if (value <= points[0][from]) return points[0][to];
+    const last = points[points.length - 1];
+    if (value >= last[from]) return last[to];
+    let lo = 0;
+    let hi = points.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid][from] <= value) lo = mid; else hi = mid;
+    }
+    const a = points[lo];
+    const b = points[hi];
+    return b[from] === a[from] ? a[to] : a[to] + (b[to] - a[to]) * (value - a[from]) / (b[from] - a[from]);
+  };
+  return {
+    y: (x: number) => interpolate(x, 'x', 'y'),
+    x: (y: number) => interpolate(y, 'y', 'x'),
+  };
+};
+
+// y - x changes sign where the curve crosses the diagonal
+const findAzeotrope = (
+  points: VlePoint[],
+  solve: (x: number) => VlePoint,
+  tb1: number,
+  tb2: number
+): Azeotrope | null => {
+  for (let i = 1; i < points.length - 2; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (Math.sign(a.y - a.x) === Math.sign(b.y - b.x) || b.y - b.x === 0) continue;
+    let lo = a.x;
+    let hi = b.x;
+    for (let k = 0; k < 40; k++) {
+      const mid = (lo + hi) / 2;
+      const p = solve(mid);
+      if (Math.sign(p.y - p.x) === Math.sign(a.y - a.x)) lo = mid; else hi = mid;
+    }
+    const p = solve((lo + hi) / 2);
+    return { x: p.x, temperature: p.temperature, kind: p.temperature < Math.min(tb1, tb2) ? 'minimum-boiling' : 'maximum-boiling' };
+  }
+  return null;
+};
+
+// Returns null when a component of the pair is missing from the substance library
+export const buildVleSystem = ({ pairId, model, pressureMmHg }: VleSpec): VleSystem | null => {
+  const pair = BINARY_PAIRS.find(p => p.id === pairId);
+  if (!pair) return null;
+  const light = findLibrarySubstance(pair.light);
+  const heavy = findLibrarySubstance(pair.heavy);
+  if (!light || !heavy) return null;
+  const activeModel = availableModels(pair).includes(model) ? model : 'ideal';
+
+  const solve = (x: number) => bubblePoint(pair, activeModel, light, heavy, x, pressureMmHg);
+  const points = compositionGrid().map(solve);
+  // Pure components sit exactly on the diagonal
+  points[0].y = 0;
+  points[points.length - 1].y = 1;
+
+  return {
+    pair,
+    model: activeModel,
+    pressureMmHg,
+    light,
+    heavy,
+    points,
+    azeotrope: findAzeotrope(points, solve, points[points.length - 1].temperature, points[0].temperature),
+    curve: tabulatedCurve(points),
+  };
+};
+
+// T-x-y diagram: bubble (liquid) and dew (vapor) lines against composition
+export const generateTxyData = (system: VleSystem) => ({
+  bubble: system.points.map(p => ({ x: Number(p.x.toFixed(4)), temperature: Number(p.temperature.toFixed(2)) })),
+  dew: system.points.map(p => ({ x: Number(p.y.toFixed(4)), temperature: Number(p.temperature.toFixed(2)) })),
+});
+
+export const generateXyData = (system: VleSystem) =>
+  system.points.map(p => ({ x: Number(p.x.toFixed(4)), yEq: Number(p.y.toFixed(4)), xLine: Number(p.x.toFixed(4)) }));